@@ -0,0 +1,2387 @@
+/**
+ * 經典調酒配方資料 - 配方辨識與食譜選單共用的唯一來源
+ * 新增調酒只需在此加入一筆資料
+ */
+
+import {
+    PreparationMethod,
+    RimType,
+    GlassType,
+    IBACategory,
+    CocktailEra,
+    type CocktailRecipe
+} from '../types/types';
+
+// 預設比例容許誤差（自由倒酒難以精準，給予 ±35% 彈性）
+export const DEFAULT_RECIPE_TOLERANCE = 0.35;
+
+const OTHER_SPIRITS = ['vodka', 'gin', 'rum', 'whiskey', 'tequila', 'brandy'];
+
+export const COCKTAIL_RECIPES: CocktailRecipe[] = [
+    // === 常見經典調酒（含幾款未收錄於 IBA 的配方） ===
+    {
+        id: 'martini',
+        name: 'Martini',
+        nameChinese: '馬丁尼',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 330,
+        ingredients: [
+            { type: 'gin', amount: 60, name: '琴酒 Gin' },
+            // 不甜程度因人而異，香艾酒比例放寬
+            { type: 'vermouth_dry', amount: 10, name: '不甜香艾酒 Dry Vermouth', tolerance: 1.5 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['lemon_juice', 'lime_juice', 'simple_syrup'],
+        forbidden: OTHER_SPIRITS.filter(t => t !== 'gin').concat(['campari']),
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir（攪拌法）：將材料加冰攪拌後濾入冰鎮馬丁尼杯，可加檸檬皮裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '檸檬皮或橄欖',
+        garnishes: [
+            { types: ['lemon_peel', 'olive'], name: '檸檬皮或橄欖' }
+        ]
+    },
+    {
+        id: 'vodka_martini',
+        name: 'Vodka Martini',
+        nameChinese: '伏特加馬丁尼',
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 300,
+        ingredients: [
+            { type: 'vodka', amount: 60, name: '伏特加 Vodka' },
+            { type: 'vermouth_dry', amount: 10, name: '不甜香艾酒 Dry Vermouth', tolerance: 1.5 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        forbidden: OTHER_SPIRITS.filter(t => t !== 'vodka').concat(['campari']),
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮馬丁尼杯，檸檬皮或橄欖裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '檸檬皮或橄欖',
+        garnishes: [
+            { types: ['lemon_peel', 'olive'], name: '檸檬皮或橄欖' }
+        ]
+    },
+    {
+        id: 'gibson',
+        name: 'Gibson',
+        nameChinese: '吉普森',
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 330,
+        ingredients: [
+            { type: 'gin', amount: 60, name: '琴酒 Gin' },
+            { type: 'vermouth_dry', amount: 10, name: '不甜香艾酒 Dry Vermouth', tolerance: 1.5 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        forbidden: OTHER_SPIRITS.filter(t => t !== 'gin').concat(['campari']),
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：與馬丁尼相同，加冰攪拌後濾入冰鎮馬丁尼杯，以珍珠洋蔥取代橄欖裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '珍珠洋蔥',
+        garnishes: [
+            { types: ['cocktail_onion'], name: '珍珠洋蔥' }
+        ]
+    },
+    {
+        id: 'negroni',
+        name: 'Negroni',
+        nameChinese: '內格羅尼',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 390,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'campari', amount: 30, name: '金巴利 Campari' },
+            { type: 'vermouth_sweet', amount: 30, name: '甜香艾酒 Sweet Vermouth' }
+        ],
+        tolerance: 0.3,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：將材料倒入裝滿冰塊的古典杯，攪拌均勻，柳橙皮裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '柳橙皮',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' }
+        ]
+    },
+    {
+        id: 'margarita',
+        name: 'Margarita',
+        nameChinese: '瑪格麗特',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'tequila',
+        difficulty: 2,
+        price: 420,
+        ingredients: [
+            { type: 'tequila', amount: 50, name: '龍舌蘭 Tequila' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入杯緣抹鹽的杯中，萊姆片裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.ROCKS],
+        garnish: '鹽口、萊姆片',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ],
+        rim: RimType.SALT
+    },
+    {
+        id: 'daiquiri',
+        name: 'Daiquiri',
+        nameChinese: '黛克瑞',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 290,
+        ingredients: [
+            { type: 'rum', amount: 60, name: '蘭姆酒 Rum' },
+            { type: 'lime_juice', amount: 20, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 10, name: '糖漿 Simple Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        forbidden: ['soda_water'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'cosmopolitan',
+        name: 'Cosmopolitan',
+        nameChinese: '柯夢波丹',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 310,
+        ingredients: [
+            { type: 'vodka', amount: 40, name: '伏特加 Vodka' },
+            { type: 'triple_sec', amount: 15, name: '橙皮酒 Triple Sec' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'cranberry_juice', amount: 30, name: '蔓越莓汁 Cranberry Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入馬丁尼杯，萊姆皮或蔓越莓裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '萊姆皮或蔓越莓',
+        garnishes: [
+            { types: ['lime_peel'], name: '萊姆皮' }
+        ]
+    },
+    {
+        id: 'mojito',
+        name: 'Mojito',
+        nameChinese: '莫希托',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 320,
+        ingredients: [
+            { type: 'rum', amount: 45, name: '蘭姆酒 Rum' },
+            { type: 'lime_juice', amount: 20, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 20, name: '糖漿 Simple Syrup' },
+            { type: 'soda_water', amount: 60, name: '蘇打水 Soda Water', displayAmount: '適量', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.MUDDLE,
+        servingTemperature: 8,
+        solids: [
+            { type: 'mint', count: 6, name: '薄荷葉 Mint' }
+        ],
+        method: 'Muddle：在杯中壓碎薄荷葉與糖，加冰、蘭姆酒、萊姆汁，上方加蘇打水。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '薄荷葉、萊姆片',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' },
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'pina_colada',
+        name: 'Piña Colada',
+        nameChinese: '椰林風情',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 300,
+        ingredients: [
+            { type: 'rum', amount: 50, name: '蘭姆酒 Rum' },
+            { type: 'coconut_cream', amount: 30, name: '椰漿 Coconut Cream' },
+            { type: 'pineapple_juice', amount: 50, name: '鳳梨汁 Pineapple Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BLEND,
+        servingTemperature: 3,
+        frozen: true,
+        method: 'Blend：與碎冰混合打碎，倒入颶風杯，鳳梨角和櫻桃裝飾。',
+        glass: GlassType.HURRICANE,
+        garnish: '鳳梨角、櫻桃',
+        garnishes: [
+            { types: ['pineapple_wedge'], name: '鳳梨角' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'whiskey_sour',
+        name: 'Whiskey Sour',
+        nameChinese: '威士忌酸酒',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 400,
+        ingredients: [
+            { type: 'whiskey', amount: 50, name: '威士忌 Whiskey' },
+            { type: 'lemon_juice', amount: 25, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 15, name: '糖漿 Simple Syrup' },
+            { type: 'egg_white', amount: 20, name: '蛋白 Egg White', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['angostura_bitters', 'aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：加冰搖盪後濾入古典杯；加蛋白時先不加冰乾搖打出泡沫，再加冰搖盪。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬片、櫻桃',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'pisco_sour',
+        name: 'Pisco Sour',
+        nameChinese: '皮斯可酸酒',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'pisco',
+        difficulty: 3,
+        price: 450,
+        ingredients: [
+            { type: 'pisco', amount: 60, name: '皮斯可 Pisco' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 20, name: '糖漿 Simple Syrup' },
+            { type: 'egg_white', amount: 30, name: '蛋白 Egg White', displayAmount: '1 顆', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['angostura_bitters', 'aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        foam: 25,
+        method: 'Dry Shake：先不加冰乾搖打發蛋白（或鷹嘴豆水），再加冰搖盪後濾入杯中，泡沫上滴幾滴苦精。',
+        glass: GlassType.ROCKS,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '安格仕苦精數滴'
+    },
+    {
+        id: 'manhattan',
+        name: 'Manhattan',
+        nameChinese: '曼哈頓',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 1,
+        price: 410,
+        ingredients: [
+            { type: 'whiskey', amount: 50, name: '威士忌 Whiskey' },
+            { type: 'vermouth_sweet', amount: 20, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入馬丁尼杯，櫻桃裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '櫻桃',
+        garnishes: [
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'long_island_iced_tea',
+        name: 'Long Island Iced Tea',
+        nameChinese: '長島冰茶',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 420,
+        ingredients: [
+            { type: 'vodka', amount: 15, name: '伏特加 Vodka' },
+            { type: 'rum', amount: 15, name: '蘭姆酒 Rum' },
+            { type: 'gin', amount: 15, name: '琴酒 Gin' },
+            { type: 'tequila', amount: 15, name: '龍舌蘭 Tequila' },
+            { type: 'triple_sec', amount: 15, name: '橙皮酒 Triple Sec' },
+            { type: 'lemon_juice', amount: 25, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 30, name: '糖漿 Simple Syrup' },
+            { type: 'cola', amount: 40, name: '可樂 Cola', displayAmount: '適量', optional: true }
+        ],
+        tolerance: 0.5,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake前七種材料後濾入裝滿冰塊的柯林斯杯，上方補可樂，檸檬片裝飾。',
+        glass: GlassType.COLLINS,
+        acceptedGlasses: [GlassType.HIGHBALL],
+        garnish: '檸檬片',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'bloody_mary',
+        name: 'Bloody Mary',
+        nameChinese: '血腥瑪麗',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 270,
+        ingredients: [
+            { type: 'vodka', amount: 45, name: '伏特加 Vodka' },
+            { type: 'tomato_juice', amount: 90, name: '番茄汁 Tomato Juice' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice', optional: true },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '少許', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Roll：在雪克杯中倒入材料與冰塊，來回倒入另一個杯子混合。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '芹菜棒、檸檬角',
+        garnishes: [
+            { types: ['celery'], name: '芹菜棒' },
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'tequila_sunrise',
+        name: 'Tequila Sunrise',
+        nameChinese: '龍舌蘭日出',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'tequila',
+        difficulty: 2,
+        price: 390,
+        ingredients: [
+            { type: 'tequila', amount: 45, name: '龍舌蘭 Tequila' },
+            { type: 'orange_juice', amount: 90, name: '柳橙汁 Orange Juice' },
+            { type: 'grenadine', amount: 15, name: '紅石榴糖漿 Grenadine' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        layers: 2,
+        method: 'Build：在高球杯中加冰、龍舌蘭和柳橙汁，最後慢慢倒入紅石榴糖漿形成漸層。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '柳橙片、櫻桃',
+        garnishes: [
+            { types: ['orange_wheel'], name: '柳橙片' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'screwdriver',
+        name: 'Screwdriver',
+        nameChinese: '螺絲起子',
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 330,
+        ingredients: [
+            { type: 'vodka', amount: 50, name: '伏特加 Vodka' },
+            { type: 'orange_juice', amount: 100, name: '柳橙汁 Orange Juice' }
+        ],
+        tolerance: 0.5,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝滿冰塊的高球杯中倒入伏特加，補滿柳橙汁，攪拌均勻。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel'], name: '柳橙片' }
+        ]
+    },
+    {
+        id: 'mai_tai',
+        name: 'Mai Tai',
+        nameChinese: '邁泰',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 290,
+        ingredients: [
+            { type: 'rum', amount: 40, name: '蘭姆酒 Rum' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 10, name: '糖漿 Simple Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：加冰搖盪後濾入裝滿碎冰的古典杯，薄荷和萊姆裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '薄荷、萊姆',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' },
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'b52',
+        name: 'B-52',
+        nameChinese: 'B-52 轟炸機',
+        era: CocktailEra.DISCO,
+        baseSpirit: 'coffee_liqueur',
+        difficulty: 3,
+        price: 290,
+        ingredients: [
+            { type: 'coffee_liqueur', amount: 20, name: '咖啡利口酒 Coffee Liqueur' },
+            { type: 'baileys', amount: 20, name: '貝禮詩奶酒 Baileys' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 20,
+        layers: 3,
+        method: 'Build：依序將咖啡利口酒、貝禮詩奶酒、橙皮酒沿吧匙背面慢慢倒入子彈杯，形成三層。',
+        glass: GlassType.SHOT
+    },
+    {
+        id: 'caipirinha',
+        name: 'Caipirinha',
+        nameChinese: '卡琵莉亞',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'cachaca',
+        difficulty: 2,
+        price: 410,
+        ingredients: [
+            { type: 'cachaca', amount: 50, name: '卡莎薩 Cachaça' },
+            { type: 'lime_juice', amount: 32, name: '萊姆汁 Lime Juice', displayAmount: '由萊姆角壓出', tolerance: 0.6 },
+            { type: 'simple_syrup', amount: 8, name: '糖漿 Simple Syrup', displayAmount: '由方糖壓出', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.MUDDLE,
+        servingTemperature: 8,
+        solids: [
+            { type: 'lime_wedge', count: 4, name: '萊姆角 Lime Wedge' },
+            { type: 'sugar_cube', count: 2, name: '方糖 Sugar Cube' }
+        ],
+        method: 'Muddle：在古典杯中壓搗萊姆角與方糖，加碎冰後倒入卡莎薩，輕輕攪拌。',
+        glass: GlassType.ROCKS
+    },
+    {
+        id: 'berry_caipiroska',
+        name: 'Berry Caipiroska',
+        nameChinese: '莓果卡琵洛斯卡',
+        era: CocktailEra.MODERN,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 530,
+        ingredients: [
+            { type: 'vodka', amount: 50, name: '伏特加 Vodka' },
+            { type: 'berry_juice', amount: 25, name: '莓果汁 Berry Juice', displayAmount: '由莓果壓出', tolerance: 0.6 },
+            { type: 'lime_juice', amount: 16, name: '萊姆汁 Lime Juice', displayAmount: '由萊姆角壓出', tolerance: 0.6 },
+            { type: 'simple_syrup', amount: 8, name: '糖漿 Simple Syrup', displayAmount: '由方糖壓出', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.MUDDLE,
+        servingTemperature: 8,
+        solids: [
+            { type: 'berries', count: 5, name: '莓果 Berries' },
+            { type: 'lime_wedge', count: 2, name: '萊姆角 Lime Wedge' },
+            { type: 'sugar_cube', count: 2, name: '方糖 Sugar Cube' }
+        ],
+        method: 'Muddle：壓搗莓果、萊姆角與方糖，加冰後倒入伏特加，輕輕攪拌。',
+        glass: GlassType.ROCKS
+    },
+    {
+        id: 'sidecar',
+        name: 'Sidecar',
+        nameChinese: '側車',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'brandy',
+        difficulty: 2,
+        price: 500,
+        ingredients: [
+            { type: 'brandy', amount: 50, name: '白蘭地 Brandy' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' },
+            { type: 'lemon_juice', amount: 20, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        rim: RimType.SUGAR,
+        method: 'Shake：加冰搖盪後濾入杯緣沾糖的冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '糖口'
+    },
+    // === IBA The Unforgettables 不朽經典 ===
+    {
+        id: 'alexander',
+        name: 'Alexander',
+        nameChinese: '亞歷山大',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'brandy',
+        difficulty: 2,
+        price: 420,
+        ingredients: [
+            { type: 'brandy', amount: 30, name: '干邑白蘭地 Cognac' },
+            { type: 'creme_de_cacao', amount: 30, name: '可可利口酒 Crème de Cacao' },
+            { type: 'cream', amount: 30, name: '鮮奶油 Cream' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，撒上現磨肉豆蔻。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '肉豆蔻粉'
+    },
+    {
+        id: 'americano',
+        name: 'Americano',
+        nameChinese: '美國佬',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'campari',
+        difficulty: 1,
+        price: 250,
+        ingredients: [
+            { type: 'campari', amount: 30, name: '金巴利 Campari' },
+            { type: 'vermouth_sweet', amount: 30, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'soda_water', amount: 30, name: '蘇打水 Soda Water', displayAmount: '少許', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝滿冰塊的古典杯中倒入金巴利與甜香艾酒，補少許蘇打水，柳橙片裝飾。',
+        glass: GlassType.ROCKS,
+        acceptedGlasses: [GlassType.HIGHBALL],
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel', 'lemon_peel'], name: '柳橙片或檸檬皮' }
+        ]
+    },
+    {
+        id: 'angel_face',
+        name: 'Angel Face',
+        nameChinese: '天使之顏',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 590,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'apricot_brandy', amount: 30, name: '杏桃白蘭地 Apricot Brandy' },
+            { type: 'calvados', amount: 30, name: '蘋果白蘭地 Calvados' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'aviation',
+        name: 'Aviation',
+        nameChinese: '飛行',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 430,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'maraschino', amount: 15, name: '瑪拉斯奇諾 Maraschino' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' },
+            { type: 'creme_de_violette', amount: 5, name: '紫羅蘭利口酒 Crème de Violette', displayAmount: '1 吧匙', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，櫻桃裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '櫻桃',
+        garnishes: [
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'between_the_sheets',
+        name: 'Between the Sheets',
+        nameChinese: '床笫之間',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 510,
+        ingredients: [
+            { type: 'rum', amount: 30, name: '白蘭姆酒 White Rum' },
+            { type: 'brandy', amount: 30, name: '干邑白蘭地 Cognac' },
+            { type: 'triple_sec', amount: 30, name: '橙皮酒 Triple Sec' },
+            { type: 'lemon_juice', amount: 20, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'boulevardier',
+        name: 'Boulevardier',
+        nameChinese: '花花公子',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'whiskey',
+        difficulty: 1,
+        price: 560,
+        ingredients: [
+            { type: 'whiskey', amount: 45, name: '波本威士忌 Bourbon' },
+            { type: 'campari', amount: 30, name: '金巴利 Campari' },
+            { type: 'vermouth_sweet', amount: 30, name: '甜香艾酒 Sweet Vermouth' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，柳橙皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.ROCKS],
+        garnish: '柳橙皮',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' }
+        ]
+    },
+    {
+        id: 'brandy_crusta',
+        name: 'Brandy Crusta',
+        nameChinese: '白蘭地庫斯塔',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'brandy',
+        difficulty: 3,
+        price: 510,
+        ingredients: [
+            { type: 'brandy', amount: 52.5, name: '白蘭地 Brandy' },
+            { type: 'maraschino', amount: 7.5, name: '瑪拉斯奇諾 Maraschino', tolerance: 1.0 },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' },
+            { type: 'triple_sec', amount: 5, name: '橙皮酒 Curaçao', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'simple_syrup', amount: 5, name: '糖漿 Simple Syrup', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        rim: RimType.SUGAR,
+        method: 'Shake：先將杯緣沾糖並在杯內放一長條檸檬皮，材料加冰搖盪後濾入杯中。',
+        glass: GlassType.WINE,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '糖口、長條檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'casino',
+        name: 'Casino',
+        nameChinese: '賭場',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 460,
+        ingredients: [
+            { type: 'gin', amount: 40, name: '老湯姆琴酒 Old Tom Gin' },
+            { type: 'maraschino', amount: 10, name: '瑪拉斯奇諾 Maraschino' },
+            { type: 'orange_bitters', amount: 10, name: '柳橙苦精 Orange Bitters' },
+            { type: 'lemon_juice', amount: 10, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，檸檬皮與櫻桃裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '檸檬皮、櫻桃',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'clover_club',
+        name: 'Clover Club',
+        nameChinese: '三葉草俱樂部',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 3,
+        price: 280,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'raspberry_syrup', amount: 15, name: '覆盆子糖漿 Raspberry Syrup' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' },
+            { type: 'egg_white', amount: 10, name: '蛋白 Egg White', displayAmount: '幾滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        foam: 15,
+        method: 'Dry Shake：先不加冰乾搖打發蛋白，再加冰搖盪後濾入冰鎮雞尾酒杯，覆盆子裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '新鮮覆盆子'
+    },
+    {
+        id: 'gin_fizz',
+        name: 'Gin Fizz',
+        nameChinese: '琴費士',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 300,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 10, name: '糖漿 Simple Syrup' },
+            { type: 'soda_water', amount: 80, name: '蘇打水 Soda Water', displayAmount: '補滿', tolerance: 0.6 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：琴酒、檸檬汁與糖漿加冰搖盪後濾入裝冰的高球杯，補滿蘇打水，檸檬片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '檸檬片',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'hanky_panky',
+        name: 'Hanky Panky',
+        nameChinese: '調情',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 420,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'vermouth_sweet', amount: 45, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'fernet_branca', amount: 7.5, name: '芙內布蘭卡 Fernet-Branca', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，柳橙皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '柳橙皮',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' }
+        ]
+    },
+    {
+        id: 'john_collins',
+        name: 'John Collins',
+        nameChinese: '約翰可林斯',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 300,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 15, name: '糖漿 Simple Syrup' },
+            { type: 'soda_water', amount: 60, name: '蘇打水 Soda Water', tolerance: 0.6 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['angostura_bitters'],
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：將材料直接倒入裝滿冰塊的柯林斯杯，輕輕攪拌，檸檬片與櫻桃裝飾。',
+        glass: GlassType.COLLINS,
+        acceptedGlasses: [GlassType.HIGHBALL],
+        garnish: '檸檬片、櫻桃',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'last_word',
+        name: 'Last Word',
+        nameChinese: '臨別一語',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 700,
+        ingredients: [
+            { type: 'gin', amount: 22.5, name: '琴酒 Gin' },
+            { type: 'green_chartreuse', amount: 22.5, name: '綠蕁麻酒 Green Chartreuse' },
+            { type: 'maraschino', amount: 22.5, name: '瑪拉斯奇諾 Maraschino' },
+            { type: 'lime_juice', amount: 22.5, name: '萊姆汁 Lime Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：四種材料等量加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'martinez',
+        name: 'Martinez',
+        nameChinese: '馬丁尼茲',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 410,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '老湯姆琴酒 Old Tom Gin' },
+            { type: 'vermouth_sweet', amount: 45, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'maraschino', amount: 5, name: '瑪拉斯奇諾 Maraschino', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'orange_bitters', amount: 2, name: '柳橙苦精 Orange Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，檸檬皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'mary_pickford',
+        name: 'Mary Pickford',
+        nameChinese: '瑪麗畢克馥',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 400,
+        ingredients: [
+            { type: 'rum', amount: 60, name: '白蘭姆酒 White Rum' },
+            { type: 'pineapple_juice', amount: 60, name: '鳳梨汁 Pineapple Juice' },
+            { type: 'maraschino', amount: 10, name: '瑪拉斯奇諾 Maraschino', tolerance: 1.0 },
+            { type: 'grenadine', amount: 5, name: '紅石榴糖漿 Grenadine', displayAmount: '1 吧匙', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'monkey_gland',
+        name: 'Monkey Gland',
+        nameChinese: '猴腺',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 290,
+        ingredients: [
+            { type: 'gin', amount: 50, name: '琴酒 Gin' },
+            { type: 'orange_juice', amount: 30, name: '柳橙汁 Orange Juice' },
+            { type: 'grenadine', amount: 3, name: '紅石榴糖漿 Grenadine', displayAmount: '2滴', tolerance: 1.0 },
+            { type: 'absinthe', amount: 2, name: '苦艾酒 Absinthe', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'old_fashioned',
+        name: 'Old Fashioned',
+        nameChinese: '古典雞尾酒',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 330,
+        ingredients: [
+            { type: 'whiskey', amount: 45, name: '波本威士忌 Bourbon' },
+            { type: 'simple_syrup', amount: 4, name: '糖漿 Simple Syrup', displayAmount: '由方糖壓出', tolerance: 1.0 },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '數滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.MUDDLE,
+        servingTemperature: 8,
+        solids: [
+            { type: 'sugar_cube', count: 1, name: '方糖 Sugar Cube' }
+        ],
+        method: 'Muddle：在古典杯中以苦精浸濕方糖，加幾滴水壓搗至溶解，放入冰塊後倒入威士忌，攪拌均勻。',
+        glass: GlassType.ROCKS,
+        garnish: '柳橙皮、櫻桃',
+        garnishes: [
+            { types: ['orange_peel', 'orange_wheel'], name: '柳橙皮或柳橙片' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'paradise',
+        name: 'Paradise',
+        nameChinese: '天堂',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 300,
+        ingredients: [
+            { type: 'gin', amount: 35, name: '琴酒 Gin' },
+            { type: 'apricot_brandy', amount: 20, name: '杏桃白蘭地 Apricot Brandy' },
+            { type: 'orange_juice', amount: 15, name: '柳橙汁 Orange Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'planters_punch',
+        name: "Planter's Punch",
+        nameChinese: '農夫潘趣',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 230,
+        ingredients: [
+            { type: 'rum', amount: 45, name: '牙買加蘭姆酒 Jamaican Rum' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 30, name: '甘蔗糖漿 Cane Syrup' },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '3滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['soda_water'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：除苦精外的材料加冰搖盪後倒入裝冰的高球杯，最後滴上苦精，柳橙片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS, GlassType.HURRICANE],
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel', 'pineapple_wedge'], name: '柳橙片或鳳梨角' }
+        ]
+    },
+    {
+        id: 'porto_flip',
+        name: 'Porto Flip',
+        nameChinese: '波特翻轉',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'port',
+        difficulty: 2,
+        price: 320,
+        ingredients: [
+            { type: 'port', amount: 45, name: '紅波特酒 Red Port' },
+            { type: 'brandy', amount: 15, name: '白蘭地 Brandy' },
+            { type: 'egg_yolk', amount: 10, name: '蛋黃 Egg Yolk' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰用力搖盪至蛋黃完全乳化，濾入冰鎮雞尾酒杯，撒上肉豆蔻。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.WINE],
+        garnish: '肉豆蔻粉'
+    },
+    {
+        id: 'ramos_fizz',
+        name: 'Ramos Fizz',
+        nameChinese: '拉莫斯費士',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 3,
+        price: 390,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 30, name: '糖漿 Simple Syrup' },
+            { type: 'cream', amount: 60, name: '鮮奶油 Cream' },
+            { type: 'soda_water', amount: 30, name: '蘇打水 Soda Water', displayAmount: '補滿', tolerance: 1.0 },
+            { type: 'egg_white', amount: 30, name: '蛋白 Egg White', displayAmount: '1 顆', optional: true },
+            { type: 'orange_flower_water', amount: 2, name: '橙花水 Orange Flower Water', displayAmount: '3滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        foam: 20,
+        method: 'Dry Shake：除蘇打水外的材料先乾搖兩分鐘，再加冰搖盪後濾入高球杯，補蘇打水讓泡沫升出杯口。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS]
+    },
+    {
+        id: 'rusty_nail',
+        name: 'Rusty Nail',
+        nameChinese: '鏽釘',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'whiskey',
+        difficulty: 1,
+        price: 540,
+        ingredients: [
+            { type: 'whiskey', amount: 45, name: '蘇格蘭威士忌 Scotch Whisky' },
+            { type: 'drambuie', amount: 25, name: '吉寶蜂蜜酒 Drambuie' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝冰的古典杯中倒入材料，輕輕攪拌，檸檬皮裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'sazerac',
+        name: 'Sazerac',
+        nameChinese: '賽澤瑞克',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'brandy',
+        difficulty: 3,
+        price: 380,
+        ingredients: [
+            { type: 'brandy', amount: 50, name: '干邑白蘭地 Cognac' },
+            { type: 'simple_syrup', amount: 5, name: '糖漿 Simple Syrup', displayAmount: '1 顆方糖', tolerance: 1.0 },
+            { type: 'peychauds_bitters', amount: 2, name: "裴喬氏苦精 Peychaud's Bitters", displayAmount: '2滴', optional: true },
+            { type: 'absinthe', amount: 5, name: '苦艾酒 Absinthe', displayAmount: '潤杯', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 8,
+        method: 'Stir：以苦艾酒潤洗冰鎮古典杯；另在調酒杯中將方糖、苦精與干邑加冰攪拌，濾入杯中（不加冰），擠壓檸檬皮油。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'stinger',
+        name: 'Stinger',
+        nameChinese: '毒刺',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'brandy',
+        difficulty: 1,
+        price: 480,
+        ingredients: [
+            { type: 'brandy', amount: 50, name: '干邑白蘭地 Cognac' },
+            { type: 'creme_de_menthe', amount: 20, name: '白薄荷利口酒 White Crème de Menthe' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI, GlassType.ROCKS]
+    },
+    {
+        id: 'tuxedo',
+        name: 'Tuxedo',
+        nameChinese: '燕尾服',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 240,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '老湯姆琴酒 Old Tom Gin' },
+            { type: 'vermouth_dry', amount: 30, name: '不甜香艾酒 Dry Vermouth' },
+            { type: 'maraschino', amount: 2.5, name: '瑪拉斯奇諾 Maraschino', displayAmount: '½ 吧匙', optional: true },
+            { type: 'absinthe', amount: 1, name: '苦艾酒 Absinthe', displayAmount: '¼ 吧匙', optional: true },
+            { type: 'orange_bitters', amount: 2, name: '柳橙苦精 Orange Bitters', displayAmount: '3滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，櫻桃與檸檬皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '櫻桃、檸檬皮',
+        garnishes: [
+            { types: ['cherry'], name: '櫻桃' },
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'vieux_carre',
+        name: 'Vieux Carré',
+        nameChinese: '老廣場',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 570,
+        ingredients: [
+            { type: 'whiskey', amount: 30, name: '裸麥威士忌 Rye Whiskey' },
+            { type: 'brandy', amount: 30, name: '干邑白蘭地 Cognac' },
+            { type: 'vermouth_sweet', amount: 30, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'benedictine', amount: 5, name: '班尼迪克汀 Bénédictine', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'peychauds_bitters', amount: 2, name: "裴喬氏苦精 Peychaud's Bitters", displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['angostura_bitters'],
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 8,
+        method: 'Stir：將材料加冰攪拌後濾入裝冰的古典杯，柳橙皮與櫻桃裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '柳橙皮、櫻桃',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'white_lady',
+        name: 'White Lady',
+        nameChinese: '白色佳人',
+        category: IBACategory.UNFORGETTABLE,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 370,
+        ingredients: [
+            { type: 'gin', amount: 40, name: '琴酒 Gin' },
+            { type: 'triple_sec', amount: 30, name: '橙皮酒 Triple Sec' },
+            { type: 'lemon_juice', amount: 20, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+
+    // === IBA Contemporary Classics 當代經典 ===
+    {
+        id: 'bellini',
+        name: 'Bellini',
+        nameChinese: '貝里尼',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'sparkling_wine',
+        difficulty: 1,
+        price: 400,
+        ingredients: [
+            { type: 'sparkling_wine', amount: 100, name: '普羅賽克 Prosecco' },
+            { type: 'peach_puree', amount: 50, name: '白桃果泥 White Peach Purée' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 6,
+        method: 'Build：先在冰鎮香檳杯中倒入白桃果泥，再緩緩倒入普羅賽克，輕輕攪拌。',
+        glass: GlassType.WINE
+    },
+    {
+        id: 'black_russian',
+        name: 'Black Russian',
+        nameChinese: '黑色俄羅斯',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 330,
+        ingredients: [
+            { type: 'vodka', amount: 50, name: '伏特加 Vodka' },
+            { type: 'coffee_liqueur', amount: 20, name: '咖啡利口酒 Coffee Liqueur' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝冰的古典杯中倒入材料，攪拌均勻。',
+        glass: GlassType.ROCKS
+    },
+    {
+        id: 'champagne_cocktail',
+        name: 'Champagne Cocktail',
+        nameChinese: '香檳雞尾酒',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'sparkling_wine',
+        difficulty: 1,
+        price: 310,
+        ingredients: [
+            { type: 'sparkling_wine', amount: 90, name: '香檳 Champagne' },
+            { type: 'brandy', amount: 10, name: '干邑白蘭地 Cognac' },
+            { type: 'simple_syrup', amount: 4, name: '糖漿 Simple Syrup', displayAmount: '1 顆方糖', tolerance: 1.0 },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 6,
+        method: 'Build：在香檳杯中放入滴上苦精的方糖，加入干邑後緩緩倒滿冰香檳，柳橙皮與櫻桃裝飾。',
+        glass: GlassType.WINE,
+        garnish: '柳橙皮、櫻桃',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'corpse_reviver_2',
+        name: 'Corpse Reviver #2',
+        nameChinese: '亡者復甦二號',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 470,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'triple_sec', amount: 30, name: '君度橙酒 Cointreau' },
+            { type: 'lillet_blanc', amount: 30, name: '白麗葉酒 Lillet Blanc' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' },
+            { type: 'absinthe', amount: 1, name: '苦艾酒 Absinthe', displayAmount: '1滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，柳橙皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '柳橙皮',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' }
+        ]
+    },
+    {
+        id: 'cuba_libre',
+        name: 'Cuba Libre',
+        nameChinese: '自由古巴',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 250,
+        ingredients: [
+            { type: 'rum', amount: 50, name: '白蘭姆酒 White Rum' },
+            { type: 'cola', amount: 120, name: '可樂 Cola' },
+            { type: 'lime_juice', amount: 10, name: '萊姆汁 Lime Juice', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝滿冰塊的高球杯中倒入蘭姆酒與萊姆汁，補滿可樂，萊姆角裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '萊姆角',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'french_75',
+        name: 'French 75',
+        nameChinese: '法式 75',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 330,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 15, name: '糖漿 Simple Syrup' },
+            { type: 'sparkling_wine', amount: 60, name: '香檳 Champagne', tolerance: 0.6 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：琴酒、檸檬汁與糖漿加冰搖盪後濾入香檳杯，補滿香檳，檸檬皮裝飾。',
+        glass: GlassType.WINE,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'french_connection',
+        name: 'French Connection',
+        nameChinese: '法國販毒網',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'brandy',
+        difficulty: 1,
+        price: 460,
+        ingredients: [
+            { type: 'brandy', amount: 35, name: '干邑白蘭地 Cognac' },
+            { type: 'amaretto', amount: 35, name: '杏仁利口酒 Amaretto' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝冰的古典杯中倒入材料，輕輕攪拌。',
+        glass: GlassType.ROCKS
+    },
+    {
+        id: 'golden_dream',
+        name: 'Golden Dream',
+        nameChinese: '金色夢幻',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'galliano',
+        difficulty: 2,
+        price: 280,
+        ingredients: [
+            { type: 'galliano', amount: 20, name: '加利安諾 Galliano' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' },
+            { type: 'orange_juice', amount: 20, name: '柳橙汁 Orange Juice' },
+            { type: 'cream', amount: 10, name: '鮮奶油 Cream' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'grasshopper',
+        name: 'Grasshopper',
+        nameChinese: '綠色蚱蜢',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'creme_de_menthe',
+        difficulty: 2,
+        price: 230,
+        ingredients: [
+            { type: 'creme_de_menthe', amount: 20, name: '綠薄荷利口酒 Green Crème de Menthe' },
+            { type: 'creme_de_cacao', amount: 20, name: '白可可利口酒 White Crème de Cacao' },
+            { type: 'cream', amount: 20, name: '鮮奶油 Cream' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，可放一片薄荷葉裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '薄荷葉'
+    },
+    {
+        id: 'hemingway_special',
+        name: 'Hemingway Special',
+        nameChinese: '海明威特調',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 460,
+        ingredients: [
+            { type: 'rum', amount: 60, name: '白蘭姆酒 White Rum' },
+            { type: 'grapefruit_juice', amount: 40, name: '葡萄柚汁 Grapefruit Juice' },
+            { type: 'maraschino', amount: 15, name: '瑪拉斯奇諾 Maraschino' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'horses_neck',
+        name: "Horse's Neck",
+        nameChinese: '馬頸',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'brandy',
+        difficulty: 1,
+        price: 380,
+        ingredients: [
+            { type: 'brandy', amount: 40, name: '干邑白蘭地 Cognac' },
+            { type: 'ginger_ale', amount: 120, name: '薑汁汽水 Ginger Ale' },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '少許', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：將一整條螺旋檸檬皮掛在高球杯中，加冰倒入干邑，補滿薑汁汽水。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '螺旋檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'irish_coffee',
+        name: 'Irish Coffee',
+        nameChinese: '愛爾蘭咖啡',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'whiskey',
+        difficulty: 3,
+        price: 670,
+        ingredients: [
+            { type: 'whiskey', amount: 50, name: '愛爾蘭威士忌 Irish Whiskey' },
+            { type: 'coffee', amount: 120, name: '熱咖啡 Hot Coffee' },
+            { type: 'cream', amount: 50, name: '鮮奶油 Fresh Cream' },
+            { type: 'simple_syrup', amount: 5, name: '糖漿 Simple Syrup', displayAmount: '1 茶匙紅糖', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 20,
+        layers: 2,
+        method: 'Build：在溫熱的杯中倒入威士忌、糖與熱咖啡攪拌，最後沿吧匙背面倒入微打發的鮮奶油浮在表面。',
+        glass: GlassType.WINE,
+        acceptedGlasses: [GlassType.HIGHBALL]
+    },
+    {
+        id: 'kir',
+        name: 'Kir',
+        nameChinese: '基爾',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'white_wine',
+        difficulty: 1,
+        price: 280,
+        ingredients: [
+            { type: 'white_wine', amount: 90, name: '不甜白葡萄酒 Dry White Wine' },
+            { type: 'creme_de_cassis', amount: 10, name: '黑醋栗利口酒 Crème de Cassis' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：先在葡萄酒杯中倒入黑醋栗利口酒，再倒入冰鎮白酒。',
+        glass: GlassType.WINE
+    },
+    {
+        id: 'mimosa',
+        name: 'Mimosa',
+        nameChinese: '含羞草',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'sparkling_wine',
+        difficulty: 1,
+        price: 270,
+        ingredients: [
+            { type: 'sparkling_wine', amount: 75, name: '香檳 Champagne' },
+            { type: 'orange_juice', amount: 75, name: '柳橙汁 Orange Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 6,
+        method: 'Build：在香檳杯中先倒入柳橙汁，再補滿冰香檳，柳橙片裝飾。',
+        glass: GlassType.WINE,
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel'], name: '柳橙片' }
+        ]
+    },
+    {
+        id: 'mint_julep',
+        name: 'Mint Julep',
+        nameChinese: '薄荷茱莉普',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 500,
+        ingredients: [
+            { type: 'whiskey', amount: 60, name: '波本威士忌 Bourbon' },
+            { type: 'simple_syrup', amount: 8, name: '糖漿 Simple Syrup', displayAmount: '由方糖壓出', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.MUDDLE,
+        servingTemperature: 4,
+        solids: [
+            { type: 'mint', count: 4, name: '薄荷葉 Mint' },
+            { type: 'sugar_cube', count: 2, name: '方糖 Sugar Cube' }
+        ],
+        method: 'Muddle：在杯中輕壓薄荷葉與方糖，加滿碎冰後倒入波本威士忌，攪拌至杯外結霜，薄荷枝裝飾。',
+        glass: GlassType.ROCKS,
+        acceptedGlasses: [GlassType.HIGHBALL],
+        garnish: '薄荷枝',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' }
+        ]
+    },
+    {
+        id: 'moscow_mule',
+        name: 'Moscow Mule',
+        nameChinese: '莫斯科騾子',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 350,
+        ingredients: [
+            { type: 'vodka', amount: 45, name: '伏特加 Vodka' },
+            { type: 'ginger_beer', amount: 120, name: '薑汁啤酒 Ginger Beer' },
+            { type: 'lime_juice', amount: 10, name: '萊姆汁 Lime Juice', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝冰的銅杯（或高球杯）中倒入伏特加與萊姆汁，補滿薑汁啤酒，萊姆片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.ROCKS, GlassType.COLLINS],
+        garnish: '萊姆片',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'rose',
+        name: 'Rose',
+        nameChinese: '玫瑰',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'vermouth_dry',
+        difficulty: 2,
+        price: 310,
+        ingredients: [
+            { type: 'vermouth_dry', amount: 40, name: '不甜香艾酒 Dry Vermouth' },
+            { type: 'kirsch', amount: 20, name: '櫻桃白蘭地 Kirsch' },
+            { type: 'raspberry_syrup', amount: 3, name: '覆盆子糖漿 Raspberry Syrup', displayAmount: '3滴', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，櫻桃裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '櫻桃',
+        garnishes: [
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'sea_breeze',
+        name: 'Sea Breeze',
+        nameChinese: '海風',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 340,
+        ingredients: [
+            { type: 'vodka', amount: 40, name: '伏特加 Vodka' },
+            { type: 'cranberry_juice', amount: 120, name: '蔓越莓汁 Cranberry Juice' },
+            { type: 'grapefruit_juice', amount: 30, name: '葡萄柚汁 Grapefruit Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝滿冰塊的高球杯中倒入材料，攪拌均勻，萊姆片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '萊姆片',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'sex_on_the_beach',
+        name: 'Sex on the Beach',
+        nameChinese: '性感海灘',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 340,
+        ingredients: [
+            { type: 'vodka', amount: 40, name: '伏特加 Vodka' },
+            { type: 'peach_schnapps', amount: 20, name: '水蜜桃酒 Peach Schnapps' },
+            { type: 'orange_juice', amount: 40, name: '柳橙汁 Orange Juice' },
+            { type: 'cranberry_juice', amount: 40, name: '蔓越莓汁 Cranberry Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝滿冰塊的高球杯中倒入材料，攪拌均勻，柳橙片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel'], name: '柳橙片' }
+        ]
+    },
+    {
+        id: 'singapore_sling',
+        name: 'Singapore Sling',
+        nameChinese: '新加坡司令',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'gin',
+        difficulty: 3,
+        price: 530,
+        ingredients: [
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'cherry_liqueur', amount: 15, name: '櫻桃利口酒 Cherry Liqueur' },
+            { type: 'triple_sec', amount: 7.5, name: '君度橙酒 Cointreau', tolerance: 1.0 },
+            { type: 'benedictine', amount: 7.5, name: '班尼迪克汀 Bénédictine', tolerance: 1.0 },
+            { type: 'grenadine', amount: 10, name: '紅石榴糖漿 Grenadine' },
+            { type: 'pineapple_juice', amount: 120, name: '鳳梨汁 Pineapple Juice' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'angostura_bitters', amount: 1, name: '安格仕苦精 Angostura Bitters', displayAmount: '1滴', optional: true }
+        ],
+        tolerance: 0.5,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：加冰搖盪後濾入裝冰的高球杯，鳳梨角與櫻桃裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS, GlassType.HURRICANE],
+        garnish: '鳳梨角、櫻桃',
+        garnishes: [
+            { types: ['pineapple_wedge'], name: '鳳梨角' },
+            { types: ['cherry'], name: '櫻桃' }
+        ]
+    },
+    {
+        id: 'vesper',
+        name: 'Vesper',
+        nameChinese: '薇絲朋',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 330,
+        ingredients: [
+            { type: 'gin', amount: 45, name: '琴酒 Gin' },
+            { type: 'vodka', amount: 15, name: '伏特加 Vodka' },
+            { type: 'lillet_blanc', amount: 7.5, name: '白麗葉酒 Lillet Blanc', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪至非常冰涼後濾入冰鎮馬丁尼杯，長條檸檬皮裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'zombie',
+        name: 'Zombie',
+        nameChinese: '殭屍',
+        category: IBACategory.CONTEMPORARY,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'rum',
+        difficulty: 3,
+        price: 570,
+        ingredients: [
+            { type: 'rum', amount: 105, name: '三種蘭姆酒 Rum Blend', displayAmount: '105ml（深色、金色與高酒精各一）' },
+            { type: 'lime_juice', amount: 20, name: '萊姆汁 Lime Juice' },
+            { type: 'falernum', amount: 15, name: '法勒南 Falernum' },
+            { type: 'grapefruit_juice', amount: 15, name: '葡萄柚汁 Grapefruit Juice' },
+            { type: 'grenadine', amount: 5, name: '紅石榴糖漿 Grenadine', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'angostura_bitters', amount: 1, name: '安格仕苦精 Angostura Bitters', displayAmount: '1滴', optional: true },
+            { type: 'absinthe', amount: 1, name: '苦艾酒 Absinthe', displayAmount: '6滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後倒入裝滿碎冰的提基杯（或颶風杯），薄荷枝裝飾。',
+        glass: GlassType.HURRICANE,
+        acceptedGlasses: [GlassType.COLLINS, GlassType.HIGHBALL],
+        garnish: '薄荷枝',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' }
+        ]
+    },
+
+    // === IBA New Era Drinks 新時代調酒 ===
+    {
+        id: 'barracuda',
+        name: 'Barracuda',
+        nameChinese: '梭子魚',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'rum',
+        difficulty: 2,
+        price: 430,
+        ingredients: [
+            { type: 'rum', amount: 45, name: '金色蘭姆酒 Gold Rum' },
+            { type: 'galliano', amount: 15, name: '加利安諾 Galliano' },
+            { type: 'pineapple_juice', amount: 60, name: '鳳梨汁 Pineapple Juice' },
+            { type: 'sparkling_wine', amount: 30, name: '普羅賽克 Prosecco', displayAmount: '補滿', tolerance: 1.0 },
+            { type: 'lime_juice', amount: 2, name: '萊姆汁 Lime Juice', displayAmount: '1滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：除普羅賽克外的材料加冰搖盪後濾入瑪格麗特杯，補滿普羅賽克。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.WINE]
+    },
+    {
+        id: 'bees_knees',
+        name: "Bee's Knees",
+        nameChinese: '蜜蜂的膝蓋',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 1,
+        price: 330,
+        ingredients: [
+            { type: 'gin', amount: 52.5, name: '琴酒 Gin' },
+            { type: 'lemon_juice', amount: 22.5, name: '檸檬汁 Lemon Juice' },
+            { type: 'honey_syrup', amount: 22.5, name: '蜂蜜糖漿 Honey Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，檸檬皮或柳橙皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '檸檬皮或柳橙皮',
+        garnishes: [
+            { types: ['lemon_peel', 'orange_peel'], name: '檸檬皮或柳橙皮' }
+        ]
+    },
+    {
+        id: 'bramble',
+        name: 'Bramble',
+        nameChinese: '荊棘',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 390,
+        ingredients: [
+            { type: 'gin', amount: 50, name: '琴酒 Gin' },
+            { type: 'lemon_juice', amount: 25, name: '檸檬汁 Lemon Juice' },
+            { type: 'simple_syrup', amount: 12.5, name: '糖漿 Simple Syrup' },
+            { type: 'creme_de_mure', amount: 15, name: '黑莓利口酒 Crème de Mûre' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 4,
+        method: 'Build：在裝滿碎冰的古典杯中倒入琴酒、檸檬汁與糖漿攪拌，最後繞圈淋上黑莓利口酒，檸檬片與黑莓裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬片、黑莓',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'canchanchara',
+        name: 'Canchánchara',
+        nameChinese: '坎查恰拉',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 300,
+        ingredients: [
+            { type: 'rum', amount: 60, name: '古巴甘蔗烈酒 Cuban Aguardiente' },
+            { type: 'honey_syrup', amount: 15, name: '蜂蜜 Raw Honey' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'water', amount: 50, name: '水 Water', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在杯中將蜂蜜、萊姆汁與水攪勻，加冰後倒入蘭姆酒，萊姆角裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '萊姆角',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'dark_n_stormy',
+        name: "Dark 'n' Stormy",
+        nameChinese: '黑色風暴',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 340,
+        ingredients: [
+            { type: 'rum', amount: 60, name: '深色蘭姆酒 Dark Rum' },
+            { type: 'ginger_beer', amount: 100, name: '薑汁啤酒 Ginger Beer' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['lime_juice'],
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        layers: 2,
+        method: 'Build：在裝冰的高球杯中倒入薑汁啤酒，再把深色蘭姆酒慢慢倒在上層，萊姆角裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '萊姆角',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'espresso_martini',
+        name: 'Espresso Martini',
+        nameChinese: '濃縮咖啡馬丁尼',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 340,
+        ingredients: [
+            { type: 'vodka', amount: 50, name: '伏特加 Vodka' },
+            { type: 'coffee_liqueur', amount: 10, name: '咖啡利口酒 Coffee Liqueur' },
+            { type: 'coffee', amount: 30, name: '濃縮咖啡 Espresso' },
+            { type: 'simple_syrup', amount: 5, name: '糖漿 Simple Syrup', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰用力搖盪打出綿密泡沫，濾入冰鎮馬丁尼杯，放三顆咖啡豆裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '咖啡豆'
+    },
+    {
+        id: 'fernandito',
+        name: 'Fernandito',
+        nameChinese: '費南迪托',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'fernet_branca',
+        difficulty: 1,
+        price: 440,
+        ingredients: [
+            { type: 'fernet_branca', amount: 50, name: '芙內布蘭卡 Fernet-Branca' },
+            { type: 'cola', amount: 150, name: '可樂 Cola', displayAmount: '補滿', tolerance: 0.6 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在裝冰的高球杯中倒入芙內布蘭卡，補滿可樂，輕輕攪拌。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS]
+    },
+    {
+        id: 'french_martini',
+        name: 'French Martini',
+        nameChinese: '法式馬丁尼',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 1,
+        price: 330,
+        ingredients: [
+            { type: 'vodka', amount: 45, name: '伏特加 Vodka' },
+            { type: 'raspberry_liqueur', amount: 15, name: '覆盆子利口酒 Raspberry Liqueur' },
+            { type: 'pineapple_juice', amount: 15, name: '鳳梨汁 Pineapple Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯，檸檬皮裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '檸檬皮',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'illegal',
+        name: 'Illegal',
+        nameChinese: '非法',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'mezcal',
+        difficulty: 3,
+        price: 540,
+        ingredients: [
+            { type: 'mezcal', amount: 30, name: '梅茲卡爾 Mezcal' },
+            { type: 'rum', amount: 15, name: '高酒精白蘭姆酒 Overproof White Rum' },
+            { type: 'falernum', amount: 15, name: '法勒南 Falernum' },
+            { type: 'maraschino', amount: 5, name: '瑪拉斯奇諾 Maraschino', displayAmount: '1 吧匙', tolerance: 1.0 },
+            { type: 'lime_juice', amount: 22.5, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 15, name: '糖漿 Simple Syrup' },
+            { type: 'egg_white', amount: 10, name: '蛋白 Egg White', displayAmount: '幾滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯或加冰的古典杯；加蛋白時先乾搖。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.ROCKS]
+    },
+    {
+        id: 'lemon_drop_martini',
+        name: 'Lemon Drop Martini',
+        nameChinese: '檸檬糖馬丁尼',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 230,
+        ingredients: [
+            { type: 'vodka', amount: 25, name: '檸檬伏特加 Citron Vodka' },
+            { type: 'triple_sec', amount: 20, name: '橙皮酒 Triple Sec' },
+            { type: 'lemon_juice', amount: 15, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        rim: RimType.SUGAR,
+        method: 'Shake：加冰搖盪後濾入杯緣沾糖的冰鎮馬丁尼杯，檸檬片裝飾。',
+        glass: GlassType.MARTINI,
+        acceptedGlasses: [GlassType.COUPE],
+        garnish: '糖口、檸檬片',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'naked_and_famous',
+        name: 'Naked and Famous',
+        nameChinese: '赤裸與成名',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'mezcal',
+        difficulty: 2,
+        price: 690,
+        ingredients: [
+            { type: 'mezcal', amount: 22.5, name: '梅茲卡爾 Mezcal' },
+            { type: 'yellow_chartreuse', amount: 22.5, name: '黃蕁麻酒 Yellow Chartreuse' },
+            { type: 'aperol', amount: 22.5, name: '艾普羅 Aperol' },
+            { type: 'lime_juice', amount: 22.5, name: '萊姆汁 Lime Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：四種材料等量加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'new_york_sour',
+        name: 'New York Sour',
+        nameChinese: '紐約酸酒',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 3,
+        price: 560,
+        ingredients: [
+            { type: 'whiskey', amount: 60, name: '裸麥威士忌 Rye Whiskey' },
+            { type: 'simple_syrup', amount: 22.5, name: '糖漿 Simple Syrup' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' },
+            { type: 'red_wine', amount: 30, name: '紅葡萄酒 Red Wine' },
+            { type: 'egg_white', amount: 15, name: '蛋白 Egg White', displayAmount: '幾滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        layers: 2,
+        method: 'Shake：威士忌、檸檬汁與糖漿（與蛋白）加冰搖盪後濾入裝冰的古典杯，最後沿吧匙背面倒入紅酒浮在表面。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬皮或柳橙皮',
+        garnishes: [
+            { types: ['lemon_peel', 'orange_peel'], name: '檸檬皮或柳橙皮' }
+        ]
+    },
+    {
+        id: 'old_cuban',
+        name: 'Old Cuban',
+        nameChinese: '老古巴',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'rum',
+        difficulty: 3,
+        price: 390,
+        ingredients: [
+            { type: 'rum', amount: 45, name: '陳年蘭姆酒 Aged Rum' },
+            { type: 'lime_juice', amount: 22.5, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 30, name: '糖漿 Simple Syrup' },
+            { type: 'sparkling_wine', amount: 60, name: '香檳 Champagne', tolerance: 0.6 },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：蘭姆酒、萊姆汁、糖漿、苦精與 6-8 片薄荷葉加冰搖盪後雙重過濾入冰鎮雞尾酒杯，補滿香檳，薄荷枝裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '薄荷枝',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' }
+        ]
+    },
+    {
+        id: 'paloma',
+        name: 'Paloma',
+        nameChinese: '帕洛瑪',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'tequila',
+        difficulty: 1,
+        price: 370,
+        ingredients: [
+            { type: 'tequila', amount: 50, name: '龍舌蘭 Tequila' },
+            { type: 'grapefruit_soda', amount: 100, name: '粉紅葡萄柚汽水 Pink Grapefruit Soda' },
+            { type: 'lime_juice', amount: 5, name: '萊姆汁 Lime Juice', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 8,
+        method: 'Build：在高球杯中倒入龍舌蘭並擠入萊姆汁，加冰與一撮鹽，補滿葡萄柚汽水，萊姆片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '萊姆片',
+        garnishes: [
+            { types: ['lime_wheel'], name: '萊姆片' }
+        ]
+    },
+    {
+        id: 'paper_plane',
+        name: 'Paper Plane',
+        nameChinese: '紙飛機',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'whiskey',
+        difficulty: 1,
+        price: 590,
+        ingredients: [
+            { type: 'whiskey', amount: 30, name: '波本威士忌 Bourbon' },
+            { type: 'aperol', amount: 30, name: '艾普羅 Aperol' },
+            { type: 'amaro', amount: 30, name: '義式苦酒 Amaro Nonino' },
+            { type: 'lemon_juice', amount: 30, name: '檸檬汁 Lemon Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：四種材料等量加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'penicillin',
+        name: 'Penicillin',
+        nameChinese: '盤尼西林',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 490,
+        ingredients: [
+            { type: 'whiskey', amount: 60, name: '調和蘇格蘭威士忌 Blended Scotch' },
+            { type: 'lemon_juice', amount: 22.5, name: '檸檬汁 Lemon Juice' },
+            { type: 'honey_syrup', amount: 22.5, name: '蜂蜜薑汁糖漿 Honey-Ginger Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：加冰搖盪後濾入裝冰的古典杯，表面淋上 7.5ml 艾雷島泥煤威士忌，糖漬薑片裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '糖漬薑片'
+    },
+    {
+        id: 'russian_spring_punch',
+        name: 'Russian Spring Punch',
+        nameChinese: '俄羅斯春日潘趣',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.DISCO,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 380,
+        ingredients: [
+            { type: 'vodka', amount: 25, name: '伏特加 Vodka' },
+            { type: 'lemon_juice', amount: 25, name: '檸檬汁 Lemon Juice' },
+            { type: 'creme_de_cassis', amount: 15, name: '黑醋栗利口酒 Crème de Cassis' },
+            { type: 'simple_syrup', amount: 10, name: '糖漿 Simple Syrup' },
+            { type: 'sparkling_wine', amount: 60, name: '氣泡酒 Sparkling Wine', displayAmount: '補滿', tolerance: 0.6 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：除氣泡酒外的材料加冰搖盪後倒入裝冰的高球杯，補滿氣泡酒，檸檬片與黑莓裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '檸檬片、黑莓',
+        garnishes: [
+            { types: ['lemon_wheel'], name: '檸檬片' }
+        ]
+    },
+    {
+        id: 'southside',
+        name: 'Southside',
+        nameChinese: '南方',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.PROHIBITION,
+        baseSpirit: 'gin',
+        difficulty: 2,
+        price: 370,
+        ingredients: [
+            { type: 'gin', amount: 60, name: '琴酒 Gin' },
+            { type: 'lime_juice', amount: 30, name: '萊姆汁 Lime Juice' },
+            { type: 'simple_syrup', amount: 15, name: '糖漿 Simple Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：材料與一把薄荷葉加冰搖盪後雙重過濾入冰鎮雞尾酒杯，薄荷枝裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '薄荷枝',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' }
+        ]
+    },
+    {
+        id: 'spicy_fifty',
+        name: 'Spicy Fifty',
+        nameChinese: '辣味五十',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'vodka',
+        difficulty: 2,
+        price: 320,
+        ingredients: [
+            { type: 'vodka', amount: 50, name: '香草伏特加 Vanilla Vodka' },
+            { type: 'elderflower_cordial', amount: 15, name: '接骨木花糖漿 Elderflower Cordial' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'honey_syrup', amount: 10, name: '蜂蜜糖漿 Honey Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：材料與兩片紅辣椒加冰搖盪後雙重過濾入冰鎮雞尾酒杯，紅辣椒裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '紅辣椒'
+    },
+    {
+        id: 'spritz',
+        name: 'Spritz',
+        nameChinese: '艾普羅氣泡酒',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'aperol',
+        difficulty: 1,
+        price: 450,
+        ingredients: [
+            { type: 'sparkling_wine', amount: 90, name: '普羅賽克 Prosecco' },
+            { type: 'aperol', amount: 60, name: '艾普羅 Aperol' },
+            { type: 'soda_water', amount: 30, name: '蘇打水 Soda Water', displayAmount: '少許', tolerance: 1.0 }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.BUILD,
+        servingTemperature: 6,
+        method: 'Build：在裝冰的葡萄酒杯中依序倒入普羅賽克、艾普羅與少許蘇打水，柳橙片裝飾。',
+        glass: GlassType.WINE,
+        garnish: '柳橙片',
+        garnishes: [
+            { types: ['orange_wheel'], name: '柳橙片' }
+        ]
+    },
+    {
+        id: 'suffering_bastard',
+        name: 'Suffering Bastard',
+        nameChinese: '受苦的混蛋',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'brandy',
+        difficulty: 2,
+        price: 510,
+        ingredients: [
+            { type: 'brandy', amount: 30, name: '干邑白蘭地 Cognac' },
+            { type: 'gin', amount: 30, name: '琴酒 Gin' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' },
+            { type: 'ginger_beer', amount: 100, name: '薑汁啤酒 Ginger Beer', displayAmount: '補滿', tolerance: 0.6 },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 8,
+        method: 'Shake：除薑汁啤酒外的材料加冰搖盪後倒入裝冰的高球杯，補滿薑汁啤酒，薄荷枝與柳橙片裝飾。',
+        glass: GlassType.HIGHBALL,
+        acceptedGlasses: [GlassType.COLLINS],
+        garnish: '薄荷枝、柳橙片',
+        garnishes: [
+            { types: ['mint_sprig'], name: '薄荷枝' },
+            { types: ['orange_wheel'], name: '柳橙片' }
+        ]
+    },
+    {
+        id: 'tipperary',
+        name: 'Tipperary',
+        nameChinese: '蒂珀雷里',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.GOLDEN_AGE,
+        baseSpirit: 'whiskey',
+        difficulty: 2,
+        price: 650,
+        ingredients: [
+            { type: 'whiskey', amount: 50, name: '愛爾蘭威士忌 Irish Whiskey' },
+            { type: 'vermouth_sweet', amount: 25, name: '甜香艾酒 Sweet Vermouth' },
+            { type: 'green_chartreuse', amount: 15, name: '綠蕁麻酒 Green Chartreuse' },
+            { type: 'angostura_bitters', amount: 2, name: '安格仕苦精 Angostura Bitters', displayAmount: '2滴', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.STIR,
+        servingTemperature: 6,
+        method: 'Stir：將材料加冰攪拌後濾入冰鎮雞尾酒杯，柳橙皮裝飾。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI],
+        garnish: '柳橙皮',
+        garnishes: [
+            { types: ['orange_peel'], name: '柳橙皮' }
+        ]
+    },
+    {
+        id: 'tommys_margarita',
+        name: "Tommy's Margarita",
+        nameChinese: '湯米瑪格麗特',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'tequila',
+        difficulty: 1,
+        price: 450,
+        ingredients: [
+            { type: 'tequila', amount: 60, name: '龍舌蘭 Tequila' },
+            { type: 'lime_juice', amount: 30, name: '萊姆汁 Lime Juice' },
+            { type: 'agave_syrup', amount: 15, name: '龍舌蘭糖漿 Agave Syrup' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入裝冰的古典杯。',
+        glass: GlassType.ROCKS,
+        acceptedGlasses: [GlassType.COUPE]
+    },
+    {
+        id: 'trinidad_sour',
+        name: 'Trinidad Sour',
+        nameChinese: '千里達酸酒',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'angostura_bitters',
+        difficulty: 2,
+        price: 940,
+        ingredients: [
+            { type: 'angostura_bitters', amount: 45, name: '安格仕苦精 Angostura Bitters' },
+            { type: 'orgeat', amount: 30, name: '杏仁糖漿 Orgeat' },
+            { type: 'lemon_juice', amount: 22.5, name: '檸檬汁 Lemon Juice' },
+            { type: 'whiskey', amount: 15, name: '裸麥威士忌 Rye Whiskey' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：以苦精為基酒，加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    },
+    {
+        id: 'vento',
+        name: 'VE.N.TO',
+        nameChinese: '威尼托',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MODERN,
+        baseSpirit: 'grappa',
+        difficulty: 2,
+        price: 460,
+        ingredients: [
+            { type: 'grappa', amount: 45, name: '渣釀白蘭地 Grappa' },
+            { type: 'lemon_juice', amount: 22.5, name: '檸檬汁 Lemon Juice' },
+            { type: 'honey_syrup', amount: 15, name: '蜂蜜糖漿 Honey Syrup' },
+            { type: 'chamomile_cordial', amount: 15, name: '洋甘菊糖漿 Chamomile Cordial' },
+            { type: 'egg_white', amount: 10, name: '蛋白 Egg White', optional: true }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        allowedExtras: ['aquafaba'],
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入裝冰的古典杯，檸檬皮與白葡萄裝飾。',
+        glass: GlassType.ROCKS,
+        garnish: '檸檬皮、白葡萄',
+        garnishes: [
+            { types: ['lemon_peel'], name: '檸檬皮' }
+        ]
+    },
+    {
+        id: 'yellow_bird',
+        name: 'Yellow Bird',
+        nameChinese: '黃鳥',
+        category: IBACategory.NEW_ERA,
+        era: CocktailEra.MID_CENTURY,
+        baseSpirit: 'rum',
+        difficulty: 1,
+        price: 330,
+        ingredients: [
+            { type: 'rum', amount: 30, name: '白蘭姆酒 White Rum' },
+            { type: 'galliano', amount: 15, name: '加利安諾 Galliano' },
+            { type: 'triple_sec', amount: 15, name: '橙皮酒 Triple Sec' },
+            { type: 'lime_juice', amount: 15, name: '萊姆汁 Lime Juice' }
+        ],
+        tolerance: DEFAULT_RECIPE_TOLERANCE,
+        preparation: PreparationMethod.SHAKE,
+        servingTemperature: 6,
+        method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。',
+        glass: GlassType.COUPE,
+        acceptedGlasses: [GlassType.MARTINI]
+    }
+];
@@ -0,0 +1,9 @@
+/**
+ * NPC 對話樹 - 每位固定 NPC 一份 JSON（位於 dialogues/），
+ * 由 DialogueSystem 檢查格式後依 npc 欄位對應到場景中的角色
+ */
+
+import gustave from './dialogues/gustave.json';
+import seaton from './dialogues/seaton.json';
+
+export const DIALOGUE_DATA: unknown[] = [gustave, seaton];
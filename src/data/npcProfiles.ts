@@ -0,0 +1,31 @@
+/**
+ * NPC 個性資料 - 固定 NPC 的喜好、酒量與平常心情，
+ * 以及吧檯客人隨機個性的材料池
+ */
+
+import type { NPCProfile } from '../types/types';
+
+export const NPC_PROFILES: Record<string, NPCProfile> = {
+    // 分子調酒的愛好者，偏愛琴酒與蛋白泡沫類的 Fizz
+    Gustave: {
+        favoriteRecipes: ['gin_fizz', 'ramos_fizz', 'clover_club', 'aviation'],
+        favoriteIngredients: ['gin', 'egg_white', 'aquafaba'],
+        dislikedIngredients: ['cola', 'baileys'],
+        abvTolerance: 30,
+        baseMood: 0.4
+    },
+    // 威士忌派，最愛 Old Fashioned；不喜歡奶味與色素重的酒
+    Seaton: {
+        favoriteRecipes: ['old_fashioned', 'manhattan', 'sazerac'],
+        favoriteIngredients: ['whiskey', 'angostura_bitters'],
+        dislikedIngredients: ['cream', 'coconut_cream', 'blue_curacao'],
+        abvTolerance: 40,
+        baseMood: 0.1
+    }
+};
+
+// 吧檯客人可能喜歡的材料
+export const CUSTOMER_FAVORITE_POOL = ['gin', 'vodka', 'rum', 'whiskey', 'tequila', 'lime_juice', 'simple_syrup', 'berry_juice'];
+
+// 吧檯客人可能討厭的材料
+export const CUSTOMER_DISLIKE_POOL = ['cola', 'cream', 'coffee', 'campari', 'baileys', 'egg_white', 'tomato_juice', 'blue_curacao'];
@@ -11,6 +11,11 @@ import PlayerController from './modules/PlayerController';
 import LightingSystem from './modules/LightingSystem';
 import BarEnvironment from './modules/BarEnvironment';
 import NPCManager from './modules/NPCManager';
+import ServiceManager from './modules/ServiceManager';
+import BarLedger from './modules/BarLedger';
+import DialogueSystem from './modules/DialogueSystem';
+import { IBACategory, CocktailEra, ItemType, type InteractableObject, type RecipeFilter, type RecipeDifficulty, type ShiftSummary, type LedgerReport } from './types/types';
+import { escapeHtml } from './utils/html';
 import './styles/main.css';
 
 class BarSimulator {
@@ -27,10 +32,15 @@ class BarSimulator {
     private lightingSystem!: LightingSystem;
     private barEnvironment!: BarEnvironment;
     private npcManager!: NPCManager;
+    private serviceManager!: ServiceManager;
+    private ledger!: BarLedger;
+    private dialogueSystem!: DialogueSystem;
 
     // 遊戲狀態
     private isPaused: boolean = false;
     private isRecipeMenuOpen: boolean = false;
+    private isShiftSummaryOpen: boolean = false;
+    private isLedgerOpen: boolean = false;
 
     // 按鍵狀態記錄（防止重複觸發）
     private lastInteraction: boolean = false;
@@ -39,6 +49,16 @@ class BarSimulator {
     private lastReturn: boolean = false;
     private lastRightMouse: boolean = false;
     private lastRecipeToggle: boolean = false;
+    private lastBlenderToggle: boolean = false;
+    private lastBlenderTimer: boolean = false;
+    private lastServe: boolean = false;
+    private lastShiftToggle: boolean = false;
+    private lastLedgerToggle: boolean = false;
+    private lastDiscard: boolean = false;
+
+    // 容器資訊面板更新節流
+    private containerInfoFrameCounter: number = 0;
+    private readonly CONTAINER_INFO_THROTTLE_FRAMES = 10;
 
     constructor() {
         // 獲取 canvas 元素
@@ -161,6 +181,14 @@ class BarSimulator {
             // 7. 初始化 NPC 管理器
             this.updateLoadingProgress(95, '正在初始化 NPC...');
             this.npcManager = new NPCManager(this.scene);
+            this.ledger = new BarLedger(this.cocktailSystem);
+            this.serviceManager = new ServiceManager(
+                this.cocktailSystem,
+                this.npcManager,
+                this.ledger,
+                this.barEnvironment.getStoolPositions()
+            );
+            this.dialogueSystem = new DialogueSystem(this.cocktailSystem, this.npcManager, this.serviceManager);
             this.updateLoadingProgress(97, '✓ NPC 已初始化');
 
             // 8. 設置 UI 控制
@@ -186,9 +214,16 @@ class BarSimulator {
     private update(): void {
         const deltaTime = this.engine.getDeltaTime() / 1000;
 
-        // 如果暫停，只更新 NPC 動畫
-        if (this.isPaused) {
+        // 對話進行中禁止移動，等待玩家選擇
+        const inDialogue = this.dialogueSystem?.isActive() ?? false;
+        this.playerController?.setMovementLocked(inDialogue);
+
+        // 如果暫停或正在對話，只更新 NPC 動畫
+        if (this.isPaused || inDialogue) {
             this.npcManager?.update(deltaTime);
+            if (inDialogue) {
+                this.handleDialogueInput();
+            }
             return;
         }
 
@@ -197,10 +232,20 @@ class BarSimulator {
         this.interactionSystem?.update();
         this.cocktailSystem?.update(deltaTime);
         this.npcManager?.update(deltaTime);
+        this.serviceManager?.update(deltaTime);
+
+        // 打烊時顯示班次總結
+        const shiftSummary = this.serviceManager?.getFinishedShift();
+        if (shiftSummary) {
+            this.showShiftSummary(shiftSummary);
+        }
 
         // 處理輸入
         this.handleInput();
 
+        // 更新容器資訊面板
+        this.updateContainerInfo();
+
         // 更新 FPS 顯示
         this.updateFPS();
     }
@@ -212,12 +257,22 @@ class BarSimulator {
         // E 鍵：拾取物品 / 互動 NPC
         const ePressed = this.playerController.isKeyPressed('KeyE');
         if (ePressed && !this.lastPickup) {
-            // 檢查目標物件類型
+            // 沒有瞄準物品時，檢查附近的 NPC
             const targetedObject = this.interactionSystem.getTargetedObject();
+            const nearbyNPC = targetedObject ? null : this.npcManager.checkInteractions(
+                this.camera.position,
+                this.interactionSystem.getHeldObject()?.userData.type === ItemType.GLASS
+            );
 
-            if (targetedObject && targetedObject.userData.type === 'npc') {
-                // 如果是 NPC，觸發對話互動
-                this.npcManager.interact();
+            if (nearbyNPC) {
+                // 手上有酒時 NPC 會評論風味，否則進入對話樹（沒有對話樹的客人說一句台詞）
+                const heldObject = this.interactionSystem.getHeldObject();
+                const flavor = heldObject ? this.cocktailSystem.getFlavorBalance(heldObject) : null;
+                if (flavor) {
+                    this.npcManager.commentOnFlavor(nearbyNPC, flavor);
+                } else if (!this.dialogueSystem.start(nearbyNPC)) {
+                    this.npcManager.interact(nearbyNPC);
+                }
             } else {
                 // 否則，拾取物品
                 this.interactionSystem.pickupItem();
@@ -243,6 +298,53 @@ class BarSimulator {
         const leftMousePressed = this.scene.pointerX !== 0; // 簡化的檢測
         this.handlePouring(leftMousePressed);
 
+        // B 鍵：啟動/停止瞄準的果汁機；T 鍵：切換攪打時間
+        const bPressed = this.playerController.isKeyPressed('KeyB');
+        const tPressed = this.playerController.isKeyPressed('KeyT');
+        const targetedBlender = this.interactionSystem.getTargetedObject();
+        if (targetedBlender && targetedBlender.userData.type === 'blender' && !this.interactionSystem.getHeldObject()) {
+            if (bPressed && !this.lastBlenderToggle) {
+                this.cocktailSystem.toggleBlender(targetedBlender);
+            }
+            if (tPressed && !this.lastBlenderTimer) {
+                this.cocktailSystem.cycleBlenderDuration(targetedBlender);
+            }
+        }
+        this.lastBlenderToggle = bPressed;
+        this.lastBlenderTimer = tPressed;
+
+        // F 鍵：把手上的酒遞給附近的 NPC
+        const fPressed = this.playerController.isKeyPressed('KeyF');
+        if (fPressed && !this.lastServe) {
+            this.serveHeldDrink();
+        }
+        this.lastServe = fPressed;
+
+        // X 鍵：倒掉手上容器裡的東西（計入耗損）
+        const xPressed = this.playerController.isKeyPressed('KeyX');
+        if (xPressed && !this.lastDiscard) {
+            const heldObject = this.interactionSystem.getHeldObject();
+            if (heldObject && this.cocktailSystem.getContainerInfo(heldObject) && !this.cocktailSystem.isEmpty(heldObject)) {
+                this.cocktailSystem.emptyContainer(heldObject);
+                console.log('✓ 已倒掉容器內容');
+            }
+        }
+        this.lastDiscard = xPressed;
+
+        // O 鍵：開店營業 / 最後點單
+        const oPressed = this.playerController.isKeyPressed('KeyO');
+        if (oPressed && !this.lastShiftToggle) {
+            this.serviceManager.toggleShift();
+        }
+        this.lastShiftToggle = oPressed;
+
+        // L 鍵：開啟帳本
+        const lPressed = this.playerController.isKeyPressed('KeyL');
+        if (lPressed && !this.lastLedgerToggle) {
+            this.toggleLedger();
+        }
+        this.lastLedgerToggle = lPressed;
+
         // M 鍵：開啟/關閉食譜面板
         const mPressed = this.playerController.isKeyPressed('KeyM');
         if (mPressed && !this.lastRecipeToggle) {
@@ -251,6 +353,36 @@ class BarSimulator {
         this.lastRecipeToggle = mPressed;
     }
 
+    /**
+     * 對話中的輸入：E 鍵繼續對話（與拾取共用 lastPickup，結束對話的那一下不會又開啟對話）
+     */
+    private handleDialogueInput(): void {
+        const ePressed = this.playerController.isKeyPressed('KeyE');
+        if (ePressed && !this.lastPickup) {
+            this.dialogueSystem.advance();
+        }
+        this.lastPickup = ePressed;
+    }
+
+    /**
+     * 把手上的杯子端給附近的 NPC，由 NPC 喝掉並給出評分（有點單時依點單評分）
+     */
+    private serveHeldDrink(): void {
+        const heldObject = this.interactionSystem.getHeldObject();
+        if (!heldObject || heldObject.userData.type !== ItemType.GLASS) return;
+
+        const nearbyNPC = this.npcManager.checkInteractions(this.camera.position, true);
+        if (!nearbyNPC) return;
+        if (this.serviceManager.serveCustomer(nearbyNPC, heldObject)) return;
+
+        // NPC 在對話中點過酒時，依點的配方評分
+        const order = this.npcManager.getDialogueContext(nearbyNPC).order;
+        const served = this.cocktailSystem.serveDrink(heldObject, order ?? undefined);
+        if (served) {
+            this.npcManager.serveDrink(nearbyNPC, served);
+        }
+    }
+
     /**
      * 處理倒酒
      */
@@ -259,6 +391,9 @@ class BarSimulator {
 
         if (!heldObject || !isPressed) {
             this.cocktailSystem.stopPouring();
+            if (heldObject && heldObject.userData.type === 'shaker') {
+                this.cocktailSystem.stopShaking(heldObject);
+            }
             return;
         }
 
@@ -272,30 +407,125 @@ class BarSimulator {
             // 倒酒到容器
             const heldObjectType = heldObject.userData.type;
             const liquorType = heldObject.userData.liquorType;
-
-            if (heldObjectType === 'bottle' && liquorType) {
-                // 從酒瓶倒酒
+            const iceType = targetContainer.userData.iceType;
+
+            if (targetContainer.userData.type === 'ice_bin') {
+                // 手持容器從冰桶舀冰
+                if (iceType && (heldObjectType === 'glass' || heldObjectType === 'shaker' ||
+                    heldObjectType === 'mixing_glass' || heldObjectType === 'blender')) {
+                    this.cocktailSystem.scoopIce(heldObject, iceType, deltaTime);
+                }
+            } else if (targetContainer.userData.type === 'solid_ingredient') {
+                // 手持容器從材料碗放入新鮮材料
+                const solidType = targetContainer.userData.solidType;
+                if (solidType && (heldObjectType === 'glass' || heldObjectType === 'shaker' ||
+                    heldObjectType === 'mixing_glass')) {
+                    this.cocktailSystem.addSolid(heldObject, solidType, deltaTime);
+                }
+            } else if (targetContainer.userData.type === 'rim_dish') {
+                // 手持杯子沾鹽/糖口
+                const rimType = targetContainer.userData.rimType;
+                if (rimType && heldObjectType === 'glass') {
+                    this.cocktailSystem.applyRim(heldObject, rimType);
+                }
+            } else if (targetContainer.userData.type === 'stock_crate') {
+                // 手持酒瓶到庫存箱補貨
+                if (heldObjectType === 'bottle') {
+                    this.cocktailSystem.restockBottle(heldObject);
+                }
+            } else if (heldObjectType === 'bottle' && liquorType) {
+                // 從酒瓶倒酒（按住 V 慢倒以保持分層）
                 this.cocktailSystem.pour(
                     heldObject,
                     targetContainer,
                     liquorType,
                     deltaTime,
-                    this.camera
+                    this.camera,
+                    this.playerController.isKeyPressed('KeyV')
                 );
+            } else if (heldObjectType === 'jigger') {
+                // 量酒器整份倒入
+                if (targetContainer.userData.type !== 'jigger') {
+                    this.cocktailSystem.dumpJigger(heldObject, targetContainer);
+                }
+            } else if (heldObjectType === 'garnish' && heldObject.userData.garnishType) {
+                // 把裝飾放到杯上，裝飾盤補上新的一份
+                const garnishType = heldObject.userData.garnishType;
+                if (targetContainer.userData.type === 'glass' &&
+                    this.cocktailSystem.canAddGarnish(targetContainer, garnishType)) {
+                    const garnish = this.interactionSystem.releaseHeldObject();
+                    if (garnish) {
+                        this.interactionSystem.unregisterInteractable(garnish);
+                        this.cocktailSystem.addGarnish(targetContainer, garnish, garnishType);
+                        this.barEnvironment.restockGarnish(garnishType);
+                    }
+                }
+            } else if (heldObjectType === 'muddler') {
+                // 用搗棒壓搗杯中的新鮮材料
+                if (targetContainer.userData.type === 'glass' || targetContainer.userData.type === 'shaker' ||
+                    targetContainer.userData.type === 'mixing_glass') {
+                    this.cocktailSystem.muddle(targetContainer, deltaTime);
+                }
+            } else if (heldObjectType === 'bar_spoon') {
+                // 用吧匙攪拌
+                if (targetContainer.userData.type === 'mixing_glass' || targetContainer.userData.type === 'glass') {
+                    this.cocktailSystem.stirWithSpoon(targetContainer);
+                }
+            } else if (heldObjectType === 'strainer' && heldObject.userData.strainerType) {
+                // 把濾冰器架到調酒杯上
+                if (targetContainer.userData.type === 'mixing_glass' &&
+                    !this.cocktailSystem.hasStrainer(targetContainer)) {
+                    const strainerType = heldObject.userData.strainerType;
+                    const strainer = this.interactionSystem.releaseHeldObject();
+                    if (strainer) {
+                        this.cocktailSystem.attachStrainer(targetContainer, strainer, strainerType);
+                    }
+                }
+            } else if (heldObjectType === 'mixing_glass' || heldObjectType === 'blender') {
+                // 從調酒杯或果汁機杯壺倒出（架上濾冰器時濾掉冰塊）
+                this.cocktailSystem.pourFromMixingGlass(heldObject, targetContainer, deltaTime);
             } else if (heldObjectType === 'shaker') {
                 // 從 Shaker 倒酒
                 this.cocktailSystem.pourFromShaker(heldObject, targetContainer, deltaTime);
             }
         } else if (heldObject.userData.type === 'shaker') {
             // 搖酒
-            this.cocktailSystem.shake(heldObject);
+            this.cocktailSystem.shake(heldObject, deltaTime);
         }
     }
 
     /**
-     * 尋找附近的容器
+     * 更新容器資訊面板（手持或瞄準容器時顯示成分與評分）
      */
-    private findNearbyContainer(): BABYLON.Mesh | null {
+    private updateContainerInfo(): void {
+        this.containerInfoFrameCounter++;
+        if (this.containerInfoFrameCounter < this.CONTAINER_INFO_THROTTLE_FRAMES) {
+            return;
+        }
+        this.containerInfoFrameCounter = 0;
+
+        const isContainer = (mesh: InteractableObject | null): boolean => {
+            const type = mesh?.userData?.type;
+            return type === 'glass' || type === 'shaker' || type === 'mixing_glass' || type === 'jigger' ||
+                type === 'blender';
+        };
+
+        const heldObject = this.interactionSystem.getHeldObject();
+        const targetedObject = this.interactionSystem.getTargetedObject();
+
+        if (isContainer(heldObject)) {
+            this.cocktailSystem.showContainerInfo(heldObject!);
+        } else if (isContainer(targetedObject)) {
+            this.cocktailSystem.showContainerInfo(targetedObject!);
+        } else {
+            this.cocktailSystem.hideContainerInfo();
+        }
+    }
+
+    /**
+     * 尋找附近的容器（含冰桶、庫存箱、材料碗、沾邊碟）
+     */
+    private findNearbyContainer(): InteractableObject | null {
         const heldObject = this.interactionSystem.getHeldObject();
         if (!heldObject) return null;
 
@@ -304,11 +534,13 @@ class BarSimulator {
         const pickInfo = this.scene.pickWithRay(ray!);
 
         if (pickInfo && pickInfo.hit && pickInfo.pickedMesh) {
-            const mesh = pickInfo.pickedMesh as BABYLON.Mesh;
+            const mesh = pickInfo.pickedMesh as InteractableObject;
             const type = mesh.userData?.type;
 
             // 檢查是否為容器
-            if (type === 'glass' || type === 'shaker' || type === 'mixing_glass') {
+            if (type === 'glass' || type === 'shaker' || type === 'mixing_glass' || type === 'jigger' ||
+                type === 'blender' || type === 'ice_bin' || type === 'stock_crate' || type === 'solid_ingredient' ||
+                type === 'rim_dish') {
                 return mesh;
             }
         }
@@ -330,10 +562,126 @@ class BarSimulator {
             });
         }
 
+        // 店家配方：儲存、匯出、匯入與刪除
+        document.getElementById('save-house-recipe')?.addEventListener('click', () => {
+            this.saveHouseRecipe();
+        });
+        document.getElementById('export-house-recipes')?.addEventListener('click', () => {
+            this.exportHouseRecipes();
+        });
+
+        const importInput = document.getElementById('import-house-recipes-file') as HTMLInputElement | null;
+        document.getElementById('import-house-recipes')?.addEventListener('click', () => {
+            importInput?.click();
+        });
+        importInput?.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (file) {
+                this.importHouseRecipes(file);
+            }
+            importInput.value = '';
+        });
+
+        document.getElementById('recipe-list')?.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest<HTMLElement>('[data-remove-recipe]');
+            if (button && button.dataset.removeRecipe) {
+                this.cocktailSystem.removeHouseRecipe(button.dataset.removeRecipe);
+                this.loadRecipes();
+            }
+        });
+
+        this.setupRecipeFilters();
+
+        // 帳本
+        document.getElementById('close-ledger')?.addEventListener('click', () => {
+            this.toggleLedger();
+        });
+
+        // 班次總結
+        document.getElementById('close-shift-summary')?.addEventListener('click', () => {
+            this.toggleShiftSummary(false);
+        });
+
         // 載入食譜內容
         this.loadRecipes();
     }
 
+    /**
+     * 建立食譜篩選選項（IBA 分類、年代、難度），任一條件變動即重新列出
+     */
+    private setupRecipeFilters(): void {
+        const fillOptions = (id: string, options: Array<[string, string]>): void => {
+            const select = document.getElementById(id);
+            if (select) {
+                select.innerHTML = options.map(([value, label]) => `<option value="${value}">${label}</option>`).join('');
+            }
+        };
+
+        fillOptions('recipe-filter-category', [
+            ['', '全部分類'],
+            ...Object.values(IBACategory).map((category): [string, string] => [
+                category,
+                `IBA ${this.cocktailSystem.getCategoryLabel(category)}`
+            ]),
+            ['none', '非 IBA／店家配方']
+        ]);
+        fillOptions('recipe-filter-era', [
+            ['', '全部年代'],
+            ...Object.values(CocktailEra).map((era): [string, string] => [era, this.cocktailSystem.getEraLabel(era)])
+        ]);
+        fillOptions('recipe-filter-difficulty', [
+            ['', '全部難度'],
+            ['1', '★ 入門'],
+            ['2', '★★ 進階'],
+            ['3', '★★★ 專業']
+        ]);
+
+        const search = document.getElementById('recipe-search');
+        search?.addEventListener('input', () => this.loadRecipes());
+        // 輸入文字時不觸發移動與快捷鍵
+        search?.addEventListener('keydown', event => event.stopPropagation());
+        search?.addEventListener('keyup', event => event.stopPropagation());
+
+        ['recipe-filter-category', 'recipe-filter-era', 'recipe-filter-base', 'recipe-filter-difficulty', 'recipe-filter-stocked']
+            .forEach(id => document.getElementById(id)?.addEventListener('change', () => this.loadRecipes()));
+    }
+
+    /**
+     * 讀取食譜面板目前的篩選條件
+     */
+    private getRecipeFilter(): RecipeFilter {
+        const value = (id: string): string => (document.getElementById(id) as HTMLInputElement | null)?.value ?? '';
+        const category = value('recipe-filter-category');
+        const difficulty = Number(value('recipe-filter-difficulty'));
+
+        return {
+            query: value('recipe-search'),
+            category: category === 'none' ? null : (category as IBACategory) || undefined,
+            era: (value('recipe-filter-era') as CocktailEra) || undefined,
+            baseSpirit: value('recipe-filter-base') || undefined,
+            difficulty: difficulty ? (difficulty as RecipeDifficulty) : undefined,
+            stockedOnly: (document.getElementById('recipe-filter-stocked') as HTMLInputElement | null)?.checked
+        };
+    }
+
+    /**
+     * 依目前所有配方更新基酒選項（店家配方可能帶來新的基酒），保留原本的選擇
+     */
+    private updateBaseSpiritFilter(): void {
+        const select = document.getElementById('recipe-filter-base') as HTMLSelectElement | null;
+        if (!select) return;
+
+        const selected = select.value;
+        const baseSpirits = Array.from(new Set(this.cocktailSystem.getCocktailRecipes().map(recipe => recipe.baseSpirit)));
+        select.innerHTML = ['<option value="">全部基酒</option>']
+            .concat(baseSpirits.map(type => {
+                const liquor = this.cocktailSystem.getLiquorData(type);
+                return `<option value="${escapeHtml(type)}">${escapeHtml(liquor ? `${liquor.name} ${liquor.displayName}` : type)}</option>`;
+            }))
+            .join('');
+        select.value = baseSpirits.includes(selected) ? selected : '';
+    }
+
     /**
      * 載入食譜
      */
@@ -341,31 +689,104 @@ class BarSimulator {
         const recipeList = document.getElementById('recipe-list');
         if (!recipeList) return;
 
-        const recipes = this.cocktailSystem.getCocktailRecipes();
+        this.updateBaseSpiritFilter();
+        const recipes = this.cocktailSystem.filterRecipes(this.getRecipeFilter());
+
+        const recipeCount = document.getElementById('recipe-count');
+        if (recipeCount) {
+            recipeCount.textContent = `${recipes.length} / ${this.cocktailSystem.getCocktailRecipes().length} 款`;
+        }
 
         recipeList.innerHTML = recipes
             .map(
                 recipe => `
-            <div class="recipe-item">
-                <h3>${recipe.name} <span class="recipe-name-cn">${recipe.nameChinese}</span></h3>
+            <div class="recipe-item${recipe.house ? ' house-recipe' : ''}">
+                <h3>${escapeHtml(recipe.name)} <span class="recipe-name-cn">${escapeHtml(recipe.nameChinese)}</span></h3>
+                ${recipe.house ? `<button class="recipe-remove-btn" data-remove-recipe="${escapeHtml(recipe.id)}">刪除</button>` : ''}
+                <div class="recipe-facets">
+                    ${recipe.category ? `<span class="recipe-tag">IBA ${this.cocktailSystem.getCategoryLabel(recipe.category)}</span>` : ''}
+                    <span class="recipe-tag">${this.cocktailSystem.getEraLabel(recipe.era)}</span>
+                    <span class="recipe-tag">基酒：${escapeHtml(this.cocktailSystem.getLiquorData(recipe.baseSpirit)?.name ?? recipe.baseSpirit)}</span>
+                    <span class="recipe-tag">${'★'.repeat(recipe.difficulty)}${'☆'.repeat(3 - recipe.difficulty)}</span>
+                </div>
                 <div class="recipe-ingredients">
                     ${recipe.ingredients
-                        .map(ing => `<div>• ${ing.amount}ml ${ing.name}</div>`)
+                        .map(ing => `<div>• ${escapeHtml(ing.displayAmount ?? `${ing.amount}ml`)} ${escapeHtml(ing.name)}</div>`)
+                        .join('')}
+                    ${(recipe.solids || [])
+                        .map(solid => `<div>• ${solid.count} 份 ${escapeHtml(solid.name)}</div>`)
                         .join('')}
                 </div>
                 <div class="recipe-method">
-                    <strong>作法：</strong>${recipe.method}
+                    <strong>作法：</strong>${escapeHtml(recipe.method)}
                 </div>
                 <div class="recipe-glass">
-                    <strong>杯具：</strong>${recipe.glass}
+                    <strong>杯具：</strong>${this.cocktailSystem.getGlassLabel(recipe.glass)}
                 </div>
-                ${recipe.garnish ? `<div class="recipe-garnish"><strong>裝飾：</strong>${recipe.garnish}</div>` : ''}
+                <div class="recipe-price">
+                    <strong>售價：</strong>NT$ ${recipe.price}（標準成本 NT$ ${this.cocktailSystem.getRecipeCost(recipe).toFixed(0)}）
+                </div>
+                ${recipe.garnish ? `<div class="recipe-garnish"><strong>裝飾：</strong>${escapeHtml(recipe.garnish)}</div>` : ''}
             </div>
         `
             )
             .join('');
     }
 
+    /**
+     * 將手上杯子裡的酒命名並存為店家配方
+     */
+    private saveHouseRecipe(): void {
+        const heldObject = this.interactionSystem.getHeldObject();
+        const contents = heldObject ? this.cocktailSystem.getContainerInfo(heldObject) : null;
+        if (!heldObject || !contents || contents.volume <= 0 || !contents.glassType) {
+            alert('請先手持一杯裝有酒的杯子');
+            return;
+        }
+
+        const name = prompt('為這杯酒命名：', this.cocktailSystem.identifyCocktail(contents));
+        if (!name) return;
+
+        const recipe = this.cocktailSystem.createHouseRecipe(heldObject, name);
+        if (recipe) {
+            this.loadRecipes();
+        } else {
+            alert('無法儲存：杯中沒有可記錄的材料');
+        }
+    }
+
+    /**
+     * 下載店家配方 JSON 檔
+     */
+    private exportHouseRecipes(): void {
+        if (this.cocktailSystem.getHouseRecipes().length === 0) {
+            alert('目前沒有店家配方可以匯出');
+            return;
+        }
+
+        const blob = new Blob([this.cocktailSystem.exportHouseRecipes()], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'house-recipes.json';
+        link.click();
+        // 等瀏覽器處理完點擊再釋放，太早釋放有些瀏覽器會取消下載
+        setTimeout(() => URL.revokeObjectURL(link.href), 0);
+    }
+
+    /**
+     * 匯入其他社員分享的店家配方 JSON 檔
+     */
+    private async importHouseRecipes(file: File): Promise<void> {
+        try {
+            const imported = this.cocktailSystem.importHouseRecipes(await file.text());
+            this.loadRecipes();
+            alert(`已匯入 ${imported} 個店家配方`);
+        } catch (error) {
+            console.error('❌ 匯入店家配方失敗:', error);
+            alert('匯入失敗：不是有效的配方檔案');
+        }
+    }
+
     /**
      * 切換食譜選單
      */
@@ -374,9 +795,140 @@ class BarSimulator {
         if (!recipeMenu) return;
 
         this.isRecipeMenuOpen = !this.isRecipeMenuOpen;
-        this.isPaused = this.isRecipeMenuOpen;
+        this.isPaused = this.isRecipeMenuOpen || this.isShiftSummaryOpen || this.isLedgerOpen;
 
         recipeMenu.style.display = this.isRecipeMenuOpen ? 'block' : 'none';
+
+        // 開啟時重新列出，讓「現有材料」篩選反映最新庫存
+        if (this.isRecipeMenuOpen) {
+            this.loadRecipes();
+        }
+    }
+
+    /**
+     * 顯示班次總結（上酒數、平均準確度、走人數與各筆點單）
+     */
+    private showShiftSummary(summary: ShiftSummary): void {
+        const body = document.getElementById('shift-summary-body');
+        if (!body) return;
+
+        const minutes = Math.floor(summary.duration / 60);
+        const seconds = Math.floor(summary.duration % 60).toString().padStart(2, '0');
+        const rows = summary.records.map(record => `
+            <tr class="${record.walkedOut ? 'walkout' : ''}">
+                <td>${escapeHtml(record.customerName)}</td>
+                <td>${escapeHtml(record.recipeName)}</td>
+                <td>${record.walkedOut ? '走人' : escapeHtml(record.servedName ?? '')}</td>
+                <td>${record.walkedOut ? '-' : record.accuracy.toFixed(0)}</td>
+                <td>${record.walkedOut ? '-' : '★'.repeat(record.rating)}</td>
+                <td>${record.waitTime.toFixed(0)}s</td>
+                <td>${record.walkedOut ? '-' : `NT$ ${record.price + record.tip}`}</td>
+            </tr>
+        `).join('');
+
+        body.innerHTML = `
+            <div class="shift-stats">
+                <div class="shift-stat"><span>${summary.served}</span>上酒杯數</div>
+                <div class="shift-stat"><span>${summary.averageAccuracy.toFixed(0)}</span>平均準確度</div>
+                <div class="shift-stat"><span>${summary.averageRating.toFixed(1)}</span>平均星數</div>
+                <div class="shift-stat"><span>${summary.walkouts}</span>走人</div>
+            </div>
+            <div class="shift-stats">
+                <div class="shift-stat"><span>NT$ ${summary.revenue}</span>營收</div>
+                <div class="shift-stat"><span>NT$ ${summary.tips}</span>小費</div>
+            </div>
+            <div class="shift-duration">營業時間 ${minutes}:${seconds}</div>
+            ${rows ? `
+                <table class="shift-records">
+                    <tr><th>客人</th><th>點單</th><th>端上</th><th>準確度</th><th>評分</th><th>等待</th><th>收入</th></tr>
+                    ${rows}
+                </table>
+            ` : '<div class="service-empty">這班沒有客人上門</div>'}
+        `;
+
+        this.toggleShiftSummary(true);
+    }
+
+    /**
+     * 開啟/關閉班次總結（開啟時暫停遊戲）
+     */
+    private toggleShiftSummary(open: boolean): void {
+        const panel = document.getElementById('shift-summary');
+        if (!panel) return;
+
+        this.isShiftSummaryOpen = open;
+        this.isPaused = this.isRecipeMenuOpen || this.isShiftSummaryOpen || this.isLedgerOpen;
+        panel.style.display = open ? 'flex' : 'none';
+    }
+
+    /**
+     * 開啟/關閉帳本（開啟時暫停遊戲並重新計算報表）
+     */
+    private toggleLedger(): void {
+        const panel = document.getElementById('ledger-panel');
+        if (!panel) return;
+
+        this.isLedgerOpen = !this.isLedgerOpen;
+        this.isPaused = this.isRecipeMenuOpen || this.isShiftSummaryOpen || this.isLedgerOpen;
+        panel.style.display = this.isLedgerOpen ? 'flex' : 'none';
+
+        if (this.isLedgerOpen) {
+            this.renderLedger(this.ledger.getReport());
+        }
+    }
+
+    /**
+     * 顯示帳本報表（營收、酒水成本率、耗損與銷售明細）
+     */
+    private renderLedger(report: LedgerReport): void {
+        const body = document.getElementById('ledger-body');
+        if (!body) return;
+
+        const salesRows = report.sales.map(sale => `
+            <tr class="${sale.refused ? 'walkout' : ''}">
+                <td>${escapeHtml(sale.recipeName)}</td>
+                <td>${sale.accuracy.toFixed(0)}</td>
+                <td>${sale.refused ? '拒付' : `NT$ ${sale.price}`}</td>
+                <td>NT$ ${sale.tip}</td>
+                <td>NT$ ${sale.cost.toFixed(0)}</td>
+            </tr>
+        `).join('');
+        const wasteRows = report.waste.map(item => `
+            <tr>
+                <td>${escapeHtml(item.name)}</td>
+                <td>${item.volume.toFixed(0)}ml</td>
+                <td>NT$ ${item.cost.toFixed(0)}</td>
+            </tr>
+        `).join('');
+
+        body.innerHTML = `
+            <div class="shift-stats">
+                <div class="shift-stat"><span>NT$ ${report.revenue}</span>營收</div>
+                <div class="shift-stat"><span>NT$ ${report.tips}</span>小費</div>
+                <div class="shift-stat"><span>${report.drinksSold}</span>售出杯數</div>
+                <div class="shift-stat"><span>${report.refused}</span>拒付</div>
+            </div>
+            <div class="shift-stats">
+                <div class="shift-stat"><span>NT$ ${report.usageCost.toFixed(0)}</span>材料成本</div>
+                <div class="shift-stat"><span>${report.pourCostPercent === null ? '-' : `${report.pourCostPercent.toFixed(1)}%`}</span>酒水成本率</div>
+                <div class="shift-stat"><span>${report.wasteVolume.toFixed(0)}ml</span>耗損量</div>
+                <div class="shift-stat"><span>NT$ ${report.wasteCost.toFixed(0)}</span>耗損成本</div>
+            </div>
+            <h3>銷售明細</h3>
+            ${salesRows ? `
+                <table class="shift-records">
+                    <tr><th>調酒</th><th>準確度</th><th>售價</th><th>小費</th><th>用料成本</th></tr>
+                    ${salesRows}
+                </table>
+            ` : '<div class="service-empty">尚未售出任何調酒，按 O 開店營業</div>'}
+            <h3>耗損明細（灑出與倒掉）</h3>
+            ${wasteRows ? `
+                <table class="shift-records">
+                    <tr><th>材料</th><th>量</th><th>成本</th></tr>
+                    ${wasteRows}
+                </table>
+            ` : '<div class="service-empty">目前沒有耗損</div>'}
+        `;
     }
 
     /**
@@ -7,7 +7,7 @@ import * as BABYLON from '@babylonjs/core';
 import type PhysicsSystem from './PhysicsSystem';
 import type InteractionSystem from './InteractionSystem';
 import type CocktailSystem from './CocktailSystem';
-import { ItemType } from '../types/types';
+import { ItemType, IceType, StrainerType, RimType, GlassType, type InteractableObject, type ProfilePoint } from '../types/types';
 
 export default class BarEnvironment {
     private scene: BABYLON.Scene;
@@ -18,7 +18,27 @@ export default class BarEnvironment {
     // 場景物件
     private bottles: BABYLON.Mesh[] = [];
     private glasses: BABYLON.Mesh[] = [];
-    private barTools: { shaker?: BABYLON.Mesh; jigger?: BABYLON.Mesh } = {};
+    private barTools: {
+        shaker?: BABYLON.Mesh;
+        jigger?: BABYLON.Mesh;
+        mixingGlass?: BABYLON.Mesh;
+        barSpoon?: BABYLON.Mesh;
+        strainers?: BABYLON.Mesh[];
+        muddler?: BABYLON.Mesh;
+    } = {};
+    private iceBins: BABYLON.Mesh[] = [];
+    private solidBowls: BABYLON.Mesh[] = [];
+    private blender: BABYLON.Mesh | null = null;
+    private garnishSlots: Map<string, BABYLON.Vector3> = new Map();
+    private garnishMaterials: Map<string, BABYLON.PBRMaterial> = new Map();
+    private garnishCount = 0;
+    private rimDishes: BABYLON.Mesh[] = [];
+    private stockCrate: BABYLON.Mesh | null = null;
+    private stoolPositions: BABYLON.Vector3[] = [];
+
+    // 酒瓶容量（ml）
+    private readonly BOTTLE_CAPACITY = 700;
+    private readonly TEST_BOTTLE_CAPACITY = 200;
 
     constructor(
         scene: BABYLON.Scene,
@@ -42,6 +62,11 @@ export default class BarEnvironment {
         this.createBarBottles(); // 程序化幾何體
         this.createGlasses();
         await this.createBarTools(); // 仍需async以保持兼容性
+        this.createIceStation();
+        this.createFreshIngredientStation();
+        this.createBlender();
+        this.createGarnishTray();
+        this.createStockCrate();
         this.createFurniture();
     }
 
@@ -310,9 +335,14 @@ export default class BarEnvironment {
             this.interaction.registerInteractable(
                 bottle,
                 ItemType.BOTTLE,
-                config.liquorType
+                config.liquorType,
+                this.BOTTLE_CAPACITY
             );
 
+            // 登記酒瓶庫存（液體子網格顯示剩餘量）
+            const liquid = bottle.getChildMeshes(true).find(mesh => mesh.name === `${config.name}_liquid`);
+            this.cocktail.registerBottle(bottle, this.BOTTLE_CAPACITY, liquid as BABYLON.Mesh | undefined);
+
             // 添加物理
             this.physics.addCylinderBody(bottle, {
                 mass: 0.5,
@@ -396,9 +426,9 @@ export default class BarEnvironment {
         cap.material = capMaterial;
         liquid.material = liquidMaterial;
 
-        // 合併為一個網格
+        // 合併瓶身為一個網格
         const bottle = BABYLON.Mesh.MergeMeshes(
-            [body, neck, cap, liquid],
+            [body, neck, cap],
             true,
             true,
             undefined,
@@ -410,6 +440,10 @@ export default class BarEnvironment {
         bottle.position = position;
         bottle.castShadow = true;
 
+        // 液體獨立為子網格，液面隨庫存量下降
+        liquid.parent = bottle;
+        liquid.isPickable = false;
+
         return bottle;
     }
 
@@ -489,7 +523,7 @@ export default class BarEnvironment {
         liquid.material = liquidMaterial;
 
         const bottle = BABYLON.Mesh.MergeMeshes(
-            [body, neck, cap, liquid],
+            [body, neck, cap],
             true,
             true,
             undefined,
@@ -501,6 +535,10 @@ export default class BarEnvironment {
         bottle.position = position;
         bottle.castShadow = true;
 
+        // 液體獨立為子網格，液面隨庫存量下降
+        liquid.parent = bottle;
+        liquid.isPickable = false;
+
         return bottle;
     }
 
@@ -590,7 +628,7 @@ export default class BarEnvironment {
         liquid.material = liquidMaterial;
 
         const bottle = BABYLON.Mesh.MergeMeshes(
-            [body, shoulder, neck, cap, liquid],
+            [body, shoulder, neck, cap],
             true,
             true,
             undefined,
@@ -602,6 +640,10 @@ export default class BarEnvironment {
         bottle.position = position;
         bottle.castShadow = true;
 
+        // 液體獨立為子網格，液面隨庫存量下降
+        liquid.parent = bottle;
+        liquid.isPickable = false;
+
         return bottle;
     }
 
@@ -691,7 +733,7 @@ export default class BarEnvironment {
         liquid.material = liquidMaterial;
 
         const bottle = BABYLON.Mesh.MergeMeshes(
-            [body, shoulder, neck, cap, liquid],
+            [body, shoulder, neck, cap],
             true,
             true,
             undefined,
@@ -703,6 +745,10 @@ export default class BarEnvironment {
         bottle.position = position;
         bottle.castShadow = true;
 
+        // 液體獨立為子網格，液面隨庫存量下降
+        liquid.parent = bottle;
+        liquid.isPickable = false;
+
         return bottle;
     }
 
@@ -710,27 +756,112 @@ export default class BarEnvironment {
      * 創建杯子（高品質玻璃材質與液體）
      */
     private createGlasses(): void {
-        // 在吧檯上創建3個杯子
+        // 在吧檯上創建各式杯子（後排三個經典杯型，前排其餘杯型）
         const glassConfigs = [
-            { position: new BABYLON.Vector3(-3, 1.2, -3), style: 'highball' },
-            { position: new BABYLON.Vector3(0, 1.2, -3), style: 'rocks' },
-            { position: new BABYLON.Vector3(3, 1.2, -3), style: 'coupe' }
+            { position: new BABYLON.Vector3(-3, 1.2, -3), style: GlassType.HIGHBALL },
+            { position: new BABYLON.Vector3(0, 1.2, -3), style: GlassType.ROCKS },
+            { position: new BABYLON.Vector3(3, 1.2, -3), style: GlassType.COUPE },
+            { position: new BABYLON.Vector3(-2.2, 1.3, -2.5), style: GlassType.MARTINI },
+            { position: new BABYLON.Vector3(-1.2, 1.3, -2.5), style: GlassType.HURRICANE },
+            { position: new BABYLON.Vector3(0.8, 1.3, -2.5), style: GlassType.COLLINS },
+            { position: new BABYLON.Vector3(2.2, 1.2, -2.5), style: GlassType.SHOT },
+            { position: new BABYLON.Vector3(3.6, 1.3, -2.5), style: GlassType.WINE }
         ];
 
+        // 各杯型容量（ml）
+        const capacities: Record<GlassType, number> = {
+            [GlassType.HIGHBALL]: 300,
+            [GlassType.ROCKS]: 300,
+            [GlassType.COUPE]: 300,
+            [GlassType.MARTINI]: 200,
+            [GlassType.HURRICANE]: 450,
+            [GlassType.COLLINS]: 350,
+            [GlassType.SHOT]: 60,
+            [GlassType.WINE]: 300
+        };
+
+        // 各杯型杯身外殼尺寸（用於結霜層）
+        const frostShapes: Record<GlassType, { height: number; diameterTop: number; diameterBottom: number; y: number }> = {
+            [GlassType.HIGHBALL]: { height: 0.55, diameterTop: 0.28, diameterBottom: 0.27, y: 0 },
+            [GlassType.ROCKS]: { height: 0.4, diameterTop: 0.32, diameterBottom: 0.28, y: 0 },
+            [GlassType.COUPE]: { height: 0.45, diameterTop: 0.28, diameterBottom: 0.27, y: 0.15 },
+            [GlassType.MARTINI]: { height: 0.22, diameterTop: 0.36, diameterBottom: 0.02, y: 0.14 },
+            [GlassType.HURRICANE]: { height: 0.52, diameterTop: 0.28, diameterBottom: 0.2, y: 0.16 },
+            [GlassType.COLLINS]: { height: 0.65, diameterTop: 0.22, diameterBottom: 0.21, y: 0 },
+            [GlassType.SHOT]: { height: 0.18, diameterTop: 0.14, diameterBottom: 0.11, y: 0 },
+            [GlassType.WINE]: { height: 0.3, diameterTop: 0.22, diameterBottom: 0.06, y: 0.15 }
+        };
+
+        // 各杯型內壁輪廓（扣除杯壁與杯底厚度，決定液面高度）
+        const innerProfiles: Record<GlassType, ProfilePoint[]> = {
+            [GlassType.HIGHBALL]: [
+                { y: -0.27, radius: 0.127 },
+                { y: 0.27, radius: 0.132 }
+            ],
+            [GlassType.ROCKS]: [
+                { y: -0.19, radius: 0.132 },
+                { y: 0.19, radius: 0.152 }
+            ],
+            [GlassType.COUPE]: [
+                { y: -0.06, radius: 0.127 },
+                { y: 0.37, radius: 0.132 }
+            ],
+            [GlassType.MARTINI]: [
+                { y: 0.035, radius: 0.008 },
+                { y: 0.245, radius: 0.172 }
+            ],
+            [GlassType.HURRICANE]: [
+                { y: -0.095, radius: 0.06 },
+                { y: 0.0, radius: 0.11 },
+                { y: 0.08, radius: 0.12 },
+                { y: 0.2, radius: 0.08 },
+                { y: 0.3, radius: 0.09 },
+                { y: 0.41, radius: 0.13 }
+            ],
+            [GlassType.COLLINS]: [
+                { y: -0.32, radius: 0.1 },
+                { y: 0.32, radius: 0.105 }
+            ],
+            [GlassType.SHOT]: [
+                { y: -0.06, radius: 0.05 },
+                { y: 0.085, radius: 0.065 }
+            ],
+            [GlassType.WINE]: [
+                { y: 0.01, radius: 0.02 },
+                { y: 0.06, radius: 0.075 },
+                { y: 0.29, radius: 0.105 }
+            ]
+        };
+
         glassConfigs.forEach((config, index) => {
             let glass: BABYLON.Mesh;
 
             // 根據樣式創建不同的杯子
             switch (config.style) {
-                case 'highball':
+                case GlassType.HIGHBALL:
                     glass = this.createHighballGlass(`glass_${index}`, config.position);
                     break;
-                case 'rocks':
+                case GlassType.ROCKS:
                     glass = this.createRocksGlass(`glass_${index}`, config.position);
                     break;
-                case 'coupe':
+                case GlassType.COUPE:
                     glass = this.createCoupeGlass(`glass_${index}`, config.position);
                     break;
+                case GlassType.MARTINI:
+                    glass = this.createMartiniGlass(`glass_${index}`, config.position);
+                    break;
+                case GlassType.HURRICANE:
+                    glass = this.createHurricaneGlass(`glass_${index}`, config.position);
+                    break;
+                case GlassType.COLLINS:
+                    glass = this.createCollinsGlass(`glass_${index}`, config.position);
+                    break;
+                case GlassType.SHOT:
+                    glass = this.createShotGlass(`glass_${index}`, config.position);
+                    break;
+                case GlassType.WINE:
+                    glass = this.createWineGlass(`glass_${index}`, config.position);
+                    break;
                 default:
                     glass = this.createHighballGlass(`glass_${index}`, config.position);
             }
@@ -748,10 +879,51 @@ export default class BarEnvironment {
             });
 
             // 初始化杯子容器
-            this.cocktail.initContainer(glass, 300);
+            this.cocktail.initContainer(glass, capacities[config.style], innerProfiles[config.style]);
+            this.cocktail.setGlassType(glass, config.style);
+
+            // 冰鎮時的結霜/水珠層
+            const frostShape = frostShapes[config.style];
+            const frost = this.createFrostLayer(`glass_${index}`, frostShape);
+            frost.parent = glass;
+            this.cocktail.registerFrostLayer(glass, frost);
         });
     }
 
+    /**
+     * 創建杯身結霜層（略大於杯身的外殼，透明度由調酒系統依杯溫控制）
+     */
+    private createFrostLayer(
+        name: string,
+        shape: { height: number; diameterTop: number; diameterBottom: number; y: number }
+    ): BABYLON.Mesh {
+        const frost = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_frost`,
+            {
+                height: shape.height * 0.9,
+                diameterTop: shape.diameterTop + 0.006,
+                diameterBottom: shape.diameterBottom + 0.006,
+                tessellation: 16,
+                cap: BABYLON.Mesh.NO_CAP
+            },
+            this.scene
+        );
+        frost.position.y = shape.y - shape.height * 0.05;
+        frost.isPickable = false;
+
+        const frostMaterial = new BABYLON.PBRMaterial(`${name}_frostMat`, this.scene);
+        frostMaterial.albedoColor = new BABYLON.Color3(0.95, 0.97, 1.0);
+        frostMaterial.metallic = 0.0;
+        frostMaterial.roughness = 0.9;
+        frostMaterial.alpha = 0;
+        frostMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        frostMaterial.backFaceCulling = false;
+        frost.material = frostMaterial;
+        frost.isVisible = false;
+
+        return frost;
+    }
+
     /**
      * 創建高球杯（Highball Glass）- 簡化為空心圓柱
      */
@@ -919,6 +1091,186 @@ export default class BarEnvironment {
         return glass;
     }
 
+    /**
+     * 創建杯子共用的高透明玻璃材質
+     */
+    private createGlassMaterial(name: string): BABYLON.PBRMaterial {
+        const glassMaterial = new BABYLON.PBRMaterial(`${name}_glass`, this.scene);
+        glassMaterial.albedoColor = new BABYLON.Color3(1, 1, 1);
+        glassMaterial.metallic = 0.0;
+        glassMaterial.roughness = 0.015;
+        glassMaterial.alpha = 0.09;
+        glassMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        glassMaterial.indexOfRefraction = 1.52;
+        glassMaterial.reflectivityColor = new BABYLON.Color3(1, 1, 1);
+        glassMaterial.microSurface = 0.99;
+        return glassMaterial;
+    }
+
+    /**
+     * 合併杯子各部件並套用玻璃材質
+     */
+    private mergeGlassParts(name: string, parts: BABYLON.Mesh[], position: BABYLON.Vector3): BABYLON.Mesh {
+        const glassMaterial = this.createGlassMaterial(name);
+        parts.forEach(part => {
+            part.material = glassMaterial;
+        });
+
+        const glass = BABYLON.Mesh.MergeMeshes(
+            parts,
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        glass.name = name;
+        glass.position = position;
+
+        return glass;
+    }
+
+    /**
+     * 創建馬丁尼杯（Martini Glass）- 倒錐形杯身 + 細長杯腳
+     */
+    private createMartiniGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        const bowl = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bowl`,
+            { height: 0.22, diameterTop: 0.36, diameterBottom: 0.02, tessellation: 12 },
+            this.scene
+        );
+        bowl.position.y = 0.14;
+
+        const stem = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_stem`,
+            { height: 0.25, diameter: 0.025, tessellation: 8 },
+            this.scene
+        );
+        stem.position.y = -0.1;
+
+        const base = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_base`,
+            { height: 0.03, diameterTop: 0.08, diameterBottom: 0.16, tessellation: 12 },
+            this.scene
+        );
+        base.position.y = -0.235;
+
+        return this.mergeGlassParts(name, [bowl, stem, base], position);
+    }
+
+    /**
+     * 創建颶風杯（Hurricane Glass）- 以旋轉曲線做出上下兩段弧形杯身
+     */
+    private createHurricaneGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        const outline = [
+            new BABYLON.Vector3(0, -0.1, 0),
+            new BABYLON.Vector3(0.07, -0.1, 0),
+            new BABYLON.Vector3(0.12, 0.0, 0),
+            new BABYLON.Vector3(0.13, 0.08, 0),
+            new BABYLON.Vector3(0.09, 0.2, 0),
+            new BABYLON.Vector3(0.1, 0.3, 0),
+            new BABYLON.Vector3(0.14, 0.42, 0)
+        ];
+        const body = BABYLON.MeshBuilder.CreateLathe(
+            `${name}_body`,
+            { shape: outline, tessellation: 16 },
+            this.scene
+        );
+
+        const stem = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_stem`,
+            { height: 0.08, diameter: 0.05, tessellation: 8 },
+            this.scene
+        );
+        stem.position.y = -0.14;
+
+        const base = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_base`,
+            { height: 0.03, diameter: 0.18, tessellation: 12 },
+            this.scene
+        );
+        base.position.y = -0.185;
+
+        return this.mergeGlassParts(name, [body, stem, base], position);
+    }
+
+    /**
+     * 創建柯林斯杯（Collins Glass）- 比高球杯更高更窄的直筒
+     */
+    private createCollinsGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        const body = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_body`,
+            { height: 0.65, diameterTop: 0.22, diameterBottom: 0.21, tessellation: 10 },
+            this.scene
+        );
+
+        const bottom = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bottom`,
+            { height: 0.05, diameter: 0.21, tessellation: 10 },
+            this.scene
+        );
+        bottom.position.y = -0.35;
+
+        return this.mergeGlassParts(name, [body, bottom], position);
+    }
+
+    /**
+     * 創建子彈杯（Shot Glass）- 厚底小杯
+     */
+    private createShotGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        const body = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_body`,
+            { height: 0.18, diameterTop: 0.14, diameterBottom: 0.11, tessellation: 10 },
+            this.scene
+        );
+
+        const bottom = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bottom`,
+            { height: 0.05, diameter: 0.11, tessellation: 10 },
+            this.scene
+        );
+        bottom.position.y = -0.085;
+
+        return this.mergeGlassParts(name, [body, bottom], position);
+    }
+
+    /**
+     * 創建葡萄酒杯（Wine Glass）- 圓肚杯身 + 杯腳
+     */
+    private createWineGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        const bowl = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bowl`,
+            { height: 0.24, diameterTop: 0.22, diameterBottom: 0.16, tessellation: 12 },
+            this.scene
+        );
+        bowl.position.y = 0.18;
+
+        // 杯肚底部收窄接到杯腳
+        const bowlBottom = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bowlBottom`,
+            { height: 0.06, diameterTop: 0.16, diameterBottom: 0.04, tessellation: 12 },
+            this.scene
+        );
+        bowlBottom.position.y = 0.03;
+
+        const stem = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_stem`,
+            { height: 0.22, diameter: 0.025, tessellation: 8 },
+            this.scene
+        );
+        stem.position.y = -0.11;
+
+        const base = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_base`,
+            { height: 0.03, diameterTop: 0.07, diameterBottom: 0.15, tessellation: 12 },
+            this.scene
+        );
+        base.position.y = -0.235;
+
+        return this.mergeGlassParts(name, [bowl, bowlBottom, stem, base], position);
+    }
+
     /**
      * 創建調酒工具（程序化幾何體 + 高品質金屬材質）
      */
@@ -932,7 +1284,11 @@ export default class BarEnvironment {
             restitution: 0.4,
             friction: 0.5
         });
-        this.cocktail.initContainer(shaker, 500);
+        this.cocktail.initContainer(shaker, 500, [
+            { y: -0.28, radius: 0.19 },
+            { y: 0.29, radius: 0.182 }
+        ]);
+        this.cocktail.setContainerSealed(shaker, true);
         console.log('✓ Created procedural Cobbler shaker');
 
         // Jigger（雙端量酒器）
@@ -944,7 +1300,68 @@ export default class BarEnvironment {
             restitution: 0.3,
             friction: 0.5
         });
+
+        // 大端作為量杯，內有 30ml / 45ml 兩道刻度線
+        this.cocktail.initContainer(jigger, 50, [
+            { y: 0.004, radius: 0.037 },
+            { y: 0.118, radius: 0.097 }
+        ]);
+        this.cocktail.setMeasureLines(jigger, [30, 45]);
         console.log('✓ Created procedural jigger');
+
+        // Mixing Glass（攪拌用調酒杯）
+        const mixingGlass = this.createMixingGlass('mixingGlass', new BABYLON.Vector3(-4, 1.2, -3));
+        this.barTools.mixingGlass = mixingGlass;
+        this.interaction.registerInteractable(mixingGlass, ItemType.MIXING_GLASS);
+        this.physics.addCylinderBody(mixingGlass, {
+            mass: 0.5,
+            restitution: 0.2,
+            friction: 0.5
+        });
+        this.cocktail.initContainer(mixingGlass, 500, [
+            { y: -0.17, radius: 0.142 },
+            { y: 0.2, radius: 0.142 }
+        ]);
+        const mixingGlassFrost = this.createFrostLayer('mixingGlass', {
+            height: 0.4, diameterTop: 0.3, diameterBottom: 0.3, y: 0
+        });
+        mixingGlassFrost.parent = mixingGlass;
+        this.cocktail.registerFrostLayer(mixingGlass, mixingGlassFrost);
+        console.log('✓ Created procedural mixing glass');
+
+        // Bar Spoon（吧匙）
+        const barSpoon = this.createBarSpoon('barSpoon', new BABYLON.Vector3(1.6, 1.17, -3.2));
+        this.barTools.barSpoon = barSpoon;
+        this.interaction.registerInteractable(barSpoon, ItemType.BAR_SPOON);
+        this.physics.addBoxBody(barSpoon, {
+            mass: 0.05,
+            restitution: 0.2,
+            friction: 0.6
+        });
+        console.log('✓ Created procedural bar spoon');
+
+        // 濾冰器（架在調酒杯上使用，不加物理以便固定在杯口）
+        this.barTools.strainers = [
+            { type: StrainerType.HAWTHORNE, position: new BABYLON.Vector3(2.1, 1.16, -3.35) },
+            { type: StrainerType.JULEP, position: new BABYLON.Vector3(2.1, 1.16, -2.85) }
+        ].map(config => {
+            const strainer = this.createStrainer(`strainer_${config.type}`, config.position, config.type);
+            this.interaction.registerInteractable(strainer, ItemType.STRAINER);
+            (strainer as InteractableObject).userData.strainerType = config.type;
+            return strainer;
+        });
+        console.log('✓ Created procedural strainers');
+
+        // Muddler（搗棒）
+        const muddler = this.createMuddler('muddler', new BABYLON.Vector3(2.6, 1.18, -3.1));
+        this.barTools.muddler = muddler;
+        this.interaction.registerInteractable(muddler, ItemType.MUDDLER);
+        this.physics.addBoxBody(muddler, {
+            mass: 0.2,
+            restitution: 0.2,
+            friction: 0.6
+        });
+        console.log('✓ Created procedural muddler');
     }
 
     /**
@@ -1037,7 +1454,7 @@ export default class BarEnvironment {
      * 創建雙端量酒器（Jigger）- 改進的雙錐形設計
      */
     private createJigger(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
-        // 大端（50ml）- 使用錐形（簡化：降低tessellation到8）
+        // 大端（50ml，刻度線由調酒系統繪製）- 使用錐形（簡化：降低tessellation到8）
         const largeCup = BABYLON.MeshBuilder.CreateCylinder(
             `${name}_large`,
             {
@@ -1104,6 +1521,769 @@ export default class BarEnvironment {
         return jigger;
     }
 
+    /**
+     * 創建調酒杯（Mixing Glass）- 厚底寬口直筒
+     */
+    private createMixingGlass(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        // 杯身
+        const body = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_body`,
+            { height: 0.4, diameter: 0.3, tessellation: 12 },
+            this.scene
+        );
+
+        // 厚底
+        const bottom = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_bottom`,
+            { height: 0.04, diameter: 0.3, tessellation: 12 },
+            this.scene
+        );
+        bottom.position.y = -0.19;
+
+        // 杯口倒嘴
+        const spout = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_spout`,
+            { height: 0.03, diameterTop: 0.02, diameterBottom: 0.06, tessellation: 6 },
+            this.scene
+        );
+        spout.rotation.z = -Math.PI / 2;
+        spout.position.set(0.16, 0.19, 0);
+
+        const glassMaterial = new BABYLON.PBRMaterial(`${name}_glass`, this.scene);
+        glassMaterial.albedoColor = new BABYLON.Color3(1, 1, 1);
+        glassMaterial.metallic = 0.0;
+        glassMaterial.roughness = 0.02;
+        glassMaterial.alpha = 0.12;
+        glassMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        glassMaterial.indexOfRefraction = 1.52;
+        glassMaterial.reflectivityColor = new BABYLON.Color3(1, 1, 1);
+        glassMaterial.microSurface = 0.99;
+
+        body.material = glassMaterial;
+        bottom.material = glassMaterial;
+        spout.material = glassMaterial;
+
+        const mixingGlass = BABYLON.Mesh.MergeMeshes(
+            [body, bottom, spout],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        mixingGlass.name = name;
+        mixingGlass.position = position;
+
+        return mixingGlass;
+    }
+
+    /**
+     * 創建吧匙（細長螺旋柄 + 小匙頭，平放在吧檯上）
+     */
+    private createBarSpoon(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        // 螺旋柄（以細圓柱表現）
+        const handle = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_handle`,
+            { height: 0.5, diameter: 0.012, tessellation: 6 },
+            this.scene
+        );
+
+        // 匙頭
+        const bowl = BABYLON.MeshBuilder.CreateSphere(
+            `${name}_bowl`,
+            { diameterX: 0.04, diameterY: 0.012, diameterZ: 0.06, segments: 6 },
+            this.scene
+        );
+        bowl.position.y = -0.27;
+        bowl.rotation.x = Math.PI / 2;
+
+        // 末端配重
+        const end = BABYLON.MeshBuilder.CreateSphere(
+            `${name}_end`,
+            { diameter: 0.025, segments: 6 },
+            this.scene
+        );
+        end.position.y = 0.26;
+
+        const metalMaterial = new BABYLON.PBRMaterial(`${name}_metal`, this.scene);
+        metalMaterial.albedoColor = new BABYLON.Color3(0.9, 0.9, 0.92);
+        metalMaterial.metallic = 1.0;
+        metalMaterial.roughness = 0.2;
+
+        handle.material = metalMaterial;
+        bowl.material = metalMaterial;
+        end.material = metalMaterial;
+
+        const spoon = BABYLON.Mesh.MergeMeshes(
+            [handle, bowl, end],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        spoon.name = name;
+        spoon.position = position;
+        spoon.rotation.z = Math.PI / 2; // 平放
+
+        return spoon;
+    }
+
+    /**
+     * 創建搗棒（木柄 + 齒狀搗頭，平放在吧檯上）
+     */
+    private createMuddler(name: string, position: BABYLON.Vector3): BABYLON.Mesh {
+        // 握柄
+        const handle = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_handle`,
+            { height: 0.22, diameterTop: 0.035, diameterBottom: 0.045, tessellation: 8 },
+            this.scene
+        );
+        handle.position.y = 0.04;
+
+        // 搗頭
+        const head = BABYLON.MeshBuilder.CreateCylinder(
+            `${name}_head`,
+            { height: 0.06, diameter: 0.05, tessellation: 8 },
+            this.scene
+        );
+        head.position.y = -0.1;
+
+        const woodMaterial = new BABYLON.PBRMaterial(`${name}_wood`, this.scene);
+        woodMaterial.albedoColor = new BABYLON.Color3(0.55, 0.38, 0.22);
+        woodMaterial.metallic = 0.0;
+        woodMaterial.roughness = 0.7;
+
+        const rubberMaterial = new BABYLON.PBRMaterial(`${name}_rubber`, this.scene);
+        rubberMaterial.albedoColor = new BABYLON.Color3(0.12, 0.12, 0.12);
+        rubberMaterial.metallic = 0.0;
+        rubberMaterial.roughness = 0.9;
+
+        handle.material = woodMaterial;
+        head.material = rubberMaterial;
+
+        const muddler = BABYLON.Mesh.MergeMeshes(
+            [handle, head],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        muddler.name = name;
+        muddler.position = position;
+        muddler.rotation.z = Math.PI / 2; // 平放
+
+        return muddler;
+    }
+
+    /**
+     * 創建濾冰器（霍桑：圓盤 + 彈簧圈；茱莉普：帶孔淺碗）
+     */
+    private createStrainer(name: string, position: BABYLON.Vector3, type: StrainerType): BABYLON.Mesh {
+        const parts: BABYLON.Mesh[] = [];
+
+        if (type === StrainerType.HAWTHORNE) {
+            // 圓盤
+            const disc = BABYLON.MeshBuilder.CreateCylinder(
+                `${name}_disc`,
+                { height: 0.008, diameter: 0.26, tessellation: 16 },
+                this.scene
+            );
+            parts.push(disc);
+
+            // 彈簧圈
+            const spring = BABYLON.MeshBuilder.CreateTorus(
+                `${name}_spring`,
+                { diameter: 0.22, thickness: 0.015, tessellation: 16 },
+                this.scene
+            );
+            spring.position.y = -0.01;
+            parts.push(spring);
+        } else {
+            // 帶孔淺碗
+            const bowl = BABYLON.MeshBuilder.CreateSphere(
+                `${name}_bowl`,
+                { diameterX: 0.25, diameterY: 0.05, diameterZ: 0.25, segments: 8, slice: 0.5 },
+                this.scene
+            );
+            bowl.rotation.x = Math.PI;
+            parts.push(bowl);
+        }
+
+        // 握柄
+        const handle = BABYLON.MeshBuilder.CreateBox(
+            `${name}_handle`,
+            { width: 0.18, height: 0.008, depth: 0.03 },
+            this.scene
+        );
+        handle.position.x = 0.2;
+        parts.push(handle);
+
+        const metalMaterial = new BABYLON.PBRMaterial(`${name}_metal`, this.scene);
+        metalMaterial.albedoColor = new BABYLON.Color3(0.88, 0.88, 0.9);
+        metalMaterial.metallic = 1.0;
+        metalMaterial.roughness = 0.25;
+        parts.forEach(part => part.material = metalMaterial);
+
+        const strainer = BABYLON.Mesh.MergeMeshes(
+            parts,
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        strainer.name = name;
+        strainer.position = position;
+
+        return strainer;
+    }
+
+    /**
+     * 創建冰塊站（方冰、碎冰、大冰塊三個冰桶）
+     */
+    private createIceStation(): void {
+        const binConfigs = [
+            { name: 'iceBin_cubes', iceType: IceType.CUBES, x: -1.6, iceSize: 0.07 },
+            { name: 'iceBin_crushed', iceType: IceType.CRUSHED, x: -1.1, iceSize: 0.035 },
+            { name: 'iceBin_rock', iceType: IceType.ROCK, x: -0.6, iceSize: 0.14 }
+        ];
+
+        // 不鏽鋼冰桶材質
+        const binMaterial = new BABYLON.PBRMaterial('iceBinMat', this.scene);
+        binMaterial.albedoColor = new BABYLON.Color3(0.85, 0.85, 0.88);
+        binMaterial.metallic = 1.0;
+        binMaterial.roughness = 0.3;
+
+        // 冰面材質
+        const iceMaterial = new BABYLON.PBRMaterial('iceBinIceMat', this.scene);
+        iceMaterial.albedoColor = new BABYLON.Color3(0.88, 0.94, 1.0);
+        iceMaterial.metallic = 0.0;
+        iceMaterial.roughness = 0.15;
+        iceMaterial.alpha = 0.8;
+        iceMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+
+        binConfigs.forEach(config => {
+            // 桶身
+            const bin = BABYLON.MeshBuilder.CreateBox(
+                `${config.name}_body`,
+                { width: 0.4, height: 0.22, depth: 0.35 },
+                this.scene
+            );
+            bin.material = binMaterial;
+
+            // 冰面 - 以數個方塊表現冰塊大小
+            const iceParts: BABYLON.Mesh[] = [];
+            const perRow = Math.max(1, Math.floor(0.34 / (config.iceSize * 1.2)));
+            for (let i = 0; i < perRow; i++) {
+                for (let j = 0; j < Math.max(1, perRow - 1); j++) {
+                    const piece = BABYLON.MeshBuilder.CreateBox(
+                        `${config.name}_ice_${i}_${j}`,
+                        { size: config.iceSize },
+                        this.scene
+                    );
+                    piece.position.set(
+                        -0.17 + (i + 0.5) * (0.34 / perRow),
+                        0.11,
+                        -0.14 + (j + 0.5) * (0.28 / Math.max(1, perRow - 1))
+                    );
+                    piece.rotation.y = (i + j) * 0.4;
+                    piece.material = iceMaterial;
+                    iceParts.push(piece);
+                }
+            }
+
+            const iceBin = BABYLON.Mesh.MergeMeshes(
+                [bin, ...iceParts],
+                true,
+                true,
+                undefined,
+                false,
+                true
+            ) as BABYLON.Mesh;
+
+            iceBin.name = config.name;
+            iceBin.position = new BABYLON.Vector3(config.x, 1.26, -3.7);
+            iceBin.receiveShadows = true;
+
+            // 註冊為可互動物品（固定在吧檯上，手持容器對準後舀冰）
+            this.interaction.registerInteractable(iceBin, ItemType.ICE_BIN);
+            (iceBin as InteractableObject).userData.iceType = config.iceType;
+
+            this.iceBins.push(iceBin);
+        });
+
+        console.log('✓ Created ice station');
+    }
+
+    /**
+     * 創建新鮮材料站（薄荷葉、萊姆角、方糖、莓果四個材料碗）
+     */
+    private createFreshIngredientStation(): void {
+        const bowlConfigs = [
+            { solidType: 'mint', x: 0.0, color: new BABYLON.Color3(0.24, 0.69, 0.26) },
+            { solidType: 'lime_wedge', x: 0.4, color: new BABYLON.Color3(0.6, 0.8, 0.2) },
+            { solidType: 'sugar_cube', x: 0.8, color: new BABYLON.Color3(0.98, 0.98, 0.98) },
+            { solidType: 'berries', x: 1.2, color: new BABYLON.Color3(0.69, 0.13, 0.29) }
+        ];
+
+        // 陶瓷碗材質
+        const bowlMaterial = new BABYLON.PBRMaterial('solidBowlMat', this.scene);
+        bowlMaterial.albedoColor = new BABYLON.Color3(0.92, 0.9, 0.86);
+        bowlMaterial.metallic = 0.0;
+        bowlMaterial.roughness = 0.4;
+
+        bowlConfigs.forEach(config => {
+            const name = `solidBowl_${config.solidType}`;
+
+            // 碗身
+            const bowl = BABYLON.MeshBuilder.CreateCylinder(
+                `${name}_body`,
+                { height: 0.08, diameterTop: 0.28, diameterBottom: 0.16, tessellation: 12 },
+                this.scene
+            );
+            bowl.material = bowlMaterial;
+
+            // 碗中材料（以小球堆表現）
+            const contentMaterial = new BABYLON.PBRMaterial(`${name}_contentMat`, this.scene);
+            contentMaterial.albedoColor = config.color;
+            contentMaterial.metallic = 0.0;
+            contentMaterial.roughness = 0.6;
+
+            const pieces: BABYLON.Mesh[] = [];
+            for (let i = 0; i < 6; i++) {
+                const piece = BABYLON.MeshBuilder.CreateSphere(
+                    `${name}_piece_${i}`,
+                    { diameter: 0.06, segments: 4 },
+                    this.scene
+                );
+                const angle = i * (Math.PI * 2 / 6);
+                piece.position.set(Math.cos(angle) * 0.06, 0.04, Math.sin(angle) * 0.06);
+                piece.material = contentMaterial;
+                pieces.push(piece);
+            }
+
+            const solidBowl = BABYLON.Mesh.MergeMeshes(
+                [bowl, ...pieces],
+                true,
+                true,
+                undefined,
+                false,
+                true
+            ) as BABYLON.Mesh;
+
+            solidBowl.name = name;
+            solidBowl.position = new BABYLON.Vector3(config.x, 1.19, -3.75);
+            solidBowl.receiveShadows = true;
+
+            // 註冊為可互動物品（固定在吧檯上，手持杯子對準後放入）
+            this.interaction.registerInteractable(solidBowl, ItemType.SOLID_INGREDIENT);
+            (solidBowl as InteractableObject).userData.solidType = config.solidType;
+
+            this.solidBowls.push(solidBowl);
+        });
+
+        console.log('✓ Created fresh ingredient station');
+    }
+
+    /**
+     * 創建果汁機（後吧檯酒架底層：固定底座 + 可拿起的杯壺）
+     */
+    private createBlender(): void {
+        const basePosition = new BABYLON.Vector3(3, 1.65, -8);
+
+        // 底座（馬達外殼 + 控制面板）
+        const housing = BABYLON.MeshBuilder.CreateBox(
+            'blenderBase_housing',
+            { width: 0.3, height: 0.2, depth: 0.3 },
+            this.scene
+        );
+        const panel = BABYLON.MeshBuilder.CreateBox(
+            'blenderBase_panel',
+            { width: 0.2, height: 0.08, depth: 0.02 },
+            this.scene
+        );
+        panel.position.set(0, -0.02, 0.155);
+
+        const housingMaterial = new BABYLON.PBRMaterial('blenderBaseMat', this.scene);
+        housingMaterial.albedoColor = new BABYLON.Color3(0.15, 0.15, 0.17);
+        housingMaterial.metallic = 0.6;
+        housingMaterial.roughness = 0.35;
+
+        const panelMaterial = new BABYLON.PBRMaterial('blenderPanelMat', this.scene);
+        panelMaterial.albedoColor = new BABYLON.Color3(0.6, 0.6, 0.62);
+        panelMaterial.metallic = 1.0;
+        panelMaterial.roughness = 0.25;
+
+        housing.material = housingMaterial;
+        panel.material = panelMaterial;
+
+        const base = BABYLON.Mesh.MergeMeshes(
+            [housing, panel],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+        base.name = 'blenderBase';
+        base.position = basePosition;
+        base.receiveShadows = true;
+
+        // 杯壺（上寬下窄 + 黑色上蓋 + 握把）
+        const jarBody = BABYLON.MeshBuilder.CreateCylinder(
+            'blender_body',
+            { height: 0.4, diameterTop: 0.3, diameterBottom: 0.2, tessellation: 12 },
+            this.scene
+        );
+        const lid = BABYLON.MeshBuilder.CreateCylinder(
+            'blender_lid',
+            { height: 0.03, diameter: 0.31, tessellation: 12 },
+            this.scene
+        );
+        lid.position.y = 0.215;
+        const handle = BABYLON.MeshBuilder.CreateBox(
+            'blender_handle',
+            { width: 0.03, height: 0.28, depth: 0.04 },
+            this.scene
+        );
+        handle.position.set(0.17, 0.02, 0);
+
+        const glassMaterial = new BABYLON.PBRMaterial('blender_glass', this.scene);
+        glassMaterial.albedoColor = new BABYLON.Color3(1, 1, 1);
+        glassMaterial.metallic = 0.0;
+        glassMaterial.roughness = 0.05;
+        glassMaterial.alpha = 0.15;
+        glassMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        glassMaterial.indexOfRefraction = 1.5;
+
+        jarBody.material = glassMaterial;
+        lid.material = housingMaterial;
+        handle.material = housingMaterial;
+
+        const jar = BABYLON.Mesh.MergeMeshes(
+            [jarBody, lid, handle],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+        jar.name = 'blender';
+        jar.position = basePosition.add(new BABYLON.Vector3(0, 0.3, 0));
+
+        // 杯壺不加物理，放下時回到底座上
+        this.interaction.registerInteractable(jar, ItemType.BLENDER);
+        this.cocktail.initContainer(jar, 800, [
+            { y: -0.18, radius: 0.095 },
+            { y: 0.19, radius: 0.142 }
+        ]);
+        this.cocktail.registerBlender(jar, base);
+        this.blender = jar;
+
+        console.log('✓ Created blender');
+    }
+
+    /**
+     * 創建裝飾盤（吧檯上的分格盤 + 鹽、糖沾邊碟）
+     */
+    private createGarnishTray(): void {
+        const garnishTypes = [
+            'lemon_peel', 'orange_peel', 'lime_peel', 'lemon_wheel', 'orange_wheel', 'lime_wheel',
+            'pineapple_wedge', 'cherry', 'olive', 'cocktail_onion', 'mint_sprig', 'celery'
+        ];
+        const trayCenter = new BABYLON.Vector3(3.7, 1.165, -3.7);
+
+        // 分格盤
+        const trayMaterial = new BABYLON.PBRMaterial('garnishTrayMat', this.scene);
+        trayMaterial.albedoColor = new BABYLON.Color3(0.2, 0.2, 0.22);
+        trayMaterial.metallic = 0.8;
+        trayMaterial.roughness = 0.3;
+
+        const tray = BABYLON.MeshBuilder.CreateBox(
+            'garnishTray',
+            { width: 1.15, height: 0.03, depth: 0.42 },
+            this.scene
+        );
+        tray.position = trayCenter;
+        tray.material = trayMaterial;
+        tray.receiveShadows = true;
+
+        // 每格放一份可拾取的裝飾，放到杯上後補上新的一份
+        garnishTypes.forEach((garnishType, index) => {
+            const column = index % 6;
+            const row = Math.floor(index / 6);
+            this.garnishSlots.set(garnishType, new BABYLON.Vector3(
+                trayCenter.x - 0.475 + column * 0.19,
+                trayCenter.y + 0.04,
+                trayCenter.z - 0.1 + row * 0.2
+            ));
+            this.restockGarnish(garnishType);
+        });
+
+        // 沾邊碟（固定在吧檯上，手持杯子對準後沾上）
+        const rimConfigs = [
+            { rimType: RimType.SALT, x: 4.5, color: new BABYLON.Color3(0.95, 0.95, 0.95) },
+            { rimType: RimType.SUGAR, x: 4.8, color: new BABYLON.Color3(1.0, 0.96, 0.85) }
+        ];
+        rimConfigs.forEach(config => {
+            const dish = BABYLON.MeshBuilder.CreateCylinder(
+                `rimDish_${config.rimType}_body`,
+                { height: 0.03, diameter: 0.26, tessellation: 16 },
+                this.scene
+            );
+            dish.material = trayMaterial;
+
+            const fill = BABYLON.MeshBuilder.CreateCylinder(
+                `rimDish_${config.rimType}_fill`,
+                { height: 0.01, diameter: 0.22, tessellation: 16 },
+                this.scene
+            );
+            fill.position.y = 0.015;
+            const fillMaterial = new BABYLON.PBRMaterial(`rimDish_${config.rimType}_fillMat`, this.scene);
+            fillMaterial.albedoColor = config.color;
+            fillMaterial.metallic = 0.0;
+            fillMaterial.roughness = 0.8;
+            fill.material = fillMaterial;
+
+            const rimDish = BABYLON.Mesh.MergeMeshes(
+                [dish, fill],
+                true,
+                true,
+                undefined,
+                false,
+                true
+            ) as BABYLON.Mesh;
+            rimDish.name = `rimDish_${config.rimType}`;
+            rimDish.position = new BABYLON.Vector3(config.x, 1.165, -3.7);
+            rimDish.receiveShadows = true;
+
+            this.interaction.registerInteractable(rimDish, ItemType.RIM_DISH);
+            (rimDish as InteractableObject).userData.rimType = config.rimType;
+            this.rimDishes.push(rimDish);
+        });
+
+        console.log('✓ Created garnish tray');
+    }
+
+    /**
+     * 在裝飾盤對應格子補上一份裝飾
+     */
+    restockGarnish(garnishType: string): BABYLON.Mesh | null {
+        const slot = this.garnishSlots.get(garnishType);
+        if (!slot) return null;
+
+        const garnish = this.createGarnish(`garnish_${garnishType}_${this.garnishCount++}`, garnishType);
+        garnish.position = slot.clone();
+
+        // 不加物理，放下時回到盤中
+        this.interaction.registerInteractable(garnish, ItemType.GARNISH);
+        (garnish as InteractableObject).userData.garnishType = garnishType;
+
+        return garnish;
+    }
+
+    /**
+     * 創建單份裝飾（依種類組合簡單幾何體）
+     */
+    private createGarnish(name: string, garnishType: string): BABYLON.Mesh {
+        const garnishData = this.cocktail.getGarnishData(garnishType);
+        const color = garnishData ? garnishData.color : 0xffffff;
+
+        let material = this.garnishMaterials.get(garnishType);
+        if (!material) {
+            material = new BABYLON.PBRMaterial(`garnishMat_${garnishType}`, this.scene);
+            material.albedoColor = BABYLON.Color3.FromHexString('#' + color.toString(16).padStart(6, '0'));
+            material.metallic = 0.0;
+            material.roughness = 0.5;
+            this.garnishMaterials.set(garnishType, material);
+        }
+
+        // 酒籤（橄欖、洋蔥、櫻桃用）
+        const createPick = (): BABYLON.Mesh => {
+            const pick = BABYLON.MeshBuilder.CreateCylinder(
+                `${name}_pick`,
+                { height: 0.12, diameter: 0.004, tessellation: 4 },
+                this.scene
+            );
+            pick.position.y = 0.04;
+            let pickMaterial = this.garnishMaterials.get('pick');
+            if (!pickMaterial) {
+                pickMaterial = new BABYLON.PBRMaterial('garnishMat_pick', this.scene);
+                pickMaterial.albedoColor = new BABYLON.Color3(0.75, 0.6, 0.4);
+                pickMaterial.metallic = 0.0;
+                pickMaterial.roughness = 0.8;
+                this.garnishMaterials.set('pick', pickMaterial);
+            }
+            pick.material = pickMaterial;
+            return pick;
+        };
+
+        const parts: BABYLON.Mesh[] = [];
+        switch (garnishType) {
+            case 'lemon_peel':
+            case 'orange_peel':
+            case 'lime_peel': {
+                // 果皮：細長扭轉的薄片
+                const peel = BABYLON.MeshBuilder.CreateBox(
+                    `${name}_peel`,
+                    { width: 0.09, height: 0.006, depth: 0.022 },
+                    this.scene
+                );
+                peel.rotation.set(0.4, 0, Math.PI / 2.5);
+                parts.push(peel);
+                break;
+            }
+            case 'lemon_wheel':
+            case 'orange_wheel':
+            case 'lime_wheel': {
+                // 水果片：直立的薄圓片，切口卡在杯緣
+                const wheel = BABYLON.MeshBuilder.CreateCylinder(
+                    `${name}_wheel`,
+                    { height: 0.008, diameter: 0.075, tessellation: 16 },
+                    this.scene
+                );
+                wheel.rotation.x = Math.PI / 2;
+                parts.push(wheel);
+                break;
+            }
+            case 'pineapple_wedge': {
+                const wedge = BABYLON.MeshBuilder.CreateCylinder(
+                    `${name}_wedge`,
+                    { height: 0.03, diameter: 0.12, arc: 0.2, tessellation: 12, enclose: true },
+                    this.scene
+                );
+                wedge.rotation.x = Math.PI / 2;
+                parts.push(wedge);
+                break;
+            }
+            case 'cherry':
+            case 'olive':
+            case 'cocktail_onion': {
+                const fruit = BABYLON.MeshBuilder.CreateSphere(
+                    `${name}_fruit`,
+                    garnishType === 'olive'
+                        ? { diameterX: 0.022, diameterY: 0.03, diameterZ: 0.022, segments: 8 }
+                        : { diameter: garnishType === 'cherry' ? 0.032 : 0.024, segments: 8 },
+                    this.scene
+                );
+                parts.push(fruit, createPick());
+                break;
+            }
+            case 'mint_sprig': {
+                // 薄荷枝：莖 + 數片葉子
+                const stem = BABYLON.MeshBuilder.CreateCylinder(
+                    `${name}_stem`,
+                    { height: 0.12, diameter: 0.005, tessellation: 4 },
+                    this.scene
+                );
+                stem.position.y = 0.06;
+                parts.push(stem);
+                for (let i = 0; i < 4; i++) {
+                    const leaf = BABYLON.MeshBuilder.CreateSphere(
+                        `${name}_leaf_${i}`,
+                        { diameterX: 0.04, diameterY: 0.004, diameterZ: 0.022, segments: 4 },
+                        this.scene
+                    );
+                    leaf.position.set(Math.cos(i * 1.6) * 0.015, 0.08 + i * 0.012, Math.sin(i * 1.6) * 0.015);
+                    leaf.rotation.set(0.3, i * 1.6, 0);
+                    parts.push(leaf);
+                }
+                break;
+            }
+            default: {
+                // 芹菜棒
+                const stalk = BABYLON.MeshBuilder.CreateCylinder(
+                    `${name}_stalk`,
+                    { height: 0.22, diameterTop: 0.018, diameterBottom: 0.022, tessellation: 6 },
+                    this.scene
+                );
+                stalk.position.y = 0.1;
+                parts.push(stalk);
+            }
+        }
+
+        parts.forEach(part => {
+            if (!part.material) {
+                part.material = material!;
+            }
+        });
+
+        const garnish = BABYLON.Mesh.MergeMeshes(
+            parts,
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+        garnish.name = name;
+
+        return garnish;
+    }
+
+    /**
+     * 創建庫存箱（酒架旁的備品木箱，手持酒瓶對準後補滿）
+     */
+    private createStockCrate(): void {
+        const crateMaterial = new BABYLON.PBRMaterial('stockCrateMat', this.scene);
+        crateMaterial.albedoColor = new BABYLON.Color3(0.45, 0.32, 0.2);
+        crateMaterial.metallic = 0.0;
+        crateMaterial.roughness = 0.85;
+
+        const bottleMaterial = new BABYLON.PBRMaterial('stockBottleMat', this.scene);
+        bottleMaterial.albedoColor = new BABYLON.Color3(0.2, 0.35, 0.25);
+        bottleMaterial.metallic = 0.0;
+        bottleMaterial.roughness = 0.1;
+
+        // 箱身
+        const box = BABYLON.MeshBuilder.CreateBox(
+            'stockCrate_box',
+            { width: 0.8, height: 0.4, depth: 0.5 },
+            this.scene
+        );
+        box.material = crateMaterial;
+
+        // 箱內備品酒瓶（只露出瓶頸）
+        const spareBottles: BABYLON.Mesh[] = [];
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 2; j++) {
+                const spare = BABYLON.MeshBuilder.CreateCylinder(
+                    `stockCrate_bottle_${i}_${j}`,
+                    { height: 0.2, diameterTop: 0.05, diameterBottom: 0.1, tessellation: 8 },
+                    this.scene
+                );
+                spare.position.set(-0.25 + i * 0.25, 0.25, -0.12 + j * 0.24);
+                spare.material = bottleMaterial;
+                spareBottles.push(spare);
+            }
+        }
+
+        const crate = BABYLON.Mesh.MergeMeshes(
+            [box, ...spareBottles],
+            true,
+            true,
+            undefined,
+            false,
+            true
+        ) as BABYLON.Mesh;
+
+        crate.name = 'stockCrate';
+        crate.position = new BABYLON.Vector3(5.8, 0.2, -7.4);
+        crate.receiveShadows = true;
+        crate.checkCollisions = true;
+
+        this.interaction.registerInteractable(crate, ItemType.STOCK_CRATE);
+        this.stockCrate = crate;
+
+        console.log('✓ Created stock crate');
+    }
+
     /**
      * 創建家具（桌椅）
      */
@@ -1156,6 +2336,8 @@ export default class BarEnvironment {
         stoolMaterial.diffuseColor = new BABYLON.Color3(0.2, 0.15, 0.1);
         stoolMaterial.specularColor = new BABYLON.Color3(0.15, 0.15, 0.15);
 
+        this.stoolPositions = stoolPositions;
+
         stoolPositions.forEach((position, index) => {
             // 椅座（性能優化：降低到6邊形）
             const seat = BABYLON.MeshBuilder.CreateCylinder(
@@ -1247,13 +2429,14 @@ export default class BarEnvironment {
         });
 
         // 註冊為可互動物品（酒瓶）
-        // 注意：酒瓶不是容器，而是倒酒的來源，所以不需要初始化容器
+        // 注意：酒瓶不是容器，而是倒酒的來源，只登記庫存量
         this.interaction.registerInteractable(
             bottle,
             'bottle' as any,
             'vodka', // 伏特加類型
-            undefined // 酒瓶不需要容量參數
+            this.TEST_BOTTLE_CAPACITY
         );
+        this.cocktail.registerBottle(bottle, this.TEST_BOTTLE_CAPACITY, liquid);
 
         console.log('✅ 測試用圓柱體酒瓶已添加到桌面 (位置: 0, 0.8, 3)');
     }
@@ -1272,10 +2455,59 @@ export default class BarEnvironment {
         return this.glasses;
     }
 
+    /**
+     * 獲取所有冰桶
+     */
+    getIceBins(): BABYLON.Mesh[] {
+        return this.iceBins;
+    }
+
+    /**
+     * 獲取所有新鮮材料碗
+     */
+    getSolidBowls(): BABYLON.Mesh[] {
+        return this.solidBowls;
+    }
+
+    /**
+     * 獲取沾邊碟
+     */
+    getRimDishes(): BABYLON.Mesh[] {
+        return this.rimDishes;
+    }
+
+    /**
+     * 獲取果汁機杯壺
+     */
+    getBlender(): BABYLON.Mesh | null {
+        return this.blender;
+    }
+
+    /**
+     * 獲取庫存箱
+     */
+    getStockCrate(): BABYLON.Mesh | null {
+        return this.stockCrate;
+    }
+
+    /**
+     * 獲取吧檯椅位置（營業模式的客人座位）
+     */
+    getStoolPositions(): BABYLON.Vector3[] {
+        return this.stoolPositions;
+    }
+
     /**
      * 獲取調酒工具
      */
-    getBarTools(): { shaker?: BABYLON.Mesh; jigger?: BABYLON.Mesh } {
+    getBarTools(): {
+        shaker?: BABYLON.Mesh;
+        jigger?: BABYLON.Mesh;
+        mixingGlass?: BABYLON.Mesh;
+        barSpoon?: BABYLON.Mesh;
+        strainers?: BABYLON.Mesh[];
+        muddler?: BABYLON.Mesh;
+    } {
         return this.barTools;
     }
 }
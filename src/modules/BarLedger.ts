@@ -0,0 +1,74 @@
+/**
+ * 酒吧帳本 - 記錄營業收入與小費，
+ * 並結合 CocktailSystem 的材料用量計算酒水成本率與耗損
+ */
+
+import CocktailSystem from './CocktailSystem';
+import type { CocktailRecipe, LedgerReport, SaleRecord, ServedDrink } from '../types/types';
+
+export default class BarLedger {
+    private cocktail: CocktailSystem;
+    private sales: SaleRecord[] = [];
+
+    // 小費與拒付
+    private readonly MAX_TIP_RATE = 0.25;        // 完美且立刻上酒時的小費比例（佔售價）
+    private readonly TIP_MIN_ACCURACY = 60;      // 準確度低於此不給小費
+    private readonly REFUSE_ACCURACY = 40;       // 準確度低於此客人拒付
+    private readonly SLOW_TIP_FACTOR = 0.5;      // 耐心耗盡前一刻上酒時，小費打的折數
+
+    constructor(cocktail: CocktailSystem) {
+        this.cocktail = cocktail;
+    }
+
+    /**
+     * 記錄一筆銷售：依準確度決定是否收費，依準確度與上酒速度計算小費
+     * @param patienceLeft 上酒時客人剩餘耐心比例（0-1），越快上酒越高
+     */
+    recordSale(recipe: CocktailRecipe, drink: ServedDrink, accuracy: number, patienceLeft: number): SaleRecord {
+        const refused = accuracy < this.REFUSE_ACCURACY;
+
+        const accuracyFactor = Math.max(0, Math.min(1,
+            (accuracy - this.TIP_MIN_ACCURACY) / (100 - this.TIP_MIN_ACCURACY)
+        ));
+        const speedFactor = this.SLOW_TIP_FACTOR + (1 - this.SLOW_TIP_FACTOR) * Math.max(0, Math.min(1, patienceLeft));
+
+        const sale: SaleRecord = {
+            recipeId: recipe.id,
+            recipeName: recipe.name,
+            price: refused ? 0 : recipe.price,
+            tip: refused ? 0 : Math.round(recipe.price * this.MAX_TIP_RATE * accuracyFactor * speedFactor),
+            cost: this.cocktail.getIngredientsCost(drink.ingredients),
+            accuracy,
+            refused
+        };
+        this.sales.push(sale);
+
+        if (refused) {
+            console.log(`⚠️ ${recipe.name} 做得太差，客人拒付`);
+        } else {
+            console.log(`✓ 售出 ${recipe.name}：NT$ ${sale.price}，小費 NT$ ${sale.tip}`);
+        }
+        return sale;
+    }
+
+    /**
+     * 產生帳本報表（營收、小費、酒水成本率與耗損）
+     */
+    getReport(): LedgerReport {
+        const costs = this.cocktail.getCostReport();
+        const revenue = this.sales.reduce((sum, sale) => sum + sale.price, 0);
+
+        return {
+            revenue,
+            tips: this.sales.reduce((sum, sale) => sum + sale.tip, 0),
+            drinksSold: this.sales.filter(sale => !sale.refused).length,
+            refused: this.sales.filter(sale => sale.refused).length,
+            usageCost: costs.usageCost,
+            pourCostPercent: revenue > 0 ? costs.usageCost / revenue * 100 : null,
+            wasteVolume: costs.wasteVolume,
+            wasteCost: costs.wasteCost,
+            waste: costs.waste,
+            sales: [...this.sales]
+        };
+    }
+}
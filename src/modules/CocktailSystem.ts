@@ -4,7 +4,48 @@
  */
 
 import * as BABYLON from '@babylonjs/core';
-import { LiquorData, LiquorCategory, ContainerContent } from '../types/types';
+import {
+    LiquorData,
+    LiquorCategory,
+    ContainerContent,
+    CocktailRecipe,
+    DrinkScore,
+    DrinkInfo,
+    ServedDrink,
+    CostReport,
+    IngredientScore,
+    PreparationMethod,
+    ContainerActionType,
+    ContainerAction,
+    IceType,
+    IceData,
+    ProfilePoint,
+    StrainerType,
+    SolidData,
+    SolidScore,
+    GarnishData,
+    GarnishPlacement,
+    RimType,
+    GlassType,
+    AromaNote,
+    FlavorBalance,
+    IBACategory,
+    CocktailEra,
+    type RecipeDifficulty,
+    type RecipeFilter,
+    type RecipeIngredient,
+    type RecipeSolid,
+    type RecipeGarnish,
+    type InteractableObject
+} from '../types/types';
+import { COCKTAIL_RECIPES, DEFAULT_RECIPE_TOLERANCE } from '../data/cocktailRecipes';
+import {
+    LIQUID_MAX_LAYERS,
+    LIQUID_SHADER_NAME,
+    LIQUID_VERTEX_SHADER,
+    LIQUID_FRAGMENT_SHADER
+} from '../shaders/liquidShader';
+import { escapeHtml } from '../utils/html';
 
 // 容器內容介面
 interface ContainerContents {
@@ -19,8 +60,162 @@ interface ContainerContents {
     maxVolume: number;
     color: number;
     liquidMesh: BABYLON.Mesh | null;
+    actions: ContainerAction[];
+    ice: Array<{
+        type: IceType;
+        amount: number;
+    }>;
+    iceMeshes: BABYLON.Mesh[];
+    solids: Array<{          // 固體材料（萃取程度 0-1 為該材料所有份數的平均）
+        type: string;
+        count: number;
+        extraction: number;
+    }>;
+    solidMeshes: BABYLON.Mesh[];
+    layers: Array<{          // 由下而上的液層
+        amount: number;
+        color: number;
+        density: number;
+    }>;
+    innerProfile: ProfilePoint[]; // 內壁輪廓（決定液面高度與液體網格形狀）
+    liquidLevel: number;          // 液面在容器本地座標的高度
+    layerLevels: number[];        // 各液層頂端在容器本地座標的高度
+    temperature: number;      // 酒液溫度（°C）
+    glassTemperature: number; // 杯身溫度（°C）
+    frostMesh: BABYLON.Mesh | null;
+    sealed: boolean;          // 有蓋容器（Shaker）傾倒時不會灑出
+    measureLines: number[];   // 量酒器刻度線（ml）
+    strainer: {               // 架在杯口的濾冰器
+        type: StrainerType;
+        mesh: BABYLON.TransformNode;
+    } | null;
+    pendingSpill: number;     // 尚未形成水漬的灑出量（ml）
+    frozenIce: number;        // 打成冰沙、懸浮在酒液中的冰量（ml，已計入 volume）
+    garnishes: Array<{        // 放上的裝飾物
+        type: string;
+        mesh: BABYLON.TransformNode;
+    }>;
+    rim: {                    // 杯緣沾鹽/糖
+        type: RimType;
+        mesh: BABYLON.Mesh;
+    } | null;
+    glassType: GlassType | null; // 杯型（Shaker、調酒杯等器具為 null）
+    carbonation: number;      // 容器中碳酸材料剩餘的氣泡程度（0-1）
+    foam: number;             // 浮在液面上的泡沫量（ml，不計入 volume）
+    foamLevel: number;        // 泡沫頂端在容器本地座標的高度
+}
+
+// 酒瓶庫存
+interface BottleStock {
+    capacity: number;                 // 滿瓶容量（ml）
+    remaining: number;                // 剩餘量（ml）
+    liquidMesh: BABYLON.Mesh | null;  // 瓶內液體網格
+    liquidHeight: number;             // 滿瓶時液體高度
+    liquidBottom: number;             // 液體底部在瓶身本地座標的高度
+}
+
+// 果汁機（杯壺放在底座上才能運轉）
+interface BlenderState {
+    base: BABYLON.TransformNode;
+    basePosition: BABYLON.Vector3;    // 底座原位（震動時以此為中心）
+    seatPosition: BABYLON.Vector3;    // 杯壺放在底座上的位置
+    durationIndex: number;            // 選擇的攪打時間
+    remaining: number;                // 剩餘運轉秒數
+    running: boolean;
+    audio: {                          // 馬達聲（Web Audio 合成）
+        context: AudioContext;
+        oscillator: OscillatorNode;
+    } | null;
+}
+
+// 灑在吧檯或地板上的水漬
+interface Puddle {
+    mesh: BABYLON.Mesh | null;
+    target: BABYLON.AbstractMesh;
+    position: BABYLON.Vector3;
+    normal: BABYLON.Vector3;
+    volume: number;
+    size: number;
 }
 
+// 杯緣沾邊名稱與顏色
+const RIM_DATA: Record<RimType, { name: string; color: BABYLON.Color3; roughness: number }> = {
+    [RimType.SALT]: { name: '鹽口', color: new BABYLON.Color3(0.95, 0.95, 0.95), roughness: 0.9 },
+    [RimType.SUGAR]: { name: '糖口', color: new BABYLON.Color3(1.0, 0.97, 0.9), roughness: 0.4 }
+};
+
+// 融冰稀釋產生的水，不列入配方判定
+const DILUTION_TYPES = ['water'];
+
+// 濾冰器：名稱與倒出流速比例（茱莉普濾冰器孔較細，流速較慢）
+const STRAINER_DATA: Record<StrainerType, { name: string; flowFactor: number }> = {
+    [StrainerType.HAWTHORNE]: { name: '霍桑濾冰器 (Hawthorne Strainer)', flowFactor: 1.0 },
+    [StrainerType.JULEP]: { name: '茱莉普濾冰器 (Julep Strainer)', flowFactor: 0.7 }
+};
+
+// 未指定內壁輪廓時使用的直筒杯形
+const DEFAULT_INNER_PROFILE: ProfilePoint[] = [
+    { y: -0.27, radius: 0.13 },
+    { y: 0.27, radius: 0.13 }
+];
+
+// 調製手法顯示名稱
+const METHOD_LABELS: Record<PreparationMethod, string> = {
+    [PreparationMethod.SHAKE]: '搖盪',
+    [PreparationMethod.STIR]: '攪拌',
+    [PreparationMethod.BUILD]: '直調',
+    [PreparationMethod.BLEND]: '電動攪拌',
+    [PreparationMethod.MUDDLE]: '壓搗'
+};
+
+// 杯型名稱
+const GLASS_LABELS: Record<GlassType, string> = {
+    [GlassType.HIGHBALL]: '高球杯',
+    [GlassType.ROCKS]: '古典杯',
+    [GlassType.COUPE]: '雞尾酒杯',
+    [GlassType.MARTINI]: '馬丁尼杯',
+    [GlassType.HURRICANE]: '颶風杯',
+    [GlassType.COLLINS]: '柯林斯杯',
+    [GlassType.SHOT]: '子彈杯',
+    [GlassType.WINE]: '葡萄酒杯'
+};
+
+// IBA 分類名稱
+const IBA_CATEGORY_LABELS: Record<IBACategory, string> = {
+    [IBACategory.UNFORGETTABLE]: '不朽經典',
+    [IBACategory.CONTEMPORARY]: '當代經典',
+    [IBACategory.NEW_ERA]: '新時代調酒'
+};
+
+// 調酒年代名稱
+const ERA_LABELS: Record<CocktailEra, string> = {
+    [CocktailEra.GOLDEN_AGE]: '黃金年代（1920 前）',
+    [CocktailEra.PROHIBITION]: '禁酒令時期（1920-1933）',
+    [CocktailEra.MID_CENTURY]: '戰後與提基風潮（1934-1969）',
+    [CocktailEra.DISCO]: '迪斯可年代（1970-1989）',
+    [CocktailEra.MODERN]: '精釀復興（1990 後）'
+};
+
+// 香氣名稱
+const AROMA_LABELS: Record<AromaNote, string> = {
+    [AromaNote.CITRUS]: '柑橘',
+    [AromaNote.HERBAL]: '草本',
+    [AromaNote.FRUITY]: '果香',
+    [AromaNote.FLORAL]: '花香',
+    [AromaNote.SPICY]: '辛香',
+    [AromaNote.WOODY]: '木質',
+    [AromaNote.TROPICAL]: '熱帶水果',
+    [AromaNote.COFFEE]: '咖啡',
+    [AromaNote.NUTTY]: '堅果',
+    [AromaNote.CREAMY]: '奶香'
+};
+
+// 店家配方在 localStorage 的儲存鍵
+const HOUSE_RECIPE_STORAGE_KEY = 'barSimulator.houseRecipes';
+
+// 店家配方 ID 只允許英數字、底線與連字號（會放進 HTML 屬性）
+const HOUSE_RECIPE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
 // 倒酒進度 UI 介面
 interface PourProgressUI {
     panel: HTMLElement | null;
@@ -47,25 +242,168 @@ export default class CocktailSystem {
     private drinkingStartTime: number;
     private currentDrinkingGlass: BABYLON.TransformNode | null;
     private originalGlassPosition: BABYLON.Vector3 | null;
-    private lastDrinkInfo: any | null;
+    private lastDrinkInfo: DrinkInfo | null;
 
     // 搖酒狀態
     private isShakingActive: boolean;
     private shakeIntensity: number;
     private shakeTime: number;
 
+    // 吧匙攪拌狀態（按住加速、放開減速，維持在節奏區間內效率最佳）
+    private stirTarget: BABYLON.TransformNode | null;
+    private stirSpeed: number;
+    private stirPressed: boolean;
+
     // 粒子系統
     private particleSystems: Map<string, BABYLON.ParticleSystem>;
 
+    // 灑出的水漬
+    private puddles: Puddle[];
+
+    // 酒瓶庫存
+    private bottleStock: Map<BABYLON.TransformNode, BottleStock>;
+
+    // 材料成本統計（本次遊玩期間）
+    private usageCost: number;               // 從酒瓶倒出的液體與放入的固體材料成本（NT$）
+    private wasteLog: Map<string, number>;   // 各材料灑出或倒掉的量（ml）
+
+    // 果汁機（以杯壺為鍵）
+    private blenders: Map<BABYLON.TransformNode, BlenderState>;
+
     // 酒類資料庫
     private liquorDatabase: Map<string, LiquorData>;
 
+    // 冰塊資料庫
+    private iceDatabase: Map<IceType, IceData>;
+    private iceMaterial: BABYLON.PBRMaterial | null;
+    private iceScoopCooldown: number;
+
+    // 固體材料資料庫
+    private solidDatabase: Map<string, SolidData>;
+    private solidMaterials: Map<string, BABYLON.PBRMaterial>;
+    private solidAddCooldown: number;
+
+    // 裝飾物資料庫
+    private garnishDatabase: Map<string, GarnishData>;
+    private rimMaterials: Map<RimType, BABYLON.PBRMaterial>;
+
+    // 調酒配方
+    private recipes: CocktailRecipe[];
+
     // UI 元素
     private pourProgressUI: PourProgressUI;
 
     // 倒酒速度（ml/秒）
     public pourRate: number;
 
+    // 評分扣分設定
+    private readonly SCORE_MISSING_PENALTY = 30;   // 每缺一項必要材料
+    private readonly SCORE_EXTRA_PENALTY = 10;     // 每多一項配方外材料
+    private readonly SCORE_FORBIDDEN_PENALTY = 25; // 每出現一項禁用材料
+    private readonly SCORE_VOLUME_PENALTY = 10;    // 總量偏差的最大扣分
+    private readonly SCORE_METHOD_PENALTY = 15;    // 調製手法錯誤
+
+    // 手法成立所需的最短時間（秒）
+    private readonly MIN_SHAKE_SECONDS = 3;
+    private readonly MIN_STIR_SECONDS = 3;
+
+    // 冰塊與稀釋設定
+    private readonly AMBIENT_TEMPERATURE = 20;       // 室溫（°C）
+    private readonly ICE_EQUILIBRIUM_TEMPERATURE = -4; // 酒液與冰接觸可達的最低溫（°C）
+    private readonly SHAKE_AGITATION = 12;           // 搖盪時融冰/降溫倍率
+    private readonly STIR_AGITATION = 5;             // 攪拌時融冰/降溫倍率
+    private readonly ICE_SCOOP_INTERVAL = 0.5;       // 舀冰間隔（秒）
+
+    // 溫度模型設定（牛頓冷卻，數值為每秒速率）
+    private readonly GLASS_EXCHANGE_RATE = 0.08;     // 酒液與杯身熱交換
+    private readonly LIQUID_HEAT_SHARE = 0.3;        // 熱交換時酒液溫度變化的比例（酒液熱容量較大）
+    private readonly AMBIENT_EXCHANGE_RATE = 0.004;  // 杯身/酒液與室溫交換
+    private readonly ICE_GLASS_CHILL_RATE = 0.03;    // 空杯放冰時杯身降溫
+    private readonly SCORE_TEMPERATURE_PENALTY = 15; // 溫度過高的最大扣分
+
+    // 分層設定
+    private readonly LAYER_DENSITY_THRESHOLD = 0.015; // 密度差小於此值的液體會互溶
+    private readonly SCORE_LAYER_PENALTY = 20;        // 分層調酒層次混掉的扣分
+    private readonly GENTLE_POUR_FACTOR = 0.4;        // 慢倒時的倒酒速度比例
+
+    // 壓搗設定
+    private readonly MIN_MUDDLE_SECONDS = 2;        // 壓搗至少需要的秒數
+    private readonly MUDDLE_EXTRACTION_RATE = 0.35; // 壓搗時每秒萃取程度
+    private readonly SHAKE_EXTRACTION_RATE = 0.05;  // 搖盪時順帶萃取的程度
+    private readonly MIN_MUDDLE_EXTRACTION = 0.6;   // 配方要求的最低萃取程度
+    private readonly SOLID_ADD_INTERVAL = 0.4;      // 放入固體材料的間隔（秒）
+    private readonly MAX_SOLID_PIECES = 16;         // 顯示的固體材料上限
+    private readonly SCORE_MUDDLE_PENALTY = 10;     // 壓搗不足的扣分
+
+    // 果汁機設定
+    private readonly BLEND_DURATIONS = [10, 20, 30];  // 可選的攪打時間（秒）
+    private readonly MIN_BLEND_SECONDS = 5;           // 電動攪拌至少需要的秒數
+    private readonly BLEND_CRUSH_RATE = 25;           // 每秒打碎成冰沙的冰量（ml/s）
+    private readonly BLEND_CHILL_RATE = 0.5;          // 攪打時酒液降溫速率
+    private readonly BLEND_OVERRUN_MELT_RATE = 4;     // 冰打完後空轉，冰沙化水的速率（ml/s）
+    private readonly BLENDER_SEAT_DISTANCE = 0.1;     // 杯壺離底座超過此距離即停止運轉
+    private readonly BLENDER_LOADED_FREQUENCY = 85;   // 打冰時的馬達音高（Hz）
+    private readonly BLENDER_FREE_FREQUENCY = 140;    // 空轉時的馬達音高（Hz）
+    private readonly SLUSH_MELT_RATE = 0.6;           // 冰沙在杯中化水的速率（ml/s，室溫時）
+    private readonly SLUSH_CHILL_RATE = 0.05;         // 冰沙讓酒液保持冰涼的速率
+    private readonly MIN_FROZEN_RATIO = 0.25;         // 冰沙調酒要求的最低冰沙比例
+    private readonly SCORE_FROZEN_PENALTY = 15;       // 冰沙質地不足的扣分
+
+    // 裝飾設定
+    private readonly MAX_GARNISHES = 3;              // 每杯最多放上的裝飾數
+    private readonly GARNISH_MATCH_WEIGHT = 0.5;     // 裝飾不符時在配方辨識中的排序加權
+    private readonly SCORE_GARNISH_PENALTY = 5;      // 每缺一項裝飾
+    private readonly SCORE_RIM_PENALTY = 5;          // 杯緣沾邊錯誤
+    private readonly SCORE_GLASS_PENALTY = 10;       // 杯型錯誤
+
+    // 氣泡設定（數值為每秒流失比例）
+    private readonly FIZZ_DECAY_RATE = 0.006;        // 冰涼靜置時的自然跑氣
+    private readonly FIZZ_WARM_FACTOR = 0.15;        // 酒液每高於 4°C 一度，跑氣速率增加的倍率
+    private readonly SHAKE_FIZZ_LOSS_RATE = 1.2;     // 搖盪時
+    private readonly STIR_FIZZ_LOSS_RATE = 0.08;     // 攪拌時
+    private readonly BLEND_FIZZ_LOSS_RATE = 1.0;     // 果汁機攪打時
+    private readonly POUR_FIZZ_LOSS = 0.05;          // 每次倒入時損失的氣泡比例
+    private readonly MIN_FIZZ = 0.5;                 // 含碳酸材料的調酒要求的最低氣泡程度
+    private readonly BUBBLE_MAX_EMIT_RATE = 150;     // 氣泡粒子最大發射速率（每秒）
+    private readonly BUBBLE_RISE_SPEED = 0.12;       // 氣泡上升速度（m/s）
+    private readonly SCORE_FLAT_PENALTY = 15;        // 跑氣的最大扣分
+
+    // 泡沫設定
+    private readonly FOAM_EXPANSION = 2.5;           // 起泡材料最多可打發成的泡沫倍數
+    private readonly DRY_SHAKE_FOAM_RATE = 0.6;      // 乾搖時每秒接近最大泡沫量的比例
+    private readonly WET_SHAKE_FOAM_RATE = 0.15;     // 加冰搖時每秒接近上限的比例
+    private readonly WET_SHAKE_FOAM_LIMIT = 0.4;     // 只加冰搖能打出的泡沫比例上限
+    private readonly FOAM_COLLAPSE_RATE = 0.004;     // 靜置時每秒消泡比例
+    private readonly STIR_FOAM_LOSS_RATE = 0.3;      // 攪拌時每秒消泡比例
+    private readonly FOAM_POUR_LOSS = 0.1;           // 倒入時損失的泡沫比例
+    private readonly SCORE_FOAM_PENALTY = 15;        // 泡沫不足的最大扣分
+
+    // 風味平衡（各軸達到此值即為雷達圖滿格）
+    private readonly FLAVOR_FULL_SCALE = 0.3;        // 甜/酸/苦每 ml 平均強度
+    private readonly FLAVOR_AROMA_SCALE = 0.3;       // 香氣每 ml 平均強度
+    private readonly FLAVOR_STRENGTH_SCALE = 40;     // 酒精濃度（%）
+    private readonly FLAVOR_DILUTION_SCALE = 0.5;    // 融冰水佔比
+
+    // 吧匙攪拌節奏設定（速度範圍 0~1）
+    private readonly STIR_ACCELERATION = 1.2;   // 按住時每秒加速
+    private readonly STIR_DECELERATION = 0.8;   // 放開時每秒減速
+    private readonly STIR_RHYTHM_MIN = 0.45;    // 節奏區間下限
+    private readonly STIR_RHYTHM_MAX = 0.8;     // 節奏區間上限（過快會打入空氣、多餘稀釋）
+
+    // 液面彎月面沿杯壁爬升的高度
+    private readonly MENISCUS_HEIGHT = 0.006;
+
+    // 灑出設定
+    private readonly SPILL_FLOW_RATE = 150;          // 完全傾倒時每秒灑出量（ml/s）
+    private readonly SPILL_FULL_FLOW_HEIGHT = 0.05;  // 液面超出杯緣此高度時達到最大流量
+    private readonly PUDDLE_DEPOSIT_AMOUNT = 3;      // 每累積此灑出量（ml）更新一次水漬
+    private readonly MAX_PUDDLES = 24;
+
+    // 店家配方定價
+    private readonly TARGET_POUR_COST = 0.2;   // 目標酒水成本率（成本 / 售價）
+    private readonly MIN_MENU_PRICE = 220;     // 酒單最低售價（NT$）
+    private readonly MAX_MENU_PRICE = 5000;    // 匯入配方的售價上限（NT$）
+
     constructor(scene: BABYLON.Scene) {
         this.scene = scene;
         this.containerContents = new Map();
@@ -90,12 +428,43 @@ export default class CocktailSystem {
         this.shakeIntensity = 0;
         this.shakeTime = 0;
 
+        // 初始化攪拌狀態
+        this.stirTarget = null;
+        this.stirSpeed = 0;
+        this.stirPressed = false;
+
         // 初始化粒子系統
         this.particleSystems = new Map();
+        this.puddles = [];
+        this.bottleStock = new Map();
+        this.blenders = new Map();
+        this.usageCost = 0;
+        this.wasteLog = new Map();
+
+        // 註冊液體著色器
+        BABYLON.Effect.ShadersStore[`${LIQUID_SHADER_NAME}VertexShader`] = LIQUID_VERTEX_SHADER;
+        BABYLON.Effect.ShadersStore[`${LIQUID_SHADER_NAME}FragmentShader`] = LIQUID_FRAGMENT_SHADER;
 
         // 初始化酒類資料庫
         this.liquorDatabase = this.initLiquorDatabase();
 
+        // 初始化冰塊資料庫
+        this.iceDatabase = this.initIceDatabase();
+        this.iceMaterial = null;
+        this.iceScoopCooldown = 0;
+
+        // 初始化固體材料資料庫
+        this.solidDatabase = this.initSolidDatabase();
+        this.solidMaterials = new Map();
+        this.solidAddCooldown = 0;
+
+        // 初始化裝飾物資料庫
+        this.garnishDatabase = this.initGarnishDatabase();
+        this.rimMaterials = new Map();
+
+        // 載入配方資料（經典配方 + 玩家儲存的店家配方）
+        this.recipes = [...COCKTAIL_RECIPES, ...this.loadHouseRecipes()];
+
         // 初始化 UI 元素
         this.pourProgressUI = {
             panel: document.getElementById('pour-progress-panel'),
@@ -121,7 +490,10 @@ export default class CocktailSystem {
             displayName: 'Vodka',
             color: 0xf0f0f0,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 0.9,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0 }
         });
 
         database.set('gin', {
@@ -129,7 +501,10 @@ export default class CocktailSystem {
             displayName: 'Gin',
             color: 0xe8f4f8,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.HERBAL]: 0.8, [AromaNote.FLORAL]: 0.3, [AromaNote.CITRUS]: 0.2 } }
         });
 
         database.set('rum', {
@@ -137,7 +512,10 @@ export default class CocktailSystem {
             displayName: 'Rum',
             color: 0xd4a574,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 0.8,
+            flavor: { sweetness: 0.05, acidity: 0, bitterness: 0, aroma: { [AromaNote.TROPICAL]: 0.3, [AromaNote.WOODY]: 0.3, [AromaNote.SPICY]: 0.2 } }
         });
 
         database.set('whiskey', {
@@ -145,7 +523,10 @@ export default class CocktailSystem {
             displayName: 'Whiskey',
             color: 0xb87333,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.4,
+            flavor: { sweetness: 0.03, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.WOODY]: 0.8, [AromaNote.SPICY]: 0.3 } }
         });
 
         database.set('tequila', {
@@ -153,7 +534,10 @@ export default class CocktailSystem {
             displayName: 'Tequila',
             color: 0xf5deb3,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.2,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0.03, aroma: { [AromaNote.HERBAL]: 0.5, [AromaNote.SPICY]: 0.4 } }
         });
 
         database.set('brandy', {
@@ -161,7 +545,88 @@ export default class CocktailSystem {
             displayName: 'Brandy',
             color: 0x8b4513,
             alcoholContent: 40,
-            category: LiquorCategory.BASE_SPIRIT
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.5,
+            flavor: { sweetness: 0.05, acidity: 0, bitterness: 0, aroma: { [AromaNote.FRUITY]: 0.5, [AromaNote.WOODY]: 0.4 } }
+        });
+
+        database.set('cachaca', {
+            name: '卡莎薩',
+            displayName: 'Cachaça',
+            color: 0xf5f0dc,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.03, acidity: 0, bitterness: 0, aroma: { [AromaNote.HERBAL]: 0.4, [AromaNote.TROPICAL]: 0.3 } }
+        });
+
+        database.set('pisco', {
+            name: '皮斯可',
+            displayName: 'Pisco',
+            color: 0xfaf6e8,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.3,
+            flavor: { sweetness: 0.02, acidity: 0, bitterness: 0, aroma: { [AromaNote.FLORAL]: 0.5, [AromaNote.FRUITY]: 0.4 } }
+        });
+
+        database.set('calvados', {
+            name: '蘋果白蘭地',
+            displayName: 'Calvados',
+            color: 0xc68e3f,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0.03, acidity: 0.02, bitterness: 0, aroma: { [AromaNote.FRUITY]: 0.8, [AromaNote.WOODY]: 0.3 } }
+        });
+
+        database.set('mezcal', {
+            name: '梅茲卡爾',
+            displayName: 'Mezcal',
+            color: 0xf2ecd8,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 2.0,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.WOODY]: 0.7, [AromaNote.HERBAL]: 0.4, [AromaNote.SPICY]: 0.3 } }
+        });
+
+        database.set('grappa', {
+            name: '渣釀白蘭地',
+            displayName: 'Grappa',
+            color: 0xf8f6ee,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.6,
+            flavor: { sweetness: 0.02, acidity: 0, bitterness: 0.03, aroma: { [AromaNote.FRUITY]: 0.4, [AromaNote.FLORAL]: 0.3, [AromaNote.HERBAL]: 0.3 } }
+        });
+
+        database.set('kirsch', {
+            name: '櫻桃白蘭地',
+            displayName: 'Kirsch',
+            color: 0xf7f7f2,
+            alcoholContent: 40,
+            density: 0.95,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0.02, aroma: { [AromaNote.FRUITY]: 0.8, [AromaNote.NUTTY]: 0.2 } }
+        });
+
+        // 苦艾酒多半只用來潤杯或點綴幾滴
+        database.set('absinthe', {
+            name: '苦艾酒',
+            displayName: 'Absinthe',
+            color: 0x9acd32,
+            alcoholContent: 68,
+            density: 0.92,
+            category: LiquorCategory.BASE_SPIRIT,
+            costPerMl: 2.2,
+            flavor: { sweetness: 0.05, acidity: 0, bitterness: 0.3, aroma: { [AromaNote.HERBAL]: 1, [AromaNote.SPICY]: 0.3 } }
         });
 
         // === 調味料 ===
@@ -170,7 +635,11 @@ export default class CocktailSystem {
             displayName: 'Lemon Juice',
             color: 0xfff44f,
             alcoholContent: 0,
-            category: LiquorCategory.MIXER
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.3,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.1, acidity: 1, bitterness: 0.05, aroma: { [AromaNote.CITRUS]: 1 } }
         });
 
         database.set('lime_juice', {
@@ -178,7 +647,23 @@ export default class CocktailSystem {
             displayName: 'Lime Juice',
             color: 0x32cd32,
             alcoholContent: 0,
-            category: LiquorCategory.MIXER
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.4,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.05, acidity: 1, bitterness: 0.08, aroma: { [AromaNote.CITRUS]: 1 } }
+        });
+
+        // 壓搗莓果釋出的果汁
+        database.set('berry_juice', {
+            name: '莓果汁',
+            displayName: 'Berry Juice',
+            color: 0x9b1b4a,
+            alcoholContent: 0,
+            density: 1.05,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.5,
+            flavor: { sweetness: 0.4, acidity: 0.45, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
         });
 
         database.set('simple_syrup', {
@@ -186,7 +671,10 @@ export default class CocktailSystem {
             displayName: 'Simple Syrup',
             color: 0xffe4b5,
             alcoholContent: 0,
-            category: LiquorCategory.SYRUP
+            density: 1.23,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.1,
+            flavor: { sweetness: 1, acidity: 0, bitterness: 0 }
         });
 
         database.set('grenadine', {
@@ -194,7 +682,10 @@ export default class CocktailSystem {
             displayName: 'Grenadine',
             color: 0xff0000,
             alcoholContent: 0,
-            category: LiquorCategory.SYRUP
+            density: 1.18,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.4,
+            flavor: { sweetness: 0.9, acidity: 0.1, bitterness: 0, aroma: { [AromaNote.FRUITY]: 0.6 } }
         });
 
         database.set('angostura_bitters', {
@@ -202,7 +693,110 @@ export default class CocktailSystem {
             displayName: 'Angostura Bitters',
             color: 0x8b0000,
             alcoholContent: 44.7,
-            category: LiquorCategory.BITTERS
+            density: 0.98,
+            category: LiquorCategory.BITTERS,
+            costPerMl: 3.0,
+            flavor: { sweetness: 0.1, acidity: 0, bitterness: 1, aroma: { [AromaNote.SPICY]: 1, [AromaNote.HERBAL]: 0.5 } }
+        });
+
+        database.set('honey_syrup', {
+            name: '蜂蜜糖漿',
+            displayName: 'Honey Syrup',
+            color: 0xe8a317,
+            alcoholContent: 0,
+            density: 1.3,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.3,
+            flavor: { sweetness: 1, acidity: 0, bitterness: 0, aroma: { [AromaNote.FLORAL]: 0.5 } }
+        });
+
+        database.set('agave_syrup', {
+            name: '龍舌蘭糖漿',
+            displayName: 'Agave Syrup',
+            color: 0xd9a441,
+            alcoholContent: 0,
+            density: 1.3,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.4,
+            flavor: { sweetness: 1, acidity: 0, bitterness: 0, aroma: { [AromaNote.HERBAL]: 0.2 } }
+        });
+
+        database.set('raspberry_syrup', {
+            name: '覆盆子糖漿',
+            displayName: 'Raspberry Syrup',
+            color: 0xc2185b,
+            alcoholContent: 0,
+            density: 1.25,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.4,
+            flavor: { sweetness: 0.9, acidity: 0.15, bitterness: 0, aroma: { [AromaNote.FRUITY]: 0.8 } }
+        });
+
+        database.set('orgeat', {
+            name: '杏仁糖漿',
+            displayName: 'Orgeat',
+            color: 0xf5ecd7,
+            alcoholContent: 0,
+            density: 1.25,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.8,
+            flavor: { sweetness: 0.9, acidity: 0, bitterness: 0, aroma: { [AromaNote.NUTTY]: 1, [AromaNote.FLORAL]: 0.2 } }
+        });
+
+        database.set('elderflower_cordial', {
+            name: '接骨木花糖漿',
+            displayName: 'Elderflower Cordial',
+            color: 0xf3f0c8,
+            alcoholContent: 0,
+            density: 1.2,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.6,
+            flavor: { sweetness: 0.85, acidity: 0.1, bitterness: 0, aroma: { [AromaNote.FLORAL]: 1 } }
+        });
+
+        database.set('chamomile_cordial', {
+            name: '洋甘菊糖漿',
+            displayName: 'Chamomile Cordial',
+            color: 0xf1df9a,
+            alcoholContent: 0,
+            density: 1.2,
+            category: LiquorCategory.SYRUP,
+            costPerMl: 0.5,
+            flavor: { sweetness: 0.8, acidity: 0.05, bitterness: 0, aroma: { [AromaNote.FLORAL]: 0.8, [AromaNote.HERBAL]: 0.3 } }
+        });
+
+        database.set('orange_bitters', {
+            name: '柳橙苦精',
+            displayName: 'Orange Bitters',
+            color: 0xd35400,
+            alcoholContent: 45,
+            density: 0.98,
+            category: LiquorCategory.BITTERS,
+            costPerMl: 3.0,
+            flavor: { sweetness: 0.05, acidity: 0, bitterness: 1, aroma: { [AromaNote.CITRUS]: 1, [AromaNote.SPICY]: 0.3 } }
+        });
+
+        database.set('peychauds_bitters', {
+            name: '裴喬氏苦精',
+            displayName: "Peychaud's Bitters",
+            color: 0xc0392b,
+            alcoholContent: 35,
+            density: 0.98,
+            category: LiquorCategory.BITTERS,
+            costPerMl: 3.2,
+            flavor: { sweetness: 0.15, acidity: 0, bitterness: 0.8, aroma: { [AromaNote.FRUITY]: 0.5, [AromaNote.SPICY]: 0.6 } }
+        });
+
+        // 橙花水只取香氣，幾滴即可
+        database.set('orange_flower_water', {
+            name: '橙花水',
+            displayName: 'Orange Flower Water',
+            color: 0xfdfbf3,
+            alcoholContent: 0,
+            density: 1.0,
+            category: LiquorCategory.MIXER,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.FLORAL]: 1, [AromaNote.CITRUS]: 0.4 } }
         });
 
         // === 果汁類 ===
@@ -211,7 +805,11 @@ export default class CocktailSystem {
             displayName: 'Orange Juice',
             color: 0xffa500,
             alcoholContent: 0,
-            category: LiquorCategory.JUICE
+            density: 1.04,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.2,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.45, acidity: 0.35, bitterness: 0, aroma: { [AromaNote.CITRUS]: 0.7, [AromaNote.FRUITY]: 0.3 } }
         });
 
         database.set('pineapple_juice', {
@@ -219,7 +817,11 @@ export default class CocktailSystem {
             displayName: 'Pineapple Juice',
             color: 0xffeb3b,
             alcoholContent: 0,
-            category: LiquorCategory.JUICE
+            density: 1.05,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.2,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.5, acidity: 0.35, bitterness: 0, aroma: { [AromaNote.TROPICAL]: 0.9 } }
         });
 
         database.set('cranberry_juice', {
@@ -227,7 +829,11 @@ export default class CocktailSystem {
             displayName: 'Cranberry Juice',
             color: 0xdc143c,
             alcoholContent: 0,
-            category: LiquorCategory.JUICE
+            density: 1.04,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.2,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.35, acidity: 0.45, bitterness: 0.1, aroma: { [AromaNote.FRUITY]: 0.8 } }
         });
 
         database.set('tomato_juice', {
@@ -235,7 +841,11 @@ export default class CocktailSystem {
             displayName: 'Tomato Juice',
             color: 0xff6347,
             alcoholContent: 0,
-            category: LiquorCategory.JUICE
+            density: 1.04,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.15,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.1, acidity: 0.25, bitterness: 0, aroma: { [AromaNote.SPICY]: 0.2, [AromaNote.HERBAL]: 0.2 } }
         });
 
         database.set('grapefruit_juice', {
@@ -243,7 +853,23 @@ export default class CocktailSystem {
             displayName: 'Grapefruit Juice',
             color: 0xff69b4,
             alcoholContent: 0,
-            category: LiquorCategory.JUICE
+            density: 1.04,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.25,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.3, acidity: 0.5, bitterness: 0.25, aroma: { [AromaNote.CITRUS]: 0.9 } }
+        });
+
+        database.set('peach_puree', {
+            name: '白桃果泥',
+            displayName: 'Peach Purée',
+            color: 0xffd8b0,
+            alcoholContent: 0,
+            density: 1.08,
+            category: LiquorCategory.JUICE,
+            costPerMl: 0.6,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.5, acidity: 0.15, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
         });
 
         // === 其他常見材料 ===
@@ -252,7 +878,12 @@ export default class CocktailSystem {
             displayName: 'Soda Water',
             color: 0xe0ffff,
             alcoholContent: 0,
-            category: LiquorCategory.MIXER
+            density: 1.0,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.05,
+            storageTemperature: 4,
+            carbonation: 1,
+            flavor: { sweetness: 0, acidity: 0.05, bitterness: 0 }
         });
 
         database.set('tonic_water', {
@@ -260,7 +891,12 @@ export default class CocktailSystem {
             displayName: 'Tonic Water',
             color: 0xf0ffff,
             alcoholContent: 0,
-            category: LiquorCategory.MIXER
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.15,
+            storageTemperature: 4,
+            carbonation: 0.9,
+            flavor: { sweetness: 0.45, acidity: 0.1, bitterness: 0.35, aroma: { [AromaNote.CITRUS]: 0.2 } }
         });
 
         database.set('cola', {
@@ -268,15 +904,132 @@ export default class CocktailSystem {
             displayName: 'Cola',
             color: 0x3e2723,
             alcoholContent: 0,
+            density: 1.04,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.05,
+            storageTemperature: 4,
+            carbonation: 0.85,
+            flavor: { sweetness: 0.55, acidity: 0.15, bitterness: 0.05, aroma: { [AromaNote.SPICY]: 0.4 } }
+        });
+
+        database.set('ginger_beer', {
+            name: '薑汁啤酒',
+            displayName: 'Ginger Beer',
+            color: 0xe8d9a8,
+            alcoholContent: 0,
+            density: 1.04,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.2,
+            storageTemperature: 4,
+            carbonation: 0.8,
+            flavor: { sweetness: 0.5, acidity: 0.15, bitterness: 0.05, aroma: { [AromaNote.SPICY]: 0.9 } }
+        });
+
+        database.set('ginger_ale', {
+            name: '薑汁汽水',
+            displayName: 'Ginger Ale',
+            color: 0xf2e2b0,
+            alcoholContent: 0,
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.12,
+            storageTemperature: 4,
+            carbonation: 0.85,
+            flavor: { sweetness: 0.5, acidity: 0.1, bitterness: 0, aroma: { [AromaNote.SPICY]: 0.5 } }
+        });
+
+        database.set('grapefruit_soda', {
+            name: '葡萄柚汽水',
+            displayName: 'Grapefruit Soda',
+            color: 0xffc0cb,
+            alcoholContent: 0,
+            density: 1.04,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.12,
+            storageTemperature: 4,
+            carbonation: 0.85,
+            flavor: { sweetness: 0.5, acidity: 0.25, bitterness: 0.15, aroma: { [AromaNote.CITRUS]: 0.8 } }
+        });
+
+        database.set('water', {
+            name: '水',
+            displayName: 'Water',
+            color: 0xe6f2ff,
+            alcoholContent: 0,
+            density: 1.0,
             category: LiquorCategory.MIXER
         });
 
+        database.set('egg_white', {
+            name: '蛋白',
+            displayName: 'Egg White',
+            color: 0xfffde7,
+            alcoholContent: 0,
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.3,
+            storageTemperature: 4,
+            foaming: 1,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0, aroma: { [AromaNote.CREAMY]: 0.3 } }
+        });
+
+        database.set('aquafaba', {
+            name: '鷹嘴豆水',
+            displayName: 'Aquafaba',
+            color: 0xf3e5c0,
+            alcoholContent: 0,
+            density: 1.02,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.05,
+            storageTemperature: 4,
+            foaming: 0.8,
+            flavor: { sweetness: 0, acidity: 0, bitterness: 0, aroma: { [AromaNote.NUTTY]: 0.1, [AromaNote.CREAMY]: 0.2 } }
+        });
+
+        database.set('cream', {
+            name: '鮮奶油',
+            displayName: 'Cream',
+            color: 0xfffdf5,
+            alcoholContent: 0,
+            density: 1.01,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.3,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.1, acidity: 0, bitterness: 0, aroma: { [AromaNote.CREAMY]: 1 } }
+        });
+
+        database.set('egg_yolk', {
+            name: '蛋黃',
+            displayName: 'Egg Yolk',
+            color: 0xf6c343,
+            alcoholContent: 0,
+            density: 1.03,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.5,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.05, acidity: 0, bitterness: 0, aroma: { [AromaNote.CREAMY]: 0.6 } }
+        });
+
+        database.set('coffee', {
+            name: '咖啡',
+            displayName: 'Coffee',
+            color: 0x3b2417,
+            alcoholContent: 0,
+            density: 1.0,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.4,
+            flavor: { sweetness: 0, acidity: 0.15, bitterness: 0.6, aroma: { [AromaNote.COFFEE]: 1 } }
+        });
+
         database.set('liqueur', {
             name: '利口酒',
             displayName: 'Liqueur',
             color: 0xff6b9d,
             alcoholContent: 20,
-            category: LiquorCategory.LIQUEUR
+            density: 1.07,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0, aroma: { [AromaNote.FRUITY]: 0.6 } }
         });
 
         // === 利口酒和香艾酒類 ===
@@ -285,7 +1038,11 @@ export default class CocktailSystem {
             displayName: 'Dry Vermouth',
             color: 0xe8e8d0,
             alcoholContent: 18,
-            category: LiquorCategory.LIQUEUR
+            density: 1.02,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.6,
+            storageTemperature: 6,
+            flavor: { sweetness: 0.1, acidity: 0.1, bitterness: 0.2, aroma: { [AromaNote.HERBAL]: 0.8, [AromaNote.FLORAL]: 0.3 } }
         });
 
         database.set('vermouth_sweet', {
@@ -293,7 +1050,11 @@ export default class CocktailSystem {
             displayName: 'Sweet Vermouth',
             color: 0x8b4513,
             alcoholContent: 18,
-            category: LiquorCategory.LIQUEUR
+            density: 1.05,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.6,
+            storageTemperature: 6,
+            flavor: { sweetness: 0.45, acidity: 0.05, bitterness: 0.25, aroma: { [AromaNote.HERBAL]: 0.6, [AromaNote.SPICY]: 0.4 } }
         });
 
         database.set('campari', {
@@ -301,7 +1062,10 @@ export default class CocktailSystem {
             displayName: 'Campari',
             color: 0xdc143c,
             alcoholContent: 25,
-            category: LiquorCategory.LIQUEUR
+            density: 1.06,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.4, acidity: 0, bitterness: 0.9, aroma: { [AromaNote.CITRUS]: 0.5, [AromaNote.HERBAL]: 0.5 } }
         });
 
         database.set('triple_sec', {
@@ -309,7 +1073,10 @@ export default class CocktailSystem {
             displayName: 'Triple Sec',
             color: 0xffa500,
             alcoholContent: 40,
-            category: LiquorCategory.LIQUEUR
+            density: 1.04,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.9,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.CITRUS]: 0.9 } }
         });
 
         database.set('coconut_cream', {
@@ -317,7 +1084,11 @@ export default class CocktailSystem {
             displayName: 'Coconut Cream',
             color: 0xfffaf0,
             alcoholContent: 0,
-            category: LiquorCategory.MIXER
+            density: 1.06,
+            category: LiquorCategory.MIXER,
+            costPerMl: 0.3,
+            storageTemperature: 4,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0, aroma: { [AromaNote.TROPICAL]: 0.8, [AromaNote.CREAMY]: 0.8 } }
         });
 
         // === 額外添加的酒類，達到 25+ 種 ===
@@ -326,7 +1097,10 @@ export default class CocktailSystem {
             displayName: 'Coffee Liqueur',
             color: 0x3e2723,
             alcoholContent: 20,
-            category: LiquorCategory.LIQUEUR
+            density: 1.15,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.7, acidity: 0.05, bitterness: 0.3, aroma: { [AromaNote.COFFEE]: 1 } }
         });
 
         database.set('amaretto', {
@@ -334,7 +1108,10 @@ export default class CocktailSystem {
             displayName: 'Amaretto',
             color: 0xd2691e,
             alcoholContent: 28,
-            category: LiquorCategory.LIQUEUR
+            density: 1.1,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.1,
+            flavor: { sweetness: 0.7, acidity: 0, bitterness: 0.1, aroma: { [AromaNote.NUTTY]: 1 } }
         });
 
         database.set('baileys', {
@@ -342,7 +1119,10 @@ export default class CocktailSystem {
             displayName: 'Baileys',
             color: 0xd2b48c,
             alcoholContent: 17,
-            category: LiquorCategory.LIQUEUR
+            density: 1.06,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.CREAMY]: 1, [AromaNote.COFFEE]: 0.3 } }
         });
 
         database.set('blue_curacao', {
@@ -350,7 +1130,10 @@ export default class CocktailSystem {
             displayName: 'Blue Curaçao',
             color: 0x0000ff,
             alcoholContent: 21,
-            category: LiquorCategory.LIQUEUR
+            density: 1.11,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.8,
+            flavor: { sweetness: 0.65, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.CITRUS]: 0.8 } }
         });
 
         database.set('peach_schnapps', {
@@ -358,22 +1141,419 @@ export default class CocktailSystem {
             displayName: 'Peach Schnapps',
             color: 0xffdab9,
             alcoholContent: 20,
-            category: LiquorCategory.LIQUEUR
+            density: 1.05,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.8,
+            flavor: { sweetness: 0.65, acidity: 0.05, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('creme_de_cacao', {
+            name: '可可利口酒',
+            displayName: 'Crème de Cacao',
+            color: 0x5d3a1a,
+            alcoholContent: 25,
+            density: 1.12,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.75, acidity: 0, bitterness: 0.1, aroma: { [AromaNote.COFFEE]: 0.4, [AromaNote.CREAMY]: 0.4 } }
+        });
+
+        database.set('creme_de_menthe', {
+            name: '薄荷利口酒',
+            displayName: 'Crème de Menthe',
+            color: 0x2ecc71,
+            alcoholContent: 25,
+            density: 1.12,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.75, acidity: 0, bitterness: 0, aroma: { [AromaNote.HERBAL]: 1 } }
+        });
+
+        database.set('creme_de_violette', {
+            name: '紫羅蘭利口酒',
+            displayName: 'Crème de Violette',
+            color: 0x7d5ba6,
+            alcoholContent: 20,
+            density: 1.1,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0.7, acidity: 0, bitterness: 0, aroma: { [AromaNote.FLORAL]: 1 } }
+        });
+
+        database.set('creme_de_cassis', {
+            name: '黑醋栗利口酒',
+            displayName: 'Crème de Cassis',
+            color: 0x4a0e2e,
+            alcoholContent: 16,
+            density: 1.15,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.8, acidity: 0.2, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('creme_de_mure', {
+            name: '黑莓利口酒',
+            displayName: 'Crème de Mûre',
+            color: 0x3d0c2b,
+            alcoholContent: 16,
+            density: 1.14,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.2,
+            flavor: { sweetness: 0.8, acidity: 0.15, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('raspberry_liqueur', {
+            name: '覆盆子利口酒',
+            displayName: 'Raspberry Liqueur',
+            color: 0x8e1045,
+            alcoholContent: 16,
+            density: 1.12,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.4,
+            flavor: { sweetness: 0.75, acidity: 0.15, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('cherry_liqueur', {
+            name: '櫻桃利口酒',
+            displayName: 'Cherry Liqueur',
+            color: 0x8b0a1a,
+            alcoholContent: 24,
+            density: 1.1,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.4,
+            flavor: { sweetness: 0.75, acidity: 0.1, bitterness: 0.05, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('maraschino', {
+            name: '瑪拉斯奇諾',
+            displayName: 'Maraschino',
+            color: 0xf7f5ef,
+            alcoholContent: 32,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.FRUITY]: 0.6, [AromaNote.NUTTY]: 0.4, [AromaNote.FLORAL]: 0.3 } }
+        });
+
+        database.set('apricot_brandy', {
+            name: '杏桃白蘭地',
+            displayName: 'Apricot Brandy',
+            color: 0xe8912d,
+            alcoholContent: 24,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.1,
+            flavor: { sweetness: 0.65, acidity: 0.05, bitterness: 0, aroma: { [AromaNote.FRUITY]: 1 } }
+        });
+
+        database.set('galliano', {
+            name: '加利安諾',
+            displayName: 'Galliano',
+            color: 0xf4d03f,
+            alcoholContent: 30,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.5,
+            flavor: { sweetness: 0.7, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.HERBAL]: 0.7, [AromaNote.SPICY]: 0.4, [AromaNote.CREAMY]: 0.2 } }
+        });
+
+        database.set('drambuie', {
+            name: '吉寶蜂蜜酒',
+            displayName: 'Drambuie',
+            color: 0xc98a2b,
+            alcoholContent: 40,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0.65, acidity: 0, bitterness: 0.05, aroma: { [AromaNote.FLORAL]: 0.4, [AromaNote.SPICY]: 0.4, [AromaNote.WOODY]: 0.3 } }
+        });
+
+        database.set('benedictine', {
+            name: '班尼迪克汀',
+            displayName: 'Bénédictine',
+            color: 0xc8962e,
+            alcoholContent: 40,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.8,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0.15, aroma: { [AromaNote.HERBAL]: 0.8, [AromaNote.SPICY]: 0.4 } }
+        });
+
+        database.set('green_chartreuse', {
+            name: '綠蕁麻酒',
+            displayName: 'Green Chartreuse',
+            color: 0x7fb23a,
+            alcoholContent: 55,
+            density: 1.05,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 3.0,
+            flavor: { sweetness: 0.45, acidity: 0, bitterness: 0.25, aroma: { [AromaNote.HERBAL]: 1, [AromaNote.SPICY]: 0.4 } }
+        });
+
+        database.set('yellow_chartreuse', {
+            name: '黃蕁麻酒',
+            displayName: 'Yellow Chartreuse',
+            color: 0xe6c229,
+            alcoholContent: 40,
+            density: 1.08,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 3.0,
+            flavor: { sweetness: 0.6, acidity: 0, bitterness: 0.15, aroma: { [AromaNote.HERBAL]: 0.8, [AromaNote.FLORAL]: 0.4 } }
+        });
+
+        database.set('falernum', {
+            name: '法勒南',
+            displayName: 'Falernum',
+            color: 0xf1e4c3,
+            alcoholContent: 11,
+            density: 1.12,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.0,
+            flavor: { sweetness: 0.7, acidity: 0.1, bitterness: 0, aroma: { [AromaNote.SPICY]: 0.7, [AromaNote.CITRUS]: 0.3, [AromaNote.NUTTY]: 0.3 } }
+        });
+
+        database.set('aperol', {
+            name: '艾普羅',
+            displayName: 'Aperol',
+            color: 0xff5a1f,
+            alcoholContent: 11,
+            density: 1.06,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 0.7,
+            flavor: { sweetness: 0.55, acidity: 0.05, bitterness: 0.5, aroma: { [AromaNote.CITRUS]: 0.7, [AromaNote.HERBAL]: 0.3 } }
+        });
+
+        database.set('amaro', {
+            name: '義式苦酒',
+            displayName: 'Amaro Nonino',
+            color: 0xb5651d,
+            alcoholContent: 35,
+            density: 1.06,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.5,
+            flavor: { sweetness: 0.4, acidity: 0, bitterness: 0.6, aroma: { [AromaNote.HERBAL]: 0.6, [AromaNote.SPICY]: 0.3, [AromaNote.CITRUS]: 0.3 } }
+        });
+
+        database.set('fernet_branca', {
+            name: '芙內布蘭卡',
+            displayName: 'Fernet-Branca',
+            color: 0x2b1d14,
+            alcoholContent: 39,
+            density: 1.04,
+            category: LiquorCategory.LIQUEUR,
+            costPerMl: 1.6,
+            flavor: { sweetness: 0.15, acidity: 0, bitterness: 1, aroma: { [AromaNote.HERBAL]: 1, [AromaNote.SPICY]: 0.4 } }
+        });
+
+        // === 葡萄酒與加烈酒 ===
+        database.set('lillet_blanc', {
+            name: '白麗葉酒',
+            displayName: 'Lillet Blanc',
+            color: 0xf5e6a8,
+            alcoholContent: 17,
+            density: 1.03,
+            category: LiquorCategory.WINE,
+            costPerMl: 0.9,
+            storageTemperature: 6,
+            flavor: { sweetness: 0.35, acidity: 0.1, bitterness: 0.15, aroma: { [AromaNote.CITRUS]: 0.5, [AromaNote.FLORAL]: 0.4 } }
+        });
+
+        database.set('port', {
+            name: '波特酒',
+            displayName: 'Port',
+            color: 0x5e1224,
+            alcoholContent: 20,
+            density: 1.05,
+            category: LiquorCategory.WINE,
+            costPerMl: 0.8,
+            flavor: { sweetness: 0.55, acidity: 0.1, bitterness: 0.05, aroma: { [AromaNote.FRUITY]: 0.8, [AromaNote.WOODY]: 0.3 } }
+        });
+
+        database.set('white_wine', {
+            name: '白葡萄酒',
+            displayName: 'White Wine',
+            color: 0xf3eeb4,
+            alcoholContent: 12,
+            density: 0.99,
+            category: LiquorCategory.WINE,
+            costPerMl: 0.5,
+            storageTemperature: 6,
+            flavor: { sweetness: 0.1, acidity: 0.35, bitterness: 0.05, aroma: { [AromaNote.FRUITY]: 0.5, [AromaNote.FLORAL]: 0.3 } }
+        });
+
+        database.set('red_wine', {
+            name: '紅葡萄酒',
+            displayName: 'Red Wine',
+            color: 0x6d0e1e,
+            alcoholContent: 13,
+            density: 0.99,
+            category: LiquorCategory.WINE,
+            costPerMl: 0.5,
+            flavor: { sweetness: 0.1, acidity: 0.3, bitterness: 0.25, aroma: { [AromaNote.FRUITY]: 0.7, [AromaNote.WOODY]: 0.3 } }
+        });
+
+        database.set('sparkling_wine', {
+            name: '氣泡酒',
+            displayName: 'Champagne / Prosecco',
+            color: 0xf6edc0,
+            alcoholContent: 12,
+            density: 0.99,
+            category: LiquorCategory.WINE,
+            costPerMl: 0.5,
+            storageTemperature: 6,
+            carbonation: 0.8,
+            flavor: { sweetness: 0.15, acidity: 0.35, bitterness: 0.05, aroma: { [AromaNote.FRUITY]: 0.5, [AromaNote.FLORAL]: 0.3 } }
+        });
+
+        return database;
+    }
+
+    /**
+     * 初始化冰塊資料庫
+     */
+    private initIceDatabase(): Map<IceType, IceData> {
+        const database = new Map<IceType, IceData>();
+
+        database.set(IceType.CUBES, {
+            name: '方冰',
+            displayName: 'Ice Cubes',
+            meltRate: 0.15,
+            chillRate: 0.04,
+            scoopAmount: 40
+        });
+
+        // 碎冰表面積大，融得快也冰得快
+        database.set(IceType.CRUSHED, {
+            name: '碎冰',
+            displayName: 'Crushed Ice',
+            meltRate: 0.5,
+            chillRate: 0.08,
+            scoopAmount: 50
+        });
+
+        // 大冰塊融得慢，適合純飲與古典杯
+        database.set(IceType.ROCK, {
+            name: '大冰塊',
+            displayName: 'Large Rock',
+            meltRate: 0.05,
+            chillRate: 0.02,
+            scoopAmount: 60,
+            maxPieces: 1
+        });
+
+        return database;
+    }
+
+    /**
+     * 初始化固體材料資料庫
+     */
+    private initSolidDatabase(): Map<string, SolidData> {
+        const database = new Map<string, SolidData>();
+
+        // 薄荷只釋放香氣，不增加液體
+        database.set('mint', {
+            name: '薄荷葉',
+            displayName: 'Mint Leaves',
+            color: 0x3cb043,
+            aroma: { [AromaNote.HERBAL]: 3 },
+            cost: 3
+        });
+
+        database.set('lime_wedge', {
+            name: '萊姆角',
+            displayName: 'Lime Wedge',
+            color: 0x9acd32,
+            yield: { type: 'lime_juice', amount: 8 },
+            aroma: { [AromaNote.CITRUS]: 2 },
+            cost: 4
+        });
+
+        // 方糖壓碎後溶解，以等量糖漿計
+        database.set('sugar_cube', {
+            name: '方糖',
+            displayName: 'Sugar Cube',
+            color: 0xfafafa,
+            yield: { type: 'simple_syrup', amount: 4 },
+            cost: 1
         });
 
+        database.set('berries', {
+            name: '莓果',
+            displayName: 'Berries',
+            color: 0xb0224a,
+            yield: { type: 'berry_juice', amount: 5 },
+            aroma: { [AromaNote.FRUITY]: 1 },
+            cost: 6
+        });
+
+        return database;
+    }
+
+    /**
+     * 初始化裝飾物資料庫
+     */
+    private initGarnishDatabase(): Map<string, GarnishData> {
+        const database = new Map<string, GarnishData>();
+        const add = (type: string, name: string, displayName: string, color: number, placement: GarnishPlacement): void => {
+            database.set(type, { name, displayName, color, placement });
+        };
+
+        // 掛在杯緣
+        add('lemon_peel', '檸檬皮', 'Lemon Peel', 0xf5d90a, GarnishPlacement.RIM);
+        add('orange_peel', '柳橙皮', 'Orange Peel', 0xf28c28, GarnishPlacement.RIM);
+        add('lime_peel', '萊姆皮', 'Lime Peel', 0x6fbf3a, GarnishPlacement.RIM);
+        add('lemon_wheel', '檸檬片', 'Lemon Wheel', 0xf7e35a, GarnishPlacement.RIM);
+        add('orange_wheel', '柳橙片', 'Orange Wheel', 0xf5a03c, GarnishPlacement.RIM);
+        add('lime_wheel', '萊姆片', 'Lime Wheel', 0x8fd14f, GarnishPlacement.RIM);
+        add('pineapple_wedge', '鳳梨角', 'Pineapple Wedge', 0xf2c94c, GarnishPlacement.RIM);
+
+        // 放入酒中
+        add('cherry', '櫻桃', 'Cherry', 0xb3001b, GarnishPlacement.DRINK);
+        add('olive', '橄欖', 'Olive', 0x6b8e23, GarnishPlacement.DRINK);
+        add('cocktail_onion', '珍珠洋蔥', 'Cocktail Onion', 0xf0ead6, GarnishPlacement.DRINK);
+        add('mint_sprig', '薄荷枝', 'Mint Sprig', 0x3cb043, GarnishPlacement.DRINK);
+        add('celery', '芹菜棒', 'Celery Stalk', 0x9ccc65, GarnishPlacement.DRINK);
+
         return database;
     }
 
     /**
      * 初始化容器（杯子、Shaker）
      */
-    public initContainer(container: BABYLON.TransformNode, maxVolume: number = 300): void {
+    public initContainer(
+        container: BABYLON.TransformNode,
+        maxVolume: number = 300,
+        innerProfile: ProfilePoint[] = DEFAULT_INNER_PROFILE
+    ): void {
         this.containerContents.set(container, {
             ingredients: [],
             color: 0xffffff,
             volume: 0,
             maxVolume: maxVolume,
-            liquidMesh: null
+            liquidMesh: null,
+            actions: [],
+            ice: [],
+            iceMeshes: [],
+            solids: [],
+            solidMeshes: [],
+            layers: [],
+            innerProfile: innerProfile,
+            liquidLevel: innerProfile[0].y,
+            layerLevels: [],
+            temperature: this.AMBIENT_TEMPERATURE,
+            glassTemperature: this.AMBIENT_TEMPERATURE,
+            frostMesh: null,
+            sealed: false,
+            measureLines: [],
+            strainer: null,
+            pendingSpill: 0,
+            frozenIce: 0,
+            garnishes: [],
+            rim: null,
+            glassType: null,
+            carbonation: 0,
+            foam: 0,
+            foamLevel: innerProfile[0].y
         });
 
         // 創建液體視覺效果
@@ -381,91 +1561,189 @@ export default class CocktailSystem {
     }
 
     /**
-     * 創建液體視覺效果
+     * 創建液體視覺效果（依內壁輪廓建立一次，之後只更新著色器參數）
      */
     private createLiquidVisual(container: BABYLON.TransformNode): void {
         const contents = this.containerContents.get(container);
         if (!contents) return;
 
-        // 創建液體網格 - 使用圓柱體
-        const liquidMesh = BABYLON.MeshBuilder.CreateCylinder(
+        // 以內壁輪廓旋轉成形，由杯底中心開始以封住底部；頂部不封口，液面由著色器裁切產生
+        const profile = contents.innerProfile;
+        const shape = [new BABYLON.Vector3(0, profile[0].y, 0)].concat(
+            profile.map(point => new BABYLON.Vector3(point.radius, point.y, 0))
+        );
+        const liquidMesh = BABYLON.MeshBuilder.CreateLathe(
             `liquid_${container.name}`,
-            {
-                diameterTop: 0.3,
-                diameterBottom: 0.28,
-                height: 0.01,
-                tessellation: 32
-            },
+            { shape, tessellation: 32 },
             this.scene
         );
 
         // 創建液體材質
-        const liquidMaterial = new BABYLON.PBRMaterial(`liquidMat_${container.name}`, this.scene);
-        liquidMaterial.albedoColor = BABYLON.Color3.FromHexString('#ffffff');
-        liquidMaterial.metallic = 0.1;
-        liquidMaterial.roughness = 0.3;
-        liquidMaterial.alpha = 0.8;
-        liquidMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        const liquidMaterial = new BABYLON.ShaderMaterial(
+            `liquidMat_${container.name}`,
+            this.scene,
+            LIQUID_SHADER_NAME,
+            {
+                attributes: ['position', 'normal'],
+                uniforms: [
+                    'world', 'worldViewProjection', 'cameraPosition',
+                    'axisOrigin', 'axisUp', 'surfaceHeight', 'rimRadius', 'meniscusHeight',
+                    'layerCount', 'layerTops', 'layerColors', 'opacity', 'frozen', 'foamHeight'
+                ],
+                needAlphaBlending: true
+            }
+        );
+        liquidMaterial.backFaceCulling = false;
+        liquidMaterial.setFloat('opacity', 0.8);
+        liquidMaterial.setFloat('meniscusHeight', this.MENISCUS_HEIGHT);
+        liquidMaterial.setFloat('frozen', 0);
+        liquidMaterial.setFloat('foamHeight', 0);
 
         liquidMesh.material = liquidMaterial;
         liquidMesh.parent = container;
-        liquidMesh.position = new BABYLON.Vector3(0, 0.08, 0);
+        liquidMesh.isPickable = false;
         liquidMesh.isVisible = false; // 初始隱藏
 
         contents.liquidMesh = liquidMesh;
     }
 
     /**
-     * 更新液體視覺效果
+     * 更新液體視覺效果：計算液面與各液層高度、顏色（幾何體不變）
      */
     private updateLiquidVisual(container: BABYLON.TransformNode): void {
         const contents = this.containerContents.get(container);
         if (!contents || !contents.liquidMesh) return;
 
-        const fillRatio = contents.volume / contents.maxVolume;
+        // 冰塊會排開液體，液面高度以總佔用體積計算
+        const fillRatio = contents.volume > 0 ? Math.min(1, this.getFillVolume(contents) / contents.maxVolume) : 0;
 
-        if (fillRatio > 0) {
-            // 顯示液體
-            contents.liquidMesh.isVisible = true;
+        if (fillRatio <= 0) {
+            // 隱藏液體
+            contents.liquidMesh.isVisible = false;
+            contents.liquidLevel = contents.innerProfile[0].y;
+            contents.foamLevel = contents.liquidLevel;
+            contents.layerLevels = [];
+            return;
+        }
 
-            // 更新高度
-            const maxHeight = 0.55; // 杯子可用高度
-            const liquidHeight = Math.max(0.01, Math.min(maxHeight * fillRatio, maxHeight));
+        // 顯示液體
+        contents.liquidMesh.isVisible = true;
+        contents.liquidLevel = this.getProfileLevel(contents.innerProfile, fillRatio);
+
+        // 泡沫層疊在液面上（最多到杯口）
+        contents.foamLevel = contents.foam > 0.5
+            ? this.getProfileLevel(contents.innerProfile, (this.getFillVolume(contents) + contents.foam) / contents.maxVolume)
+            : contents.liquidLevel;
+
+        // 各液層高度與顏色（未分層時為單一混合色）
+        const layers = contents.layers.length > 1
+            ? contents.layers
+            : [{ amount: contents.volume, color: contents.color }];
+        const shownLayers = Math.min(layers.length, LIQUID_MAX_LAYERS);
+
+        let accumulated = 0;
+        contents.layerLevels = [];
+        const colors: number[] = [];
+        for (let i = 0; i < LIQUID_MAX_LAYERS; i++) {
+            const layer = layers[Math.min(i, layers.length - 1)];
+            if (i < shownLayers) {
+                accumulated += layer.amount;
+            }
 
-            // 計算半徑
-            const bottomRadius = 0.14;
-            const topRadius = 0.12 + (fillRatio * 0.02);
+            // 最後一個顯示的液層延伸到液面
+            const level = i < shownLayers - 1
+                ? this.getProfileLevel(contents.innerProfile, fillRatio * accumulated / contents.volume)
+                : contents.liquidLevel;
+            contents.layerLevels.push(level);
 
-            // 重新創建幾何體
-            const newLiquid = BABYLON.MeshBuilder.CreateCylinder(
-                `liquid_${container.name}`,
-                {
-                    diameterTop: topRadius * 2,
-                    diameterBottom: bottomRadius * 2,
-                    height: liquidHeight,
-                    tessellation: 32
-                },
-                this.scene
-            );
+            const color = BABYLON.Color3.FromHexString('#' + layer.color.toString(16).padStart(6, '0'));
+            colors.push(color.r, color.g, color.b);
+        }
+
+        const material = contents.liquidMesh.material as BABYLON.ShaderMaterial;
+        material.setFloat('layerCount', shownLayers);
+        material.setArray3('layerColors', colors);
+
+        this.updateLiquidSurface(container, contents);
+    }
+
+    /**
+     * 更新液面著色器參數（每幀調用，容器移動或傾斜時液面保持水平）
+     */
+    private updateLiquidSurface(container: BABYLON.TransformNode, contents: ContainerContents): void {
+        if (!contents.liquidMesh || !contents.liquidMesh.isVisible) return;
+
+        const worldMatrix = container.computeWorldMatrix();
+        const toWorld = (y: number): BABYLON.Vector3 =>
+            BABYLON.Vector3.TransformCoordinates(new BABYLON.Vector3(0, y, 0), worldMatrix);
+
+        const axisOrigin = toWorld(contents.innerProfile[0].y);
+        const axisUp = BABYLON.Vector3.TransformNormal(BABYLON.Vector3.Up(), worldMatrix).normalize();
+
+        const material = contents.liquidMesh.material as BABYLON.ShaderMaterial;
+        material.setVector3('axisOrigin', axisOrigin);
+        material.setVector3('axisUp', axisUp);
+        material.setFloat('surfaceHeight', toWorld(contents.liquidLevel).y);
+        material.setFloat('foamHeight', toWorld(contents.foamLevel).y - toWorld(contents.liquidLevel).y);
+        material.setFloat('rimRadius', this.getProfileRadius(contents.innerProfile, contents.liquidLevel));
+        material.setFloats('layerTops', contents.layerLevels.map(level => toWorld(level).y));
+        material.setFloat('frozen', Math.min(1, this.getFrozenRatio(contents) / this.MIN_FROZEN_RATIO));
+    }
+
+    /**
+     * 依填充比例（以內壁容積計）求出液面高度
+     */
+    private getProfileLevel(profile: ProfilePoint[], fillRatio: number): number {
+        // 各段視為圓台，先求總容積
+        const frustumVolume = (r1: number, r2: number, h: number): number =>
+            Math.PI * h * (r1 * r1 + r1 * r2 + r2 * r2) / 3;
+
+        let totalVolume = 0;
+        for (let i = 1; i < profile.length; i++) {
+            totalVolume += frustumVolume(profile[i - 1].radius, profile[i].radius, profile[i].y - profile[i - 1].y);
+        }
+
+        let remaining = Math.max(0, Math.min(1, fillRatio)) * totalVolume;
+        for (let i = 1; i < profile.length; i++) {
+            const bottom = profile[i - 1];
+            const top = profile[i];
+            const segmentHeight = top.y - bottom.y;
+            const segmentVolume = frustumVolume(bottom.radius, top.radius, segmentHeight);
+
+            if (remaining <= segmentVolume) {
+                // 在此段內二分搜尋液面高度
+                let low = 0;
+                let high = segmentHeight;
+                for (let step = 0; step < 16; step++) {
+                    const mid = (low + high) / 2;
+                    const radius = bottom.radius + (top.radius - bottom.radius) * (mid / segmentHeight);
+                    if (frustumVolume(bottom.radius, radius, mid) < remaining) {
+                        low = mid;
+                    } else {
+                        high = mid;
+                    }
+                }
+                return bottom.y + (low + high) / 2;
+            }
 
-            // 複製材質和父級關係
-            newLiquid.material = contents.liquidMesh.material;
-            newLiquid.parent = container;
-            newLiquid.position = new BABYLON.Vector3(0, 0.08 + liquidHeight / 2, 0);
+            remaining -= segmentVolume;
+        }
 
-            // 刪除舊網格
-            contents.liquidMesh.dispose();
-            contents.liquidMesh = newLiquid;
+        return profile[profile.length - 1].y;
+    }
 
-            // 更新顏色
-            const material = contents.liquidMesh.material as BABYLON.PBRMaterial;
-            if (material) {
-                material.albedoColor = BABYLON.Color3.FromHexString('#' + contents.color.toString(16).padStart(6, '0'));
+    /**
+     * 取得指定高度的內壁半徑
+     */
+    private getProfileRadius(profile: ProfilePoint[], y: number): number {
+        for (let i = 1; i < profile.length; i++) {
+            if (y <= profile[i].y) {
+                const bottom = profile[i - 1];
+                const t = Math.max(0, (y - bottom.y) / (profile[i].y - bottom.y));
+                return bottom.radius + (profile[i].radius - bottom.radius) * t;
             }
-        } else {
-            // 隱藏液體
-            contents.liquidMesh.isVisible = false;
         }
+        return profile[profile.length - 1].radius;
     }
 
     /**
@@ -476,13 +1754,14 @@ export default class CocktailSystem {
         targetContainer: BABYLON.TransformNode,
         liquorType: string,
         deltaTime: number,
-        camera?: BABYLON.Camera
+        camera?: BABYLON.Camera,
+        gentle: boolean = false
     ): void {
         const contents = this.containerContents.get(targetContainer);
         if (!contents) return;
 
         // 檢查容器是否已滿
-        if (contents.volume >= contents.maxVolume) {
+        if (this.getFillVolume(contents) >= contents.maxVolume) {
             console.log('容器已滿！');
             return;
         }
@@ -514,28 +1793,39 @@ export default class CocktailSystem {
             }
         }
 
-        // 倒酒速度（ml/秒）
-        const amountPoured = this.pourRate * deltaTime;
+        // 空瓶無法倒酒
+        const stock = this.bottleStock.get(bottle);
+        if (stock && stock.remaining <= 0) {
+            this.stopPouring();
+            return;
+        }
+
+        // 倒酒速度（ml/秒），慢倒（沿吧匙背面）較慢但能保持分層
+        let amountPoured = this.pourRate * deltaTime * (gentle ? this.GENTLE_POUR_FACTOR : 1);
 
         // 添加酒水
         const liquor = this.liquorDatabase.get(liquorType);
         if (liquor) {
-            // 檢查是否已經有相同類型的材料
-            const existingIngredient = contents.ingredients.find(ing => ing.type === liquorType);
-
-            if (existingIngredient) {
-                existingIngredient.amount += amountPoured;
-            } else {
-                contents.ingredients.push({
-                    type: liquorType,
-                    name: liquor.name,
-                    displayName: liquor.displayName || liquor.name,
-                    amount: amountPoured,
-                    color: liquor.color
-                });
+            // 從酒瓶扣除庫存
+            if (stock) {
+                amountPoured = Math.min(amountPoured, stock.remaining);
+                stock.remaining -= amountPoured;
+                this.updateBottleVisual(stock);
+
+                if (stock.remaining <= 0) {
+                    console.log(`${liquor.displayName} 已倒空，請到庫存箱補貨`);
+                }
             }
 
-            contents.volume += amountPoured;
+            this.addIngredient(contents, liquorType, amountPoured, undefined, gentle);
+            this.usageCost += amountPoured * (liquor.costPerMl ?? 0);
+
+            // 記錄倒酒動作
+            this.recordAction(contents, {
+                type: ContainerActionType.POUR,
+                ingredient: liquorType,
+                amount: amountPoured
+            });
 
             // 重新計算混合顏色
             this.updateMixedColor(targetContainer);
@@ -575,13 +1865,174 @@ export default class CocktailSystem {
     }
 
     /**
-     * 停止倒酒
+     * 加入材料到容器（同類材料合併）
      */
-    public stopPouring(): void {
-        // 恢復酒瓶旋轉
-        if (this.currentPouringBottle && this.originalBottleRotation) {
-            this.currentPouringBottle.rotation.copyFrom(this.originalBottleRotation);
-        }
+    private addIngredient(
+        contents: ContainerContents,
+        type: string,
+        amount: number,
+        temperature?: number,
+        gentle: boolean = false
+    ): void {
+        const liquor = this.liquorDatabase.get(type);
+        if (!liquor || amount <= 0) return;
+
+        // 依體積加權混合溫度
+        const ingredientTemperature = temperature ?? liquor.storageTemperature ?? this.AMBIENT_TEMPERATURE;
+        contents.temperature = this.mixTemperature(
+            contents.temperature, contents.volume, ingredientTemperature, amount
+        );
+
+        // 碳酸材料倒入時會損失少量氣泡
+        if (liquor.carbonation) {
+            this.mixCarbonation(contents, amount, liquor.carbonation * (1 - this.POUR_FIZZ_LOSS));
+        }
+
+        const existingIngredient = contents.ingredients.find(ing => ing.type === type);
+
+        if (existingIngredient) {
+            existingIngredient.amount += amount;
+        } else {
+            contents.ingredients.push({
+                type,
+                name: liquor.name,
+                displayName: liquor.displayName || liquor.name,
+                amount,
+                color: liquor.color
+            });
+        }
+
+        contents.volume += amount;
+
+        this.addToLayers(contents, amount, liquor.color, liquor.density ?? 1, gentle);
+    }
+
+    /**
+     * 將液體加入分層：慢倒時依密度形成獨立液層，一般倒入則與最上層混合後再沉降
+     */
+    private addToLayers(
+        contents: ContainerContents,
+        amount: number,
+        color: number,
+        density: number,
+        gentle: boolean
+    ): void {
+        const incoming = { amount, color, density };
+        const top = contents.layers[contents.layers.length - 1];
+
+        if (!gentle && top) {
+            contents.layers[contents.layers.length - 1] = this.mergeLayers(top, incoming);
+        } else {
+            // 由上往下找到密度不小於自己的液層，停在它上方
+            let index = contents.layers.length;
+            while (index > 0 && contents.layers[index - 1].density < density - this.LAYER_DENSITY_THRESHOLD) {
+                index--;
+            }
+
+            const below = contents.layers[index - 1];
+            if (below && Math.abs(below.density - density) <= this.LAYER_DENSITY_THRESHOLD) {
+                contents.layers[index - 1] = this.mergeLayers(below, incoming);
+            } else {
+                contents.layers.splice(index, 0, incoming);
+            }
+        }
+
+        this.settleLayers(contents);
+    }
+
+    /**
+     * 合併兩個液層（體積加權顏色與密度）
+     */
+    private mergeLayers(
+        a: { amount: number; color: number; density: number },
+        b: { amount: number; color: number; density: number }
+    ): { amount: number; color: number; density: number } {
+        const total = a.amount + b.amount;
+        if (total <= 0) return { ...a };
+
+        const colorA = BABYLON.Color3.FromHexString('#' + a.color.toString(16).padStart(6, '0'));
+        const colorB = BABYLON.Color3.FromHexString('#' + b.color.toString(16).padStart(6, '0'));
+        const mixed = BABYLON.Color3.Lerp(colorA, colorB, b.amount / total);
+
+        return {
+            amount: total,
+            color: parseInt(mixed.toHexString().substring(1), 16),
+            density: (a.density * a.amount + b.density * b.amount) / total
+        };
+    }
+
+    /**
+     * 沉降：上層比下層重時兩層互溶，直到由下而上密度遞減
+     */
+    private settleLayers(contents: ContainerContents): void {
+        let index = contents.layers.length - 1;
+        while (index > 0) {
+            const upper = contents.layers[index];
+            const lower = contents.layers[index - 1];
+
+            if (upper.density > lower.density + this.LAYER_DENSITY_THRESHOLD ||
+                Math.abs(upper.density - lower.density) <= this.LAYER_DENSITY_THRESHOLD) {
+                contents.layers.splice(index - 1, 2, this.mergeLayers(lower, upper));
+                index = contents.layers.length - 1;
+            } else {
+                index--;
+            }
+        }
+    }
+
+    /**
+     * 將所有液層混合為一層（搖盪、攪拌後）
+     */
+    private collapseLayers(contents: ContainerContents): void {
+        if (contents.layers.length <= 1) return;
+        contents.layers = [contents.layers.reduce((mixed, layer) => this.mergeLayers(mixed, layer))];
+    }
+
+    /**
+     * 按比例從各液層取出液體（Shaker 倒出時）
+     */
+    private removeFromLayers(contents: ContainerContents, amount: number): void {
+        const total = contents.layers.reduce((sum, layer) => sum + layer.amount, 0);
+        if (total <= 0) return;
+
+        const ratio = Math.min(1, amount / total);
+        contents.layers.forEach(layer => {
+            layer.amount -= layer.amount * ratio;
+        });
+        contents.layers = contents.layers.filter(layer => layer.amount > 0.01);
+    }
+
+    /**
+     * 計算液層的平均密度
+     */
+    private getAverageDensity(contents: ContainerContents): number {
+        const total = contents.layers.reduce((sum, layer) => sum + layer.amount, 0);
+        if (total <= 0) return 1;
+        return contents.layers.reduce((sum, layer) => sum + layer.density * layer.amount, 0) / total;
+    }
+
+    /**
+     * 依體積加權計算混合後溫度
+     */
+    private mixTemperature(
+        currentTemperature: number,
+        currentVolume: number,
+        addedTemperature: number,
+        addedVolume: number
+    ): number {
+        const totalVolume = currentVolume + addedVolume;
+        if (totalVolume <= 0) return addedTemperature;
+        return (currentTemperature * currentVolume + addedTemperature * addedVolume) / totalVolume;
+    }
+
+    /**
+     * 停止倒酒
+     */
+    public stopPouring(): void {
+        // 恢復酒瓶旋轉
+        if (this.currentPouringBottle && this.originalBottleRotation) {
+            this.currentPouringBottle.rotation.copyFrom(this.originalBottleRotation);
+        }
 
         this.isPouringActive = false;
         this.currentPouringBottle = null;
@@ -616,65 +2067,165 @@ export default class CocktailSystem {
 
         if (!shakerContents || !targetContents) return;
         if (shakerContents.volume <= 0) return;
-        if (targetContents.volume >= targetContents.maxVolume) return;
+        if (this.getFillVolume(targetContents) >= targetContents.maxVolume) return;
 
         // 倒酒速度
         const amountToPour = Math.min(
             this.pourRate * deltaTime,
             shakerContents.volume,
-            targetContents.maxVolume - targetContents.volume
+            targetContents.maxVolume - this.getFillVolume(targetContents)
         );
 
-        // 轉移材料
-        shakerContents.ingredients.forEach(ingredient => {
-            const ratio = amountToPour / shakerContents.volume;
-            const transferAmount = ingredient.amount * ratio;
+        // 只倒出液體，冰塊被濾網留在 Shaker 內；記錄濾酒動作（Cobbler Shaker 內建濾網）
+        this.transferLiquid(shakerContents, targetContents, shaker.name, amountToPour, ContainerActionType.STRAIN);
 
-            // 從 Shaker 減少
-            ingredient.amount -= transferAmount;
+        // 更新顏色和視覺效果
+        this.updateMixedColor(shaker);
+        this.updateMixedColor(targetContainer);
+        this.updateLiquidVisual(shaker);
+        this.updateLiquidVisual(targetContainer);
 
-            // 添加到目標容器
-            const existingIngredient = targetContents.ingredients.find(
-                ing => ing.type === ingredient.type
-            );
+        // 更新進度條 UI
+        this.updatePourProgressUI(targetContainer, amountToPour);
 
-            if (existingIngredient) {
-                existingIngredient.amount += transferAmount;
-            } else {
-                targetContents.ingredients.push({
-                    type: ingredient.type,
-                    name: ingredient.name,
-                    displayName: ingredient.displayName,
-                    amount: transferAmount,
-                    color: ingredient.color
-                });
-            }
-        });
+        this.updatePourEffect(shaker, targetContainer, amountToPour, deltaTime);
+    }
 
-        // 更新體積
-        shakerContents.volume -= amountToPour;
-        targetContents.volume += amountToPour;
+    /**
+     * 從調酒杯（或果汁機杯壺）倒出：架上濾冰器時只倒出酒液，否則冰塊也會一起倒入
+     */
+    public pourFromMixingGlass(
+        mixingGlass: BABYLON.TransformNode,
+        targetContainer: BABYLON.TransformNode,
+        deltaTime: number
+    ): void {
+        const sourceContents = this.containerContents.get(mixingGlass);
+        const targetContents = this.containerContents.get(targetContainer);
 
-        // 清理 Shaker 中量為 0 的材料
-        shakerContents.ingredients = shakerContents.ingredients.filter(
-            ing => ing.amount > 0.01
-        );
+        if (!sourceContents || !targetContents) return;
+        if (sourceContents.volume <= 0) return;
 
-        // 更新顏色和視覺效果
-        this.updateMixedColor(shaker);
+        const room = targetContents.maxVolume - this.getFillVolume(targetContents);
+        if (room <= 0) return;
+
+        const strainer = sourceContents.strainer;
+        const flowFactor = strainer ? STRAINER_DATA[strainer.type].flowFactor : 1;
+        const amountToPour = Math.min(this.pourRate * flowFactor * deltaTime, sourceContents.volume, room);
+
+        if (strainer) {
+            this.transferLiquid(sourceContents, targetContents, mixingGlass.name, amountToPour, ContainerActionType.STRAIN);
+        } else {
+            // 沒有濾冰器，冰塊隨酒液一起滑入
+            this.transferIce(sourceContents, targetContents, amountToPour / sourceContents.volume);
+            this.transferLiquid(sourceContents, targetContents, mixingGlass.name, amountToPour, ContainerActionType.TRANSFER);
+            this.updateIceVisual(mixingGlass);
+            this.updateIceVisual(targetContainer);
+        }
+
+        // 倒完後濾冰器放回原位
+        if (sourceContents.volume <= 0.01 && strainer) {
+            this.detachStrainer(mixingGlass);
+        }
+
+        this.updateMixedColor(mixingGlass);
         this.updateMixedColor(targetContainer);
-        this.updateLiquidVisual(shaker);
+        this.updateLiquidVisual(mixingGlass);
         this.updateLiquidVisual(targetContainer);
 
-        // 更新進度條 UI
         this.updatePourProgressUI(targetContainer, amountToPour);
 
+        this.updatePourEffect(mixingGlass, targetContainer, amountToPour, deltaTime);
+    }
+
+    /**
+     * 按比例轉移冰塊
+     */
+    private transferIce(source: ContainerContents, target: ContainerContents, ratio: number): void {
+        const clampedRatio = Math.max(0, Math.min(1, ratio));
+
+        source.ice.forEach(ice => {
+            const amount = ice.amount * clampedRatio;
+            if (amount <= 0) return;
+
+            ice.amount -= amount;
+            const existing = target.ice.find(targetIce => targetIce.type === ice.type);
+            if (existing) {
+                existing.amount += amount;
+            } else {
+                target.ice.push({ type: ice.type, amount });
+            }
+        });
+
+        source.ice = source.ice.filter(ice => ice.amount > 0.5);
+    }
+
+    /**
+     * 將濾冰器架在容器杯口
+     */
+    public attachStrainer(container: BABYLON.TransformNode, strainer: BABYLON.TransformNode, type: StrainerType): boolean {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.strainer) return false;
+
+        const rim = contents.innerProfile[contents.innerProfile.length - 1];
+        strainer.parent = container;
+        strainer.position = new BABYLON.Vector3(0, rim.y + 0.01, 0);
+        strainer.rotationQuaternion = BABYLON.Quaternion.Identity();
+        if (strainer instanceof BABYLON.AbstractMesh) {
+            strainer.isPickable = false;
+        }
+
+        contents.strainer = { type, mesh: strainer };
+        console.log(`✓ 架上${STRAINER_DATA[type].name}`);
+        return true;
+    }
+
+    /**
+     * 檢查容器是否已架上濾冰器
+     */
+    public hasStrainer(container: BABYLON.TransformNode): boolean {
+        return !!this.containerContents.get(container)?.strainer;
+    }
+
+    /**
+     * 取下濾冰器並放回原位
+     */
+    private detachStrainer(container: BABYLON.TransformNode): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || !contents.strainer) return;
+
+        const strainer = contents.strainer.mesh as InteractableObject;
+        strainer.parent = null;
+        strainer.rotationQuaternion = BABYLON.Quaternion.Identity();
+        if (strainer.userData?.originalPosition) {
+            strainer.position = strainer.userData.originalPosition.clone();
+        }
+        strainer.isPickable = true;
+
+        contents.strainer = null;
+    }
+
+    /**
+     * 獲取濾冰器名稱
+     */
+    public getStrainerName(type: StrainerType): string {
+        return STRAINER_DATA[type].name;
+    }
+
+    /**
+     * 倒酒粒子與傾斜動畫（Shaker、調酒杯倒出時共用）
+     */
+    private updatePourEffect(
+        source: BABYLON.TransformNode,
+        targetContainer: BABYLON.TransformNode,
+        amount: number,
+        deltaTime: number
+    ): void {
         // 創建倒酒效果
         if (!this.isPouringActive) {
-            this.createPourParticles(shaker, targetContainer);
+            this.createPourParticles(source, targetContainer);
             this.isPouringActive = true;
-            this.currentPouringBottle = shaker;
-            this.originalBottleRotation = shaker.rotation.clone();
+            this.currentPouringBottle = source;
+            this.originalBottleRotation = source.rotation.clone();
             this.currentPouringAmount = 0;
 
             if (this.pourProgressHideTimer) {
@@ -683,7 +2234,7 @@ export default class CocktailSystem {
             }
         }
 
-        this.currentPouringAmount += amountToPour;
+        this.currentPouringAmount += amount;
 
         // 傾斜動畫
         if (this.currentPouringBottle) {
@@ -726,6 +2277,228 @@ export default class CocktailSystem {
         }
     }
 
+    /**
+     * 在容器間轉移液體（冰塊留在來源容器），目標容器繼承來源的調製手法
+     */
+    private transferLiquid(
+        source: ContainerContents,
+        target: ContainerContents,
+        sourceName: string,
+        amount: number,
+        type: ContainerActionType
+    ): void {
+        if (amount <= 0 || source.volume <= 0) return;
+
+        // 按比例轉移材料（冰沙隨酒液一起倒出）
+        const ratio = Math.min(1, amount / source.volume);
+        const frozenAmount = source.frozenIce * ratio;
+        source.frozenIce -= frozenAmount;
+        target.frozenIce += frozenAmount;
+
+        // 碳酸材料隨酒液倒出，倒入時損失少量氣泡
+        const carbonatedAmount = this.getCarbonatedVolume(source) * ratio;
+        if (carbonatedAmount > 0) {
+            this.mixCarbonation(target, carbonatedAmount, source.carbonation * (1 - this.POUR_FIZZ_LOSS));
+        }
+
+        // 泡沫浮在酒液上一起倒出，倒入時會消掉一些
+        const foamAmount = source.foam * ratio;
+        source.foam -= foamAmount;
+        target.foam += foamAmount * (1 - this.FOAM_POUR_LOSS);
+
+        source.ingredients.forEach(ingredient => {
+            const transferAmount = ingredient.amount * ratio;
+
+            // 從來源減少
+            ingredient.amount -= transferAmount;
+
+            // 添加到目標容器
+            const existingIngredient = target.ingredients.find(
+                ing => ing.type === ingredient.type
+            );
+
+            if (existingIngredient) {
+                existingIngredient.amount += transferAmount;
+            } else {
+                target.ingredients.push({
+                    type: ingredient.type,
+                    name: ingredient.name,
+                    displayName: ingredient.displayName,
+                    amount: transferAmount,
+                    color: ingredient.color
+                });
+            }
+        });
+
+        // 更新溫度與體積
+        target.temperature = this.mixTemperature(
+            target.temperature, target.volume, source.temperature, amount
+        );
+        source.volume = Math.max(0, source.volume - amount);
+        target.volume += amount;
+
+        // 倒出的是混合後的酒液
+        this.addToLayers(target, amount, source.color, this.getAverageDensity(source), false);
+        this.removeFromLayers(source, amount);
+
+        this.recordTransfer(source, target, sourceName, amount, type);
+
+        // 清理來源中量為 0 的材料
+        source.ingredients = source.ingredients.filter(
+            ing => ing.amount > 0.01
+        );
+    }
+
+    /**
+     * 量酒器一次倒入：將量好的酒液整份倒進杯子或 Shaker
+     */
+    public dumpJigger(jigger: BABYLON.TransformNode, targetContainer: BABYLON.TransformNode): void {
+        const jiggerContents = this.containerContents.get(jigger);
+        const targetContents = this.containerContents.get(targetContainer);
+
+        if (!jiggerContents || !targetContents) return;
+        if (jiggerContents.volume <= 0) return;
+
+        const room = targetContents.maxVolume - this.getFillVolume(targetContents);
+        if (room <= 0) {
+            console.log('容器已滿！');
+            return;
+        }
+
+        const amount = Math.min(jiggerContents.volume, room);
+        this.transferLiquid(jiggerContents, targetContents, jigger.name, amount, ContainerActionType.TRANSFER);
+
+        if (jiggerContents.volume <= 0.01) {
+            this.emptyContainer(jigger);
+        } else {
+            this.updateMixedColor(jigger);
+            this.updateLiquidVisual(jigger);
+        }
+        this.updateMixedColor(targetContainer);
+        this.updateLiquidVisual(targetContainer);
+        this.updatePourProgressUI(targetContainer, amount);
+
+        console.log(`✓ 量酒器倒入 ${amount.toFixed(1)}ml`);
+    }
+
+    /**
+     * 設定容器的杯型（出杯時用來檢查杯具是否正確）
+     */
+    public setGlassType(container: BABYLON.TransformNode, glassType: GlassType): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.glassType = glassType;
+    }
+
+    /**
+     * 設定量酒器刻度線，並在內壁對應高度畫出刻度環
+     */
+    public setMeasureLines(container: BABYLON.TransformNode, lines: number[]): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.measureLines = [...lines].sort((a, b) => a - b);
+
+        const lineMaterial = new BABYLON.PBRMaterial(`measureLineMat_${container.name}`, this.scene);
+        lineMaterial.albedoColor = new BABYLON.Color3(0.25, 0.25, 0.28);
+        lineMaterial.metallic = 0.8;
+        lineMaterial.roughness = 0.5;
+
+        contents.measureLines.forEach(line => {
+            const level = this.getProfileLevel(contents.innerProfile, line / contents.maxVolume);
+            const ring = BABYLON.MeshBuilder.CreateTorus(
+                `measureLine_${container.name}_${line}`,
+                {
+                    diameter: this.getProfileRadius(contents.innerProfile, level) * 2,
+                    thickness: 0.003,
+                    tessellation: 24
+                },
+                this.scene
+            );
+            ring.parent = container;
+            ring.position.y = level;
+            ring.material = lineMaterial;
+            ring.isPickable = false;
+        });
+    }
+
+    /**
+     * 量酒準確度：與最接近的刻度線比較
+     */
+    private getMeasureAccuracy(contents: ContainerContents): { line: number; accuracy: number } | null {
+        if (contents.measureLines.length === 0 || contents.volume <= 0) return null;
+
+        const line = contents.measureLines.reduce((closest, candidate) =>
+            Math.abs(candidate - contents.volume) < Math.abs(closest - contents.volume) ? candidate : closest
+        );
+        const accuracy = Math.max(0, 1 - Math.abs(contents.volume - line) / line);
+
+        return { line, accuracy };
+    }
+
+    /**
+     * 登記酒瓶庫存（由 BarEnvironment 建立酒瓶時提供瓶內液體網格）
+     */
+    public registerBottle(
+        bottle: BABYLON.TransformNode,
+        capacity: number,
+        liquidMesh?: BABYLON.Mesh
+    ): void {
+        let liquidHeight = 0;
+        let liquidBottom = 0;
+
+        if (liquidMesh) {
+            const extend = liquidMesh.getBoundingInfo().boundingBox.extendSize;
+            liquidHeight = extend.y * 2;
+            liquidBottom = liquidMesh.position.y - extend.y;
+        }
+
+        this.bottleStock.set(bottle, {
+            capacity,
+            remaining: capacity,
+            liquidMesh: liquidMesh || null,
+            liquidHeight,
+            liquidBottom
+        });
+    }
+
+    /**
+     * 獲取酒瓶庫存（剩餘量與容量）
+     */
+    public getBottleStock(bottle: BABYLON.TransformNode): { remaining: number; capacity: number } | null {
+        const stock = this.bottleStock.get(bottle);
+        if (!stock) return null;
+
+        return { remaining: stock.remaining, capacity: stock.capacity };
+    }
+
+    /**
+     * 補貨：換上滿瓶
+     */
+    public restockBottle(bottle: BABYLON.TransformNode): boolean {
+        const stock = this.bottleStock.get(bottle);
+        if (!stock || stock.remaining >= stock.capacity) return false;
+
+        stock.remaining = stock.capacity;
+        this.updateBottleVisual(stock);
+
+        console.log(`✓ 補貨完成：${bottle.name}（${stock.capacity}ml）`);
+        return true;
+    }
+
+    /**
+     * 更新瓶內液面（液體底部固定，依剩餘比例縮放高度）
+     */
+    private updateBottleVisual(stock: BottleStock): void {
+        if (!stock.liquidMesh) return;
+
+        const ratio = stock.capacity > 0 ? stock.remaining / stock.capacity : 0;
+        stock.liquidMesh.isVisible = ratio > 0;
+        stock.liquidMesh.scaling.y = Math.max(ratio, 0.001);
+        stock.liquidMesh.position.y = stock.liquidBottom + stock.liquidHeight * ratio / 2;
+    }
+
     /**
      * 創建倒酒粒子效果 - 使用 Babylon.js ParticleSystem
      */
@@ -816,6 +2589,23 @@ export default class CocktailSystem {
         this.isShakingActive = true;
         this.shakeTime += deltaTime;
 
+        // 記錄搖盪時間（沒有冰塊時為乾搖，不算完成搖盪法）
+        const isDryShake = this.getIceVolume(contents) === 0;
+        this.recordAction(contents, {
+            type: isDryShake ? ContainerActionType.DRY_SHAKE : ContainerActionType.SHAKE,
+            duration: deltaTime
+        });
+
+        // 乾搖最能打發蛋白泡沫，加冰搖只能打出較少的泡沫
+        this.whipFoam(contents, isDryShake, deltaTime);
+
+        // 搖盪加速融冰與降溫，也會順帶壓出少量固體材料的味道
+        this.meltIce(shaker, deltaTime, this.SHAKE_AGITATION);
+        this.extractSolids(shaker, this.SHAKE_EXTRACTION_RATE * deltaTime);
+
+        // 搖盪會讓碳酸材料迅速跑氣
+        this.releaseCarbonation(contents, this.SHAKE_FIZZ_LOSS_RATE, deltaTime);
+
         // 搖晃強度（正弦波動）
         this.shakeIntensity = Math.sin(this.shakeTime * 20) * 0.05;
 
@@ -841,6 +2631,1415 @@ export default class CocktailSystem {
         shaker.rotation.x = 0;
     }
 
+    /**
+     * 攪拌（Mixing Glass / 杯中攪拌）
+     */
+    public stir(container: BABYLON.TransformNode, deltaTime: number): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.volume === 0) return;
+
+        this.recordAction(contents, {
+            type: ContainerActionType.STIR,
+            duration: deltaTime
+        });
+
+        // 攪拌加速融冰與降溫，也會讓碳酸材料稍微跑氣
+        this.meltIce(container, deltaTime, this.STIR_AGITATION);
+        this.releaseCarbonation(contents, this.STIR_FIZZ_LOSS_RATE, deltaTime);
+        contents.foam *= Math.exp(-this.STIR_FOAM_LOSS_RATE * deltaTime);
+
+        this.enhanceMixing(container);
+    }
+
+    /**
+     * 放入固體材料（按住時每隔固定時間放一份）
+     */
+    public addSolid(container: BABYLON.TransformNode, solidType: string, deltaTime: number): void {
+        const contents = this.containerContents.get(container);
+        const solid = this.solidDatabase.get(solidType);
+        if (!contents || !solid) return;
+
+        this.solidAddCooldown -= deltaTime;
+        if (this.solidAddCooldown > 0) return;
+        this.solidAddCooldown = this.SOLID_ADD_INTERVAL;
+
+        const existing = contents.solids.find(item => item.type === solidType);
+        if (existing) {
+            // 新放入的份數尚未壓搗，平均萃取程度下降
+            existing.extraction = existing.extraction * existing.count / (existing.count + 1);
+            existing.count++;
+        } else {
+            contents.solids.push({ type: solidType, count: 1, extraction: 0 });
+        }
+        this.usageCost += solid.cost ?? 0;
+
+        this.updateSolidVisual(container);
+        console.log(`✓ 放入${solid.name}`);
+    }
+
+    /**
+     * 壓搗：萃取固體材料的味道與汁液
+     */
+    public muddle(container: BABYLON.TransformNode, deltaTime: number): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.solids.length === 0) return;
+
+        this.recordAction(contents, {
+            type: ContainerActionType.MUDDLE,
+            duration: deltaTime
+        });
+
+        this.extractSolids(container, this.MUDDLE_EXTRACTION_RATE * deltaTime);
+    }
+
+    /**
+     * 提高固體材料萃取程度，並釋出對應的液體
+     */
+    private extractSolids(container: BABYLON.TransformNode, amount: number): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.solids.length === 0 || amount <= 0) return;
+
+        let released = false;
+        contents.solids.forEach(item => {
+            const extraction = Math.min(1, item.extraction + amount);
+            const delta = extraction - item.extraction;
+            item.extraction = extraction;
+
+            const solid = this.solidDatabase.get(item.type);
+            if (solid?.yield && delta > 0) {
+                this.addIngredient(contents, solid.yield.type, solid.yield.amount * item.count * delta, contents.temperature);
+                released = true;
+            }
+        });
+
+        if (released) {
+            this.updateMixedColor(container);
+            this.updateLiquidVisual(container);
+        }
+        this.squashSolidMeshes(contents);
+    }
+
+    /**
+     * 更新固體材料視覺效果（沉在杯底）
+     */
+    private updateSolidVisual(container: BABYLON.TransformNode): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.solidMeshes.forEach(mesh => mesh.dispose());
+        contents.solidMeshes = [];
+
+        const floor = contents.innerProfile[0];
+        let pieceIndex = 0;
+
+        contents.solids.forEach(item => {
+            const solid = this.solidDatabase.get(item.type);
+            if (!solid) return;
+
+            for (let i = 0; i < item.count && pieceIndex < this.MAX_SOLID_PIECES; i++, pieceIndex++) {
+                const name = `solid_${container.name}_${pieceIndex}`;
+                let piece: BABYLON.Mesh;
+
+                switch (item.type) {
+                    case 'mint':
+                        piece = BABYLON.MeshBuilder.CreateSphere(
+                            name, { diameterX: 0.05, diameterY: 0.006, diameterZ: 0.03, segments: 4 }, this.scene
+                        );
+                        break;
+                    case 'lime_wedge':
+                        piece = BABYLON.MeshBuilder.CreateCylinder(
+                            name, { height: 0.03, diameter: 0.07, arc: 0.25, tessellation: 8, enclose: true }, this.scene
+                        );
+                        break;
+                    case 'sugar_cube':
+                        piece = BABYLON.MeshBuilder.CreateBox(name, { size: 0.025 }, this.scene);
+                        break;
+                    default:
+                        piece = BABYLON.MeshBuilder.CreateSphere(name, { diameter: 0.03, segments: 6 }, this.scene);
+                }
+
+                // 以黃金角分佈在杯底
+                const angle = pieceIndex * 2.399;
+                const radius = Math.min(floor.radius * 0.7, 0.02 + (pieceIndex % 4) * 0.02);
+                piece.position = new BABYLON.Vector3(
+                    Math.cos(angle) * radius,
+                    floor.y + 0.015 + Math.floor(pieceIndex / 6) * 0.012,
+                    Math.sin(angle) * radius
+                );
+                piece.rotation.y = angle;
+                piece.material = this.getSolidMaterial(item.type, solid.color);
+                piece.parent = container;
+                piece.isPickable = false;
+                piece.metadata = { solidType: item.type };
+
+                contents.solidMeshes.push(piece);
+            }
+        });
+
+        this.squashSolidMeshes(contents);
+    }
+
+    /**
+     * 依萃取程度壓扁固體材料
+     */
+    private squashSolidMeshes(contents: ContainerContents): void {
+        contents.solidMeshes.forEach(mesh => {
+            const item = contents.solids.find(solid => solid.type === mesh.metadata?.solidType);
+            mesh.scaling.y = 1 - 0.7 * (item ? item.extraction : 0);
+        });
+    }
+
+    /**
+     * 獲取固體材料材質（同種材料共用）
+     */
+    private getSolidMaterial(solidType: string, color: number): BABYLON.PBRMaterial {
+        let material = this.solidMaterials.get(solidType);
+        if (!material) {
+            material = new BABYLON.PBRMaterial(`solidMat_${solidType}`, this.scene);
+            material.albedoColor = BABYLON.Color3.FromHexString('#' + color.toString(16).padStart(6, '0'));
+            material.metallic = 0.0;
+            material.roughness = 0.6;
+            this.solidMaterials.set(solidType, material);
+        }
+        return material;
+    }
+
+    /**
+     * 獲取固體材料資料
+     */
+    public getSolidData(solidType: string): SolidData | undefined {
+        return this.solidDatabase.get(solidType);
+    }
+
+    /**
+     * 註冊果汁機：杯壺為容器，底座固定在後吧檯
+     */
+    public registerBlender(jar: BABYLON.TransformNode, base: BABYLON.TransformNode): void {
+        this.blenders.set(jar, {
+            base,
+            basePosition: base.position.clone(),
+            seatPosition: jar.position.clone(),
+            durationIndex: 1,
+            remaining: 0,
+            running: false,
+            audio: null
+        });
+    }
+
+    /**
+     * 切換果汁機的攪打時間（運轉中不可切換）
+     */
+    public cycleBlenderDuration(jar: BABYLON.TransformNode): number | null {
+        const blender = this.blenders.get(jar);
+        if (!blender || blender.running) return null;
+
+        blender.durationIndex = (blender.durationIndex + 1) % this.BLEND_DURATIONS.length;
+        return this.BLEND_DURATIONS[blender.durationIndex];
+    }
+
+    /**
+     * 啟動或停止果汁機
+     */
+    public toggleBlender(jar: BABYLON.TransformNode): boolean {
+        const blender = this.blenders.get(jar);
+        const contents = this.containerContents.get(jar);
+        if (!blender || !contents) return false;
+
+        if (blender.running) {
+            this.stopBlender(jar, blender);
+            return false;
+        }
+
+        if (!this.isJarSeated(jar, blender)) {
+            console.log('果汁機杯壺沒有放在底座上！');
+            return false;
+        }
+        if (contents.volume <= 0 && contents.ice.length === 0) {
+            console.log('果汁機是空的！');
+            return false;
+        }
+
+        blender.running = true;
+        blender.remaining = this.BLEND_DURATIONS[blender.durationIndex];
+        this.startBlenderSound(blender);
+        console.log(`✓ 果汁機啟動（${blender.remaining} 秒）`);
+        return true;
+    }
+
+    /**
+     * 獲取果汁機狀態（互動提示用）
+     */
+    public getBlenderState(jar: BABYLON.TransformNode): { running: boolean; duration: number; remaining: number } | null {
+        const blender = this.blenders.get(jar);
+        if (!blender) return null;
+
+        return {
+            running: blender.running,
+            duration: this.BLEND_DURATIONS[blender.durationIndex],
+            remaining: blender.remaining
+        };
+    }
+
+    /**
+     * 更新運轉中的果汁機：攪打、震動與馬達聲
+     */
+    private updateBlenders(deltaTime: number): void {
+        this.blenders.forEach((blender, jar) => {
+            if (!blender.running) return;
+
+            // 杯壺被拿起或時間到就停止
+            blender.remaining -= deltaTime;
+            if (blender.remaining <= 0 || !this.isJarSeated(jar, blender)) {
+                this.stopBlender(jar, blender);
+                return;
+            }
+
+            const contents = this.containerContents.get(jar);
+            if (contents) {
+                this.blend(jar, contents, deltaTime);
+            }
+
+            // 震動
+            const jitter = (): number => (Math.random() - 0.5) * 0.006;
+            blender.base.position.set(
+                blender.basePosition.x + jitter(),
+                blender.basePosition.y,
+                blender.basePosition.z + jitter()
+            );
+            jar.position.set(
+                blender.seatPosition.x + jitter(),
+                blender.seatPosition.y,
+                blender.seatPosition.z + jitter()
+            );
+
+            // 還有冰塊時馬達吃力，音調較低
+            if (blender.audio && contents) {
+                const frequency = contents.ice.length > 0 ? this.BLENDER_LOADED_FREQUENCY : this.BLENDER_FREE_FREQUENCY;
+                blender.audio.oscillator.frequency.setTargetAtTime(frequency, blender.audio.context.currentTime, 0.15);
+            }
+        });
+    }
+
+    /**
+     * 攪打：冰塊打碎成懸浮在酒液中的冰沙，同時降溫與混合
+     */
+    private blend(jar: BABYLON.TransformNode, contents: ContainerContents, deltaTime: number): void {
+        this.recordAction(contents, {
+            type: ContainerActionType.BLEND,
+            duration: deltaTime
+        });
+
+        this.releaseCarbonation(contents, this.BLEND_FIZZ_LOSS_RATE, deltaTime);
+
+        const iceVolume = this.getIceVolume(contents);
+        if (iceVolume > 0) {
+            const pieceCountBefore = contents.iceMeshes.length;
+            const crushed = Math.min(iceVolume, this.BLEND_CRUSH_RATE * deltaTime);
+            const remainingRatio = 1 - crushed / iceVolume;
+            contents.ice.forEach(ice => {
+                ice.amount *= remainingRatio;
+            });
+            contents.ice = contents.ice.filter(ice => ice.amount > 0.5);
+
+            this.addIngredient(contents, 'water', crushed, 0);
+            contents.frozenIce += crushed;
+
+            if (this.getIcePieceCount(contents) !== pieceCountBefore) {
+                this.updateIceVisual(jar);
+            }
+        } else if (contents.frozenIce > 0) {
+            // 冰打完後繼續空轉，刀片摩擦讓冰沙化成水
+            contents.frozenIce = Math.max(0, contents.frozenIce - this.BLEND_OVERRUN_MELT_RATE * deltaTime);
+        }
+
+        if (contents.frozenIce > 0) {
+            const chill = 1 - Math.exp(-this.BLEND_CHILL_RATE * deltaTime);
+            contents.temperature += (this.ICE_EQUILIBRIUM_TEMPERATURE - contents.temperature) * chill;
+        }
+
+        this.enhanceMixing(jar);
+        this.updateLiquidVisual(jar);
+    }
+
+    /**
+     * 停止果汁機並讓底座、杯壺回到原位
+     */
+    private stopBlender(jar: BABYLON.TransformNode, blender: BlenderState): void {
+        const wasSeated = this.isJarSeated(jar, blender);
+
+        blender.running = false;
+        blender.remaining = 0;
+        blender.base.position.copyFrom(blender.basePosition);
+        if (wasSeated) {
+            jar.position.copyFrom(blender.seatPosition);
+        }
+
+        if (blender.audio) {
+            blender.audio.oscillator.stop();
+            blender.audio.context.close().catch(error => console.warn('⚠️ 無法關閉果汁機音效:', error));
+            blender.audio = null;
+        }
+
+        console.log('✓ 果汁機停止');
+    }
+
+    /**
+     * 杯壺是否放在底座上
+     */
+    private isJarSeated(jar: BABYLON.TransformNode, blender: BlenderState): boolean {
+        return BABYLON.Vector3.Distance(jar.position, blender.seatPosition) < this.BLENDER_SEAT_DISTANCE;
+    }
+
+    /**
+     * 以鋸齒波加低通濾波合成馬達聲
+     */
+    private startBlenderSound(blender: BlenderState): void {
+        try {
+            const context = new AudioContext();
+            const oscillator = context.createOscillator();
+            oscillator.type = 'sawtooth';
+            oscillator.frequency.value = this.BLENDER_LOADED_FREQUENCY;
+
+            const filter = context.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.value = 900;
+
+            const gain = context.createGain();
+            gain.gain.value = 0.04;
+
+            oscillator.connect(filter).connect(gain).connect(context.destination);
+            oscillator.start();
+
+            blender.audio = { context, oscillator };
+        } catch (error) {
+            console.warn('⚠️ 無法播放果汁機音效:', error);
+        }
+    }
+
+    /**
+     * 冰沙在杯中慢慢化水，化完前讓酒液保持冰涼
+     */
+    private meltSlush(contents: ContainerContents, deltaTime: number): void {
+        const warmth = (contents.temperature - this.ICE_EQUILIBRIUM_TEMPERATURE) /
+            (this.AMBIENT_TEMPERATURE - this.ICE_EQUILIBRIUM_TEMPERATURE);
+        const melted = this.SLUSH_MELT_RATE * Math.max(0.2, warmth) * deltaTime;
+        contents.frozenIce = Math.max(0, contents.frozenIce - melted);
+
+        const chill = 1 - Math.exp(-this.SLUSH_CHILL_RATE * deltaTime);
+        contents.temperature += (0 - contents.temperature) * chill;
+    }
+
+    /**
+     * 計算冰沙質地比例（冰沙佔酒液的比例）
+     */
+    private getFrozenRatio(contents: ContainerContents): number {
+        return contents.volume > 0 ? Math.min(1, contents.frozenIce / contents.volume) : 0;
+    }
+
+    /**
+     * 搖盪打發泡沫：起泡材料越多泡沫上限越高，加冰搖只能達到部分上限
+     */
+    private whipFoam(contents: ContainerContents, isDryShake: boolean, deltaTime: number): void {
+        const potential = contents.ingredients.reduce((sum, ing) => {
+            const liquor = this.liquorDatabase.get(ing.type);
+            return liquor?.foaming ? sum + ing.amount * liquor.foaming : sum;
+        }, 0) * this.FOAM_EXPANSION;
+
+        const limit = isDryShake ? potential : potential * this.WET_SHAKE_FOAM_LIMIT;
+        if (contents.foam >= limit) return;
+
+        const rate = isDryShake ? this.DRY_SHAKE_FOAM_RATE : this.WET_SHAKE_FOAM_RATE;
+        contents.foam += (limit - contents.foam) * (1 - Math.exp(-rate * deltaTime));
+    }
+
+    /**
+     * 泡沫靜置時慢慢消退
+     */
+    private collapseFoam(container: BABYLON.TransformNode, contents: ContainerContents, deltaTime: number): void {
+        const foamBefore = contents.foam;
+        contents.foam *= Math.exp(-this.FOAM_COLLAPSE_RATE * deltaTime);
+        if (contents.foam < 0.5) {
+            contents.foam = 0;
+        }
+
+        // 泡沫每變化 1ml 才更新視覺
+        if (Math.floor(contents.foam) !== Math.floor(foamBefore)) {
+            this.updateLiquidVisual(container);
+        }
+    }
+
+    /**
+     * 獲取容器的風味平衡（空容器為 null）
+     */
+    public getFlavorBalance(container: BABYLON.TransformNode): FlavorBalance | null {
+        const contents = this.containerContents.get(container);
+        return contents ? this.computeFlavorBalance(contents) : null;
+    }
+
+    /**
+     * 依各材料的風味向量計算整杯的風味平衡（融冰水會沖淡所有風味）
+     */
+    private computeFlavorBalance(contents: ContainerContents): FlavorBalance | null {
+        if (contents.volume <= 0) return null;
+
+        let sweetness = 0;
+        let acidity = 0;
+        let bitterness = 0;
+        let water = 0;
+        const aroma = new Map<AromaNote, number>();
+        const addAroma = (notes: Partial<Record<AromaNote, number>> | undefined, amount: number): void => {
+            if (!notes) return;
+            (Object.keys(notes) as AromaNote[]).forEach(note => {
+                aroma.set(note, (aroma.get(note) || 0) + (notes[note] || 0) * amount);
+            });
+        };
+
+        contents.ingredients.forEach(ing => {
+            if (DILUTION_TYPES.includes(ing.type)) {
+                water += ing.amount;
+            }
+            const flavor = this.liquorDatabase.get(ing.type)?.flavor;
+            if (!flavor) return;
+
+            sweetness += flavor.sweetness * ing.amount;
+            acidity += flavor.acidity * ing.amount;
+            bitterness += flavor.bitterness * ing.amount;
+            addAroma(flavor.aroma, ing.amount);
+        });
+
+        // 壓搗過的固體材料釋出香氣
+        contents.solids.forEach(item => {
+            addAroma(this.solidDatabase.get(item.type)?.aroma, item.count * item.extraction);
+        });
+
+        const volume = contents.volume;
+        const scale = (total: number, fullScale: number): number => Math.min(1, total / volume / fullScale);
+
+        return {
+            sweetness: scale(sweetness, this.FLAVOR_FULL_SCALE),
+            acidity: scale(acidity, this.FLAVOR_FULL_SCALE),
+            bitterness: scale(bitterness, this.FLAVOR_FULL_SCALE),
+            strength: Math.min(1, this.calculateAlcoholContent(contents) / this.FLAVOR_STRENGTH_SCALE),
+            dilution: scale(water, this.FLAVOR_DILUTION_SCALE),
+            aroma: Array.from(aroma.entries())
+                .map(([note, total]) => ({ note, intensity: scale(total, this.FLAVOR_AROMA_SCALE) }))
+                .filter(item => item.intensity >= 0.05)
+                .sort((a, b) => b.intensity - a.intensity)
+        };
+    }
+
+    /**
+     * 計算容器中碳酸材料的總量（ml）
+     */
+    private getCarbonatedVolume(contents: ContainerContents): number {
+        return contents.ingredients.reduce((sum, ing) => {
+            const liquor = this.liquorDatabase.get(ing.type);
+            return liquor?.carbonation ? sum + ing.amount : sum;
+        }, 0);
+    }
+
+    /**
+     * 加入碳酸材料時，依體積加權混合氣泡程度（須在材料加入前呼叫）
+     */
+    private mixCarbonation(contents: ContainerContents, amount: number, carbonation: number): void {
+        const existing = this.getCarbonatedVolume(contents);
+        const total = existing + amount;
+        if (total <= 0) return;
+
+        contents.carbonation = (contents.carbonation * existing + carbonation * amount) / total;
+    }
+
+    /**
+     * 依流失速率釋放氣泡
+     */
+    private releaseCarbonation(contents: ContainerContents, rate: number, deltaTime: number): void {
+        contents.carbonation *= Math.exp(-rate * deltaTime);
+    }
+
+    /**
+     * 靜置時自然跑氣（酒液越溫越快），並更新杯中上升的氣泡
+     */
+    private updateCarbonation(container: BABYLON.TransformNode, contents: ContainerContents, deltaTime: number): void {
+        const carbonatedVolume = this.getCarbonatedVolume(contents);
+        if (carbonatedVolume > 0) {
+            const warmth = Math.max(0, contents.temperature - 4);
+            this.releaseCarbonation(contents, this.FIZZ_DECAY_RATE * (1 + warmth * this.FIZZ_WARM_FACTOR), deltaTime);
+        }
+
+        // 氣泡量與剩餘氣泡程度及碳酸材料比例成正比
+        const intensity = contents.volume > 0 ? contents.carbonation * carbonatedVolume / contents.volume : 0;
+        this.updateBubbleParticles(container, contents, intensity);
+    }
+
+    /**
+     * 從杯底升到液面的氣泡粒子
+     */
+    private updateBubbleParticles(
+        container: BABYLON.TransformNode,
+        contents: ContainerContents,
+        intensity: number
+    ): void {
+        const key = `bubbles_${container.name}`;
+        let particleSystem = this.particleSystems.get(key);
+
+        if (intensity < 0.02 || container === this.currentDrinkingGlass) {
+            if (particleSystem) {
+                particleSystem.stop();
+                this.particleSystems.delete(key);
+            }
+            return;
+        }
+
+        if (!particleSystem) {
+            particleSystem = new BABYLON.ParticleSystem(key, 200, this.scene);
+            particleSystem.particleTexture = new BABYLON.Texture(
+                'https://www.babylonjs.com/assets/Flare.png',
+                this.scene
+            );
+
+            particleSystem.color1 = new BABYLON.Color4(1, 1, 1, 0.5);
+            particleSystem.color2 = new BABYLON.Color4(0.9, 0.95, 1, 0.35);
+            particleSystem.colorDead = new BABYLON.Color4(1, 1, 1, 0.2);
+            particleSystem.minSize = 0.005;
+            particleSystem.maxSize = 0.012;
+            particleSystem.direction1 = new BABYLON.Vector3(-0.05, 1, -0.05);
+            particleSystem.direction2 = new BABYLON.Vector3(0.05, 1, 0.05);
+            particleSystem.minEmitPower = this.BUBBLE_RISE_SPEED;
+            particleSystem.maxEmitPower = this.BUBBLE_RISE_SPEED;
+            particleSystem.gravity = BABYLON.Vector3.Zero();
+            particleSystem.blendMode = BABYLON.ParticleSystem.BLENDMODE_STANDARD;
+            particleSystem.disposeOnStop = true;
+            particleSystem.start();
+
+            this.particleSystems.set(key, particleSystem);
+        }
+
+        // 從杯底內側發射，壽命剛好讓氣泡升到液面
+        const bottom = contents.innerProfile[0].y;
+        const depth = Math.max(0.005, contents.liquidLevel - bottom);
+        const radius = this.getProfileRadius(contents.innerProfile, bottom) * 0.7;
+        particleSystem.emitter = BABYLON.Vector3.TransformCoordinates(
+            new BABYLON.Vector3(0, bottom + 0.005, 0),
+            container.getWorldMatrix()
+        );
+        particleSystem.minEmitBox = new BABYLON.Vector3(-radius, 0, -radius);
+        particleSystem.maxEmitBox = new BABYLON.Vector3(radius, 0, radius);
+        particleSystem.minLifeTime = depth / this.BUBBLE_RISE_SPEED * 0.7;
+        particleSystem.maxLifeTime = depth / this.BUBBLE_RISE_SPEED;
+        particleSystem.emitRate = intensity * this.BUBBLE_MAX_EMIT_RATE;
+    }
+
+    /**
+     * 檢查能否在杯上放這個裝飾（同種只放一份）
+     */
+    public canAddGarnish(container: BABYLON.TransformNode, garnishType: string): boolean {
+        const contents = this.containerContents.get(container);
+        if (!contents || !this.garnishDatabase.has(garnishType)) return false;
+
+        return contents.garnishes.length < this.MAX_GARNISHES &&
+            !contents.garnishes.some(garnish => garnish.type === garnishType);
+    }
+
+    /**
+     * 放上裝飾：果皮、水果片掛在杯緣，其餘放入酒中
+     */
+    public addGarnish(container: BABYLON.TransformNode, garnish: BABYLON.TransformNode, garnishType: string): boolean {
+        const contents = this.containerContents.get(container);
+        const garnishData = this.garnishDatabase.get(garnishType);
+        if (!contents || !garnishData || !this.canAddGarnish(container, garnishType)) return false;
+
+        const index = contents.garnishes.length;
+        const profile = contents.innerProfile;
+        const angle = 0.6 + index * 1.3;
+
+        garnish.parent = container;
+        if (garnishData.placement === GarnishPlacement.RIM) {
+            const rim = profile[profile.length - 1];
+            garnish.position = new BABYLON.Vector3(Math.cos(angle) * rim.radius, rim.y, Math.sin(angle) * rim.radius);
+            garnish.rotationQuaternion = BABYLON.Quaternion.FromEulerAngles(0, -angle, 0);
+        } else {
+            const floor = profile[0];
+            const offset = Math.min(floor.radius * 0.4, 0.03);
+            garnish.position = new BABYLON.Vector3(
+                Math.cos(angle) * offset,
+                floor.y + 0.02,
+                Math.sin(angle) * offset
+            );
+            garnish.rotationQuaternion = BABYLON.Quaternion.FromEulerAngles(0, angle, 0);
+        }
+
+        contents.garnishes.push({ type: garnishType, mesh: garnish });
+        console.log(`✓ 放上${garnishData.name}`);
+        return true;
+    }
+
+    /**
+     * 杯緣沾鹽/糖（已沾其他種類時替換）
+     */
+    public applyRim(container: BABYLON.TransformNode, rimType: RimType): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.rim?.type === rimType) return;
+
+        this.clearRim(contents);
+
+        const rim = contents.innerProfile[contents.innerProfile.length - 1];
+        const rimMesh = BABYLON.MeshBuilder.CreateTorus(
+            `rim_${container.name}`,
+            { diameter: rim.radius * 2 + 0.01, thickness: 0.014, tessellation: 24 },
+            this.scene
+        );
+        rimMesh.position.y = rim.y - 0.01;
+        rimMesh.material = this.getRimMaterial(rimType);
+        rimMesh.parent = container;
+        rimMesh.isPickable = false;
+
+        contents.rim = { type: rimType, mesh: rimMesh };
+        console.log(`✓ 杯緣沾上${RIM_DATA[rimType].name}`);
+    }
+
+    /**
+     * 獲取杯緣沾邊材質（同種共用）
+     */
+    private getRimMaterial(rimType: RimType): BABYLON.PBRMaterial {
+        let material = this.rimMaterials.get(rimType);
+        if (!material) {
+            material = new BABYLON.PBRMaterial(`rimMat_${rimType}`, this.scene);
+            material.albedoColor = RIM_DATA[rimType].color;
+            material.metallic = 0.0;
+            material.roughness = RIM_DATA[rimType].roughness;
+            this.rimMaterials.set(rimType, material);
+        }
+        return material;
+    }
+
+    /**
+     * 移除杯上的裝飾物
+     */
+    private clearGarnishes(contents: ContainerContents): void {
+        contents.garnishes.forEach(garnish => garnish.mesh.dispose());
+        contents.garnishes = [];
+    }
+
+    /**
+     * 移除杯緣沾邊
+     */
+    private clearRim(contents: ContainerContents): void {
+        if (contents.rim) {
+            contents.rim.mesh.dispose();
+            contents.rim = null;
+        }
+    }
+
+    /**
+     * 獲取裝飾物資料
+     */
+    public getGarnishData(garnishType: string): GarnishData | undefined {
+        return this.garnishDatabase.get(garnishType);
+    }
+
+    /**
+     * 獲取杯緣沾邊名稱
+     */
+    public getRimName(rimType: RimType): string {
+        return RIM_DATA[rimType].name;
+    }
+
+    /**
+     * 計算配方要求的裝飾中缺少的項目
+     */
+    private getMissingGarnishes(recipe: CocktailRecipe, contents: ContainerContents): string[] {
+        return (recipe.garnishes || [])
+            .filter(slot => !contents.garnishes.some(garnish => slot.types.includes(garnish.type)))
+            .map(slot => slot.name);
+    }
+
+    /**
+     * 計算裝飾與杯緣不符的比例（0 為完全相符），用於配方辨識排序
+     */
+    private getGarnishMismatch(recipe: CocktailRecipe, contents: ContainerContents): number {
+        const slots = (recipe.garnishes || []).length + (recipe.rim ? 1 : 0);
+        if (slots === 0) return 0;
+
+        const rimMismatch = recipe.rim && contents.rim?.type !== recipe.rim ? 1 : 0;
+        return (this.getMissingGarnishes(recipe, contents).length + rimMismatch) / slots;
+    }
+
+    /**
+     * 用吧匙攪拌（按住時每幀調用，實際攪拌與節奏在 update 中處理）
+     */
+    public stirWithSpoon(container: BABYLON.TransformNode): void {
+        if (!this.containerContents.has(container)) return;
+
+        if (this.stirTarget !== container) {
+            this.stirTarget = container;
+            this.stirSpeed = 0;
+        }
+        this.stirPressed = true;
+    }
+
+    /**
+     * 更新吧匙攪拌：放開時吧匙仍會順勢轉動，速度在節奏區間內效率最佳
+     */
+    private updateStirring(deltaTime: number): void {
+        if (!this.stirTarget) return;
+
+        this.stirSpeed += (this.stirPressed ? this.STIR_ACCELERATION : -this.STIR_DECELERATION) * deltaTime;
+        this.stirSpeed = Math.max(0, Math.min(1, this.stirSpeed));
+        this.stirPressed = false;
+
+        if (this.stirSpeed <= 0) {
+            this.stirTarget = null;
+            this.updateStirGaugeUI(0);
+            return;
+        }
+
+        // 太慢效率不足；太快效率下降並打入空氣、融冰更多
+        let efficiency = 1;
+        if (this.stirSpeed < this.STIR_RHYTHM_MIN) {
+            efficiency = this.stirSpeed / this.STIR_RHYTHM_MIN;
+        } else if (this.stirSpeed > this.STIR_RHYTHM_MAX) {
+            const excess = this.stirSpeed - this.STIR_RHYTHM_MAX;
+            efficiency = Math.max(0.4, 1 - excess * 3);
+            this.meltIce(this.stirTarget, deltaTime, this.STIR_AGITATION * excess * 4);
+        }
+
+        this.stir(this.stirTarget, deltaTime * efficiency);
+        this.updateLiquidVisual(this.stirTarget);
+        this.updateStirGaugeUI(this.stirSpeed);
+    }
+
+    /**
+     * 更新攪拌節奏量表
+     */
+    private updateStirGaugeUI(speed: number): void {
+        const panel = document.getElementById('stir-gauge-panel');
+        const bar = document.getElementById('stir-gauge-bar');
+        const text = document.getElementById('stir-gauge-text');
+        if (!panel || !bar || !text) return;
+
+        if (speed <= 0) {
+            panel.classList.remove('visible');
+            return;
+        }
+
+        panel.classList.add('visible');
+        bar.style.width = `${speed * 100}%`;
+
+        const inRhythm = speed >= this.STIR_RHYTHM_MIN && speed <= this.STIR_RHYTHM_MAX;
+        bar.classList.toggle('off-rhythm', !inRhythm);
+        text.textContent = speed < this.STIR_RHYTHM_MIN ? '太慢' : speed > this.STIR_RHYTHM_MAX ? '太快' : '節奏剛好';
+    }
+
+    /**
+     * 舀冰到容器（按住時每隔固定時間舀一次）
+     */
+    public scoopIce(container: BABYLON.TransformNode, iceType: IceType, deltaTime: number): void {
+        const contents = this.containerContents.get(container);
+        const iceData = this.iceDatabase.get(iceType);
+        if (!contents || !iceData) return;
+
+        this.iceScoopCooldown -= deltaTime;
+        if (this.iceScoopCooldown > 0) return;
+        this.iceScoopCooldown = this.ICE_SCOOP_INTERVAL;
+
+        // 大冰塊有數量上限
+        const existingIce = contents.ice.find(ice => ice.type === iceType);
+        if (iceData.maxPieces !== undefined && existingIce &&
+            existingIce.amount >= iceData.scoopAmount * iceData.maxPieces * 0.5) {
+            console.log(`${iceData.name}已經放滿了！`);
+            return;
+        }
+
+        const amount = Math.min(iceData.scoopAmount, contents.maxVolume - this.getFillVolume(contents));
+        if (amount <= 0) {
+            console.log('容器已滿！');
+            return;
+        }
+
+        if (existingIce) {
+            existingIce.amount += amount;
+        } else {
+            contents.ice.push({ type: iceType, amount });
+        }
+
+        this.updateIceVisual(container);
+        this.updateLiquidVisual(container);
+    }
+
+    /**
+     * 融冰：冰塊轉為水稀釋飲品，同時讓酒液降溫
+     * agitation 為搖盪/攪拌時的加速倍率，靜置為 1
+     */
+    private meltIce(container: BABYLON.TransformNode, deltaTime: number, agitation: number = 1): void {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.ice.length === 0) return;
+
+        // 沒有液體時冰塊只接觸空氣，融得較慢；酒液越冷融得越慢
+        const warmth = (contents.temperature - this.ICE_EQUILIBRIUM_TEMPERATURE) /
+            (this.AMBIENT_TEMPERATURE - this.ICE_EQUILIBRIUM_TEMPERATURE);
+        const contactFactor = contents.volume > 0 ? Math.max(0.2, warmth) : 0.3;
+        let meltedTotal = 0;
+
+        contents.ice.forEach(ice => {
+            const iceData = this.iceDatabase.get(ice.type);
+            if (!iceData) return;
+
+            const melted = Math.min(ice.amount, iceData.meltRate * agitation * contactFactor * deltaTime);
+            ice.amount -= melted;
+            meltedTotal += melted;
+
+            // 冰與酒液接觸降溫
+            if (contents.volume > 0) {
+                const chill = 1 - Math.exp(-iceData.chillRate * agitation * deltaTime);
+                contents.temperature += (this.ICE_EQUILIBRIUM_TEMPERATURE - contents.temperature) * chill;
+            }
+        });
+
+        const pieceCountBefore = contents.iceMeshes.length;
+        contents.ice = contents.ice.filter(ice => ice.amount > 0.5);
+
+        if (meltedTotal > 0) {
+            this.addIngredient(contents, 'water', meltedTotal, 0);
+            this.updateMixedColor(container);
+        }
+
+        // 冰塊數量有變化時才重建冰塊網格
+        if (this.getIcePieceCount(contents) !== pieceCountBefore) {
+            this.updateIceVisual(container);
+        }
+    }
+
+    /**
+     * 計算容器內冰塊總體積
+     */
+    private getIceVolume(contents: ContainerContents): number {
+        return contents.ice.reduce((sum, ice) => sum + ice.amount, 0);
+    }
+
+    /**
+     * 計算容器總佔用體積（液體 + 冰塊）
+     */
+    private getFillVolume(contents: ContainerContents): number {
+        return contents.volume + this.getIceVolume(contents);
+    }
+
+    /**
+     * 計算要顯示的冰塊數量（每塊約 20ml，碎冰顯示為較多小塊）
+     */
+    private getIcePieceCount(contents: ContainerContents): number {
+        let count = 0;
+        contents.ice.forEach(ice => {
+            if (ice.type === IceType.ROCK) {
+                count += 1;
+            } else {
+                count += Math.ceil(ice.amount / 20);
+            }
+        });
+        return Math.min(count, 12);
+    }
+
+    /**
+     * 更新冰塊視覺效果
+     */
+    private updateIceVisual(container: BABYLON.TransformNode): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.iceMeshes.forEach(mesh => mesh.dispose());
+        contents.iceMeshes = [];
+
+        if (!this.iceMaterial) {
+            this.iceMaterial = new BABYLON.PBRMaterial('iceMat', this.scene);
+            this.iceMaterial.albedoColor = new BABYLON.Color3(0.9, 0.95, 1.0);
+            this.iceMaterial.metallic = 0.0;
+            this.iceMaterial.roughness = 0.1;
+            this.iceMaterial.alpha = 0.55;
+            this.iceMaterial.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+            this.iceMaterial.indexOfRefraction = 1.31; // 冰的折射率
+        }
+
+        let pieceIndex = 0;
+        const maxPieces = this.getIcePieceCount(contents);
+
+        contents.ice.forEach(ice => {
+            const pieces = ice.type === IceType.ROCK ? 1 : Math.ceil(ice.amount / 20);
+
+            for (let i = 0; i < pieces && pieceIndex < maxPieces; i++, pieceIndex++) {
+                let piece: BABYLON.Mesh;
+
+                if (ice.type === IceType.ROCK) {
+                    piece = BABYLON.MeshBuilder.CreateBox(
+                        `ice_${container.name}_${pieceIndex}`,
+                        { size: 0.16 },
+                        this.scene
+                    );
+                } else {
+                    const size = ice.type === IceType.CRUSHED ? 0.04 : 0.07;
+                    piece = BABYLON.MeshBuilder.CreateBox(
+                        `ice_${container.name}_${pieceIndex}`,
+                        { size },
+                        this.scene
+                    );
+                }
+
+                // 以黃金角分佈排列冰塊，避免重疊
+                const angle = pieceIndex * 2.399;
+                const radius = ice.type === IceType.ROCK ? 0 : 0.05 + (pieceIndex % 3) * 0.025;
+                piece.position = new BABYLON.Vector3(
+                    Math.cos(angle) * radius,
+                    contents.innerProfile[0].y + 0.04 + Math.floor(pieceIndex / 4) * 0.07,
+                    Math.sin(angle) * radius
+                );
+                piece.rotation.y = angle;
+                piece.material = this.iceMaterial;
+                piece.parent = container;
+                piece.isPickable = false;
+
+                contents.iceMeshes.push(piece);
+            }
+        });
+    }
+
+    /**
+     * 更新溫度：酒液與杯身熱交換、杯身與室溫交換
+     */
+    private updateTemperature(contents: ContainerContents, deltaTime: number): void {
+        const exchange = (rate: number): number => 1 - Math.exp(-rate * deltaTime);
+
+        if (contents.volume > 0) {
+            // 酒液與杯身互相趨近
+            const diff = contents.glassTemperature - contents.temperature;
+            const k = exchange(this.GLASS_EXCHANGE_RATE);
+            contents.temperature += diff * k * this.LIQUID_HEAT_SHARE;
+            contents.glassTemperature -= diff * k * (1 - this.LIQUID_HEAT_SHARE);
+
+            // 沒有冰時酒液表面也會慢慢回溫
+            if (contents.ice.length === 0) {
+                contents.temperature +=
+                    (this.AMBIENT_TEMPERATURE - contents.temperature) * exchange(this.AMBIENT_EXCHANGE_RATE);
+            }
+        } else if (contents.ice.length > 0) {
+            // 空杯放冰可冰杯
+            contents.glassTemperature +=
+                (0 - contents.glassTemperature) * exchange(this.ICE_GLASS_CHILL_RATE);
+        }
+
+        // 杯身回溫
+        contents.glassTemperature +=
+            (this.AMBIENT_TEMPERATURE - contents.glassTemperature) * exchange(this.AMBIENT_EXCHANGE_RATE);
+
+        if (contents.volume <= 0) {
+            contents.temperature = contents.glassTemperature;
+        }
+    }
+
+    /**
+     * 設定容器是否有蓋（有蓋容器傾倒時不會灑出）
+     */
+    public setContainerSealed(container: BABYLON.TransformNode, sealed: boolean): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.sealed = sealed;
+    }
+
+    /**
+     * 灑出判定：液面（保持水平）因傾斜而越過杯緣時，超出的部分流出容器
+     */
+    private updateSpill(container: BABYLON.TransformNode, contents: ContainerContents, deltaTime: number): void {
+        if (contents.sealed || contents.volume <= 0) {
+            this.stopSpillParticles(container, contents);
+            return;
+        }
+
+        const worldMatrix = container.computeWorldMatrix();
+        const axisUp = BABYLON.Vector3.TransformNormal(BABYLON.Vector3.Up(), worldMatrix).normalize();
+        const tilt = Math.acos(Math.max(-1, Math.min(1, axisUp.y)));
+
+        // 液面以軸心為支點傾斜，杯緣低側的液面上升 R·tanθ
+        const profile = contents.innerProfile;
+        const rim = profile[profile.length - 1];
+        const headroom = rim.y - contents.liquidLevel;
+        const rise = tilt >= Math.PI / 2
+            ? Infinity
+            : this.getProfileRadius(profile, contents.liquidLevel) * Math.tan(tilt);
+        const overflow = rise - headroom;
+
+        if (overflow <= 0) {
+            this.stopSpillParticles(container, contents);
+            return;
+        }
+
+        const flow = this.SPILL_FLOW_RATE * Math.min(1, overflow / this.SPILL_FULL_FLOW_HEIGHT);
+        const amount = Math.min(flow * deltaTime, contents.volume);
+        this.removeLiquid(contents, amount);
+        contents.pendingSpill += amount;
+
+        // 杯緣最低點（朝傾斜方向）
+        const lean = new BABYLON.Vector3(axisUp.x, 0, axisUp.z);
+        const rimCenter = BABYLON.Vector3.TransformCoordinates(new BABYLON.Vector3(0, rim.y, 0), worldMatrix);
+        const spillPoint = lean.lengthSquared() > 0.0001
+            ? rimCenter.add(lean.normalize().scale(rim.radius))
+            : rimCenter;
+
+        this.updateSpillParticles(container, contents, spillPoint);
+
+        if (contents.pendingSpill >= this.PUDDLE_DEPOSIT_AMOUNT || contents.volume <= 0) {
+            this.depositPuddle(container, spillPoint, contents.pendingSpill, contents.color);
+            contents.pendingSpill = 0;
+        }
+
+        if (contents.volume <= 0) {
+            this.emptyContainer(container);
+        } else {
+            this.updateLiquidVisual(container);
+        }
+    }
+
+    /**
+     * 從容器移除液體（灑出）：材料按比例減少，分層由最上層開始流失
+     */
+    private removeLiquid(contents: ContainerContents, amount: number): void {
+        if (contents.volume <= 0) return;
+
+        const ratio = Math.min(1, amount / contents.volume);
+        contents.ingredients.forEach(ingredient => {
+            this.recordWaste(ingredient.type, ingredient.amount * ratio);
+            ingredient.amount -= ingredient.amount * ratio;
+        });
+        contents.frozenIce -= contents.frozenIce * ratio;
+        contents.foam -= contents.foam * ratio;
+        contents.ingredients = contents.ingredients.filter(ing => ing.amount > 0.01);
+        contents.volume = Math.max(0, contents.volume - amount);
+
+        let remaining = amount;
+        for (let i = contents.layers.length - 1; i >= 0 && remaining > 0; i--) {
+            const taken = Math.min(remaining, contents.layers[i].amount);
+            contents.layers[i].amount -= taken;
+            remaining -= taken;
+        }
+        contents.layers = contents.layers.filter(layer => layer.amount > 0.01);
+    }
+
+    /**
+     * 灑出時從杯緣落下的液滴
+     */
+    private updateSpillParticles(
+        container: BABYLON.TransformNode,
+        contents: ContainerContents,
+        spillPoint: BABYLON.Vector3
+    ): void {
+        const key = `spill_${container.name}`;
+        let particleSystem = this.particleSystems.get(key);
+
+        if (!particleSystem) {
+            particleSystem = new BABYLON.ParticleSystem(key, 300, this.scene);
+            particleSystem.particleTexture = new BABYLON.Texture(
+                'https://www.babylonjs.com/assets/Flare.png',
+                this.scene
+            );
+
+            const color = BABYLON.Color3.FromHexString('#' + contents.color.toString(16).padStart(6, '0'));
+            particleSystem.color1 = new BABYLON.Color4(color.r, color.g, color.b, 0.8);
+            particleSystem.color2 = new BABYLON.Color4(color.r, color.g, color.b, 0.6);
+            particleSystem.colorDead = new BABYLON.Color4(color.r, color.g, color.b, 0);
+
+            particleSystem.minSize = 0.015;
+            particleSystem.maxSize = 0.035;
+            particleSystem.minLifeTime = 0.3;
+            particleSystem.maxLifeTime = 0.7;
+            particleSystem.emitRate = 150;
+            particleSystem.minEmitBox = new BABYLON.Vector3(-0.02, 0, -0.02);
+            particleSystem.maxEmitBox = new BABYLON.Vector3(0.02, 0, 0.02);
+            particleSystem.direction1 = new BABYLON.Vector3(-0.2, -0.5, -0.2);
+            particleSystem.direction2 = new BABYLON.Vector3(0.2, 0, 0.2);
+            particleSystem.minEmitPower = 0.2;
+            particleSystem.maxEmitPower = 0.6;
+            particleSystem.gravity = new BABYLON.Vector3(0, -9.8, 0);
+            particleSystem.blendMode = BABYLON.ParticleSystem.BLENDMODE_STANDARD;
+            particleSystem.disposeOnStop = true;
+            particleSystem.start();
+
+            this.particleSystems.set(key, particleSystem);
+        }
+
+        particleSystem.emitter = spillPoint;
+    }
+
+    /**
+     * 停止灑出液滴，並把剩餘灑出量留在水漬上
+     */
+    private stopSpillParticles(container: BABYLON.TransformNode, contents: ContainerContents): void {
+        const key = `spill_${container.name}`;
+        const particleSystem = this.particleSystems.get(key);
+        if (!particleSystem) return;
+
+        if (contents.pendingSpill > 0 && particleSystem.emitter instanceof BABYLON.Vector3) {
+            this.depositPuddle(container, particleSystem.emitter, contents.pendingSpill, contents.color);
+        }
+        contents.pendingSpill = 0;
+
+        // 停止後等粒子落完自動釋放
+        particleSystem.stop();
+        this.particleSystems.delete(key);
+    }
+
+    /**
+     * 在灑出點正下方的吧檯或地板留下水漬（鄰近的水漬會合併擴大）
+     */
+    private depositPuddle(
+        container: BABYLON.TransformNode,
+        spillPoint: BABYLON.Vector3,
+        amount: number,
+        color: number
+    ): void {
+        const ray = new BABYLON.Ray(spillPoint, BABYLON.Vector3.Down(), 5);
+        const hit = this.scene.pickWithRay(
+            ray,
+            mesh => mesh.checkCollisions && !mesh.isDescendantOf(container) && mesh !== container
+        );
+        if (!hit || !hit.hit || !hit.pickedMesh || !hit.pickedPoint) return;
+
+        const target = hit.pickedMesh;
+        const normal = hit.getNormal(true) || BABYLON.Vector3.Up();
+
+        let puddle = this.puddles.find(p =>
+            p.target === target && BABYLON.Vector3.Distance(p.position, hit.pickedPoint!) < p.size / 2
+        );
+
+        if (!puddle) {
+            puddle = {
+                mesh: null,
+                target,
+                position: hit.pickedPoint.clone(),
+                normal,
+                volume: 0,
+                size: 0
+            };
+            this.puddles.push(puddle);
+
+            // 水漬數量上限，移除最舊的
+            if (this.puddles.length > this.MAX_PUDDLES) {
+                const oldest = this.puddles.shift();
+                oldest?.mesh?.material?.dispose();
+                oldest?.mesh?.dispose();
+            }
+        }
+
+        puddle.volume += amount;
+
+        // 直徑隨灑出量的平方根成長，變化超過 10% 才重建貼花
+        const size = Math.min(1.2, 0.08 + Math.sqrt(puddle.volume) * 0.025);
+        if (puddle.mesh && size < puddle.size * 1.1) return;
+
+        const material = (puddle.mesh?.material as BABYLON.PBRMaterial | null)
+            ?? this.createPuddleMaterial(color);
+        puddle.mesh?.dispose();
+
+        puddle.size = size;
+        puddle.mesh = BABYLON.MeshBuilder.CreateDecal(
+            'puddle',
+            target,
+            {
+                position: puddle.position,
+                normal: puddle.normal,
+                size: new BABYLON.Vector3(size, size, 0.2)
+            }
+        );
+        puddle.mesh.material = material;
+        puddle.mesh.isPickable = false;
+    }
+
+    /**
+     * 創建水漬材質（半透明、光滑的薄層）
+     */
+    private createPuddleMaterial(color: number): BABYLON.PBRMaterial {
+        const material = new BABYLON.PBRMaterial('puddleMat', this.scene);
+        material.albedoColor = BABYLON.Color3.FromHexString('#' + color.toString(16).padStart(6, '0'));
+        material.metallic = 0.0;
+        material.roughness = 0.05;
+        material.alpha = 0.55;
+        material.transparencyMode = BABYLON.PBRMaterial.PBRMATERIAL_ALPHABLEND;
+        material.zOffset = -2; // 避免與桌面 Z-fighting
+
+        return material;
+    }
+
+    /**
+     * 註冊杯身結霜層（由 BarEnvironment 建立杯子時提供）
+     */
+    public registerFrostLayer(container: BABYLON.TransformNode, frostMesh: BABYLON.Mesh): void {
+        const contents = this.containerContents.get(container);
+        if (!contents) return;
+
+        contents.frostMesh = frostMesh;
+        this.updateFrostVisual(contents);
+    }
+
+    /**
+     * 更新杯身結霜/水珠效果：12°C 以下起水霧，2°C 以下結霜
+     */
+    private updateFrostVisual(contents: ContainerContents): void {
+        if (!contents.frostMesh) return;
+
+        const material = contents.frostMesh.material as BABYLON.PBRMaterial;
+        if (!material) return;
+
+        const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+        const condensation = clamp01((12 - contents.glassTemperature) / 10);
+        const frost = clamp01((2 - contents.glassTemperature) / 6);
+
+        material.alpha = Math.max(condensation * 0.18, frost * 0.55);
+        material.roughness = 0.15 + frost * 0.75;
+        contents.frostMesh.isVisible = material.alpha > 0.01;
+    }
+
+    /**
+     * 獲取冰塊資料
+     */
+    public getIceData(iceType: IceType): IceData | undefined {
+        return this.iceDatabase.get(iceType);
+    }
+
+    /**
+     * 記錄容器動作（與上一筆相同的動作會合併累計）
+     */
+    private recordAction(contents: ContainerContents, action: ContainerAction): void {
+        const last = contents.actions[contents.actions.length - 1];
+
+        if (last && last.type === action.type &&
+            last.ingredient === action.ingredient && last.source === action.source) {
+            if (action.amount !== undefined) {
+                last.amount = (last.amount || 0) + action.amount;
+            }
+            if (action.duration !== undefined) {
+                last.duration = (last.duration || 0) + action.duration;
+            }
+            return;
+        }
+
+        contents.actions.push({ ...action });
+    }
+
+    /**
+     * 記錄容器間的轉移，轉移開始時目標容器繼承來源的調製手法
+     */
+    private recordTransfer(
+        source: ContainerContents,
+        target: ContainerContents,
+        sourceName: string,
+        amount: number,
+        type: ContainerActionType = ContainerActionType.TRANSFER
+    ): void {
+        const last = target.actions[target.actions.length - 1];
+        const isContinuing = last && last.type === type && last.source === sourceName;
+
+        if (!isContinuing) {
+            const methodActions = [
+                ContainerActionType.SHAKE,
+                ContainerActionType.STIR,
+                ContainerActionType.MUDDLE,
+                ContainerActionType.BLEND,
+                ContainerActionType.DRY_SHAKE
+            ];
+            source.actions
+                .filter(action => methodActions.includes(action.type))
+                .forEach(action => target.actions.push({ ...action }));
+        }
+
+        this.recordAction(target, { type, amount, source: sourceName });
+    }
+
+    /**
+     * 獲取容器內已完成的調製手法（動作時間需達門檻）
+     */
+    private getPerformedMethods(contents: ContainerContents): Set<PreparationMethod> {
+        const totalDuration = (type: ContainerActionType): number =>
+            contents.actions
+                .filter(action => action.type === type)
+                .reduce((sum, action) => sum + (action.duration || 0), 0);
+
+        const methods = new Set<PreparationMethod>();
+        if (totalDuration(ContainerActionType.SHAKE) >= this.MIN_SHAKE_SECONDS) {
+            methods.add(PreparationMethod.SHAKE);
+        }
+        if (totalDuration(ContainerActionType.STIR) >= this.MIN_STIR_SECONDS) {
+            methods.add(PreparationMethod.STIR);
+        }
+        if (totalDuration(ContainerActionType.MUDDLE) >= this.MIN_MUDDLE_SECONDS) {
+            methods.add(PreparationMethod.MUDDLE);
+        }
+        if (totalDuration(ContainerActionType.BLEND) >= this.MIN_BLEND_SECONDS) {
+            methods.add(PreparationMethod.BLEND);
+        }
+        return methods;
+    }
+
+    /**
+     * 判斷容器的主要調製手法
+     */
+    public getPreparationMethod(contents: ContainerContents): PreparationMethod {
+        const methods = this.getPerformedMethods(contents);
+        const priority = [
+            PreparationMethod.BLEND,
+            PreparationMethod.SHAKE,
+            PreparationMethod.STIR,
+            PreparationMethod.MUDDLE
+        ];
+        return priority.find(method => methods.has(method)) ?? PreparationMethod.BUILD;
+    }
+
+    /**
+     * 檢查容器是否符合配方要求的調製手法
+     */
+    private isMethodSatisfied(recipe: CocktailRecipe, contents: ContainerContents): boolean {
+        const methods = this.getPerformedMethods(contents);
+        const isAgitated = methods.has(PreparationMethod.SHAKE) || methods.has(PreparationMethod.BLEND);
+
+        switch (recipe.preparation) {
+            case PreparationMethod.SHAKE:
+                return methods.has(PreparationMethod.SHAKE);
+            case PreparationMethod.BLEND:
+                return methods.has(PreparationMethod.BLEND);
+            case PreparationMethod.STIR:
+                return methods.has(PreparationMethod.STIR) && !isAgitated;
+            case PreparationMethod.MUDDLE:
+                return methods.has(PreparationMethod.MUDDLE);
+            case PreparationMethod.BUILD:
+            default:
+                // 直調的飲品攪拌均勻也算正確
+                return !isAgitated;
+        }
+    }
+
+    /**
+     * 獲取調製手法的顯示名稱
+     */
+    public getMethodLabel(method: PreparationMethod): string {
+        return METHOD_LABELS[method];
+    }
+
+    /**
+     * 獲取杯型名稱
+     */
+    public getGlassLabel(glassType: GlassType): string {
+        return GLASS_LABELS[glassType];
+    }
+
+    /**
+     * 獲取 IBA 分類名稱
+     */
+    public getCategoryLabel(category: IBACategory): string {
+        return IBA_CATEGORY_LABELS[category];
+    }
+
+    /**
+     * 獲取調酒年代名稱
+     */
+    public getEraLabel(era: CocktailEra): string {
+        return ERA_LABELS[era];
+    }
+
     /**
      * 增強混合效果
      */
@@ -848,7 +4047,8 @@ export default class CocktailSystem {
         const contents = this.containerContents.get(container);
         if (!contents) return;
 
-        // 混合後顏色更均勻
+        // 混合後分層消失、顏色更均勻
+        this.collapseLayers(contents);
         this.updateMixedColor(container);
         this.updateLiquidVisual(container);
     }
@@ -887,7 +4087,7 @@ export default class CocktailSystem {
     /**
      * 喝掉飲品
      */
-    public drink(container: BABYLON.TransformNode, startAnimation: boolean = true): any | null {
+    public drink(container: BABYLON.TransformNode, startAnimation: boolean = true): DrinkInfo | null {
         const contents = this.containerContents.get(container);
         if (!contents || contents.volume === 0) {
             console.log('杯子是空的！');
@@ -904,10 +4104,12 @@ export default class CocktailSystem {
         }
 
         // 獲取飲品資訊
-        const drinkInfo = {
+        const drinkInfo: DrinkInfo = {
             volume: contents.volume,
             ingredients: [...contents.ingredients],
             color: contents.color,
+            method: this.getPreparationMethod(contents),
+            temperature: contents.temperature,
             name: this.identifyCocktail(contents)
         };
 
@@ -915,6 +4117,18 @@ export default class CocktailSystem {
         contents.ingredients = [];
         contents.volume = 0;
         contents.color = 0xffffff;
+        contents.actions = [];
+        contents.ice = [];
+        contents.solids = [];
+        contents.layers = [];
+        contents.frozenIce = 0;
+        contents.carbonation = 0;
+        contents.foam = 0;
+        this.clearGarnishes(contents);
+        this.clearRim(contents);
+        contents.temperature = contents.glassTemperature;
+        this.updateIceVisual(container);
+        this.updateSolidVisual(container);
 
         // 更新視覺
         this.updateLiquidVisual(container);
@@ -923,10 +4137,31 @@ export default class CocktailSystem {
         return drinkInfo;
     }
 
+    /**
+     * 把飲品端給 NPC：喝掉前先記下評分、風味與酒精濃度（指定配方時依該配方評分，例如客人點的酒）
+     */
+    public serveDrink(container: BABYLON.TransformNode, recipeId?: string): ServedDrink | null {
+        const contents = this.containerContents.get(container);
+        if (!contents || contents.volume === 0) {
+            console.log('杯子是空的！');
+            return null;
+        }
+
+        const recipe = recipeId ? this.getRecipeById(recipeId) : undefined;
+        const score = this.scoreDrink(contents, recipe);
+        const flavor = this.computeFlavorBalance(contents);
+        const alcoholContent = this.calculateAlcoholContent(contents);
+
+        const drinkInfo = this.drink(container, false);
+        if (!drinkInfo) return null;
+
+        return { ...drinkInfo, alcoholContent, score, flavor };
+    }
+
     /**
      * 取得並清除最後一次喝酒的資訊
      */
-    public getLastDrinkInfo(): any | null {
+    public getLastDrinkInfo(): DrinkInfo | null {
         const info = this.lastDrinkInfo;
         this.lastDrinkInfo = null;
         return info;
@@ -957,10 +4192,12 @@ export default class CocktailSystem {
             // 實際消耗飲品
             const contents = this.containerContents.get(this.currentDrinkingGlass);
             if (contents && contents.volume > 0) {
-                const drinkInfo = {
+                const drinkInfo: DrinkInfo = {
                     volume: contents.volume,
                     ingredients: [...contents.ingredients],
                     color: contents.color,
+                    method: this.getPreparationMethod(contents),
+                    temperature: contents.temperature,
                     name: this.identifyCocktail(contents)
                 };
 
@@ -968,6 +4205,18 @@ export default class CocktailSystem {
                 contents.ingredients = [];
                 contents.volume = 0;
                 contents.color = 0xffffff;
+                contents.actions = [];
+                contents.ice = [];
+                contents.solids = [];
+                contents.layers = [];
+                contents.frozenIce = 0;
+                contents.carbonation = 0;
+                contents.foam = 0;
+                this.clearGarnishes(contents);
+                this.clearRim(contents);
+                contents.temperature = contents.glassTemperature;
+                this.updateIceVisual(this.currentDrinkingGlass);
+                this.updateSolidVisual(this.currentDrinkingGlass);
                 this.updateLiquidVisual(this.currentDrinkingGlass);
 
                 // 儲存飲品資訊
@@ -983,150 +4232,300 @@ export default class CocktailSystem {
      * 識別雞尾酒
      */
     public identifyCocktail(contents: ContainerContents): string {
-        const ingredients = contents.ingredients;
-        const types = ingredients.map(ing => ing.type);
-
-        // 獲取每種材料的量
-        const getAmount = (type: string): number => {
-            const ing = ingredients.find(i => i.type === type);
-            return ing ? ing.amount : 0;
-        };
-
-        // === 經典調酒識別 ===
-
-        // Martini（馬丁尼）
-        if (types.includes('gin') && types.includes('vermouth_dry')) {
-            const ginAmount = getAmount('gin');
-            const vermouthAmount = getAmount('vermouth_dry');
-            const ratio = ginAmount / vermouthAmount;
-
-            const hasOtherSpirits = types.some(t =>
-                ['vodka', 'rum', 'whiskey', 'tequila', 'brandy', 'campari'].includes(t)
-            );
-            const hasJuice = types.some(t =>
-                ['orange_juice', 'cranberry_juice', 'pineapple_juice', 'tomato_juice', 'grapefruit_juice'].includes(t)
-            );
-
-            const allowedExtras = ['lemon_juice', 'lime_juice', 'simple_syrup'];
-            const hasOnlyAllowedExtras = types.filter(t =>
-                t !== 'gin' && t !== 'vermouth_dry'
-            ).every(t => allowedExtras.includes(t));
-
-            if (!hasOtherSpirits && !hasJuice && hasOnlyAllowedExtras && ratio >= 2 && ratio <= 3) {
-                return '馬丁尼 (Martini)';
+        const types = contents.ingredients
+            .map(ing => ing.type)
+            .filter(t => !DILUTION_TYPES.includes(t));
+
+        // === 經典調酒識別（依配方資料） ===
+        const recipe = this.matchRecipe(contents);
+        if (recipe) {
+            const name = `${recipe.nameChinese} (${recipe.name})`;
+            if (!this.isMethodSatisfied(recipe, contents)) {
+                return `${name} - 尚未${METHOD_LABELS[recipe.preparation]}`;
             }
+            return name;
         }
 
-        // Vodka Martini
-        if (types.includes('vodka') && types.includes('vermouth_dry')) {
-            const vodkaAmount = getAmount('vodka');
-            const vermouthAmount = getAmount('vermouth_dry');
-            const ratio = vodkaAmount / vermouthAmount;
-
-            const hasOtherSpirits = types.some(t =>
-                ['gin', 'rum', 'whiskey', 'tequila', 'brandy', 'campari'].includes(t)
-            );
+        // === 簡單配方匹配 ===
+        if (types.includes('vodka') && types.length === 1) {
+            return '伏特加純飲';
+        } else if (types.includes('gin') && types.length === 1) {
+            return '琴酒純飲';
+        } else if (types.includes('rum') && types.includes('liqueur')) {
+            return '熱帶雞尾酒';
+        } else if (types.includes('vodka') && types.includes('liqueur')) {
+            return '性感海灘';
+        } else if (types.length > 2) {
+            return '特調混酒';
+        } else if (types.length === 2) {
+            return '雙料調酒';
+        } else {
+            return '未知飲品';
+        }
+    }
 
-            if (!hasOtherSpirits && ratio >= 2 && ratio <= 3) {
-                return '伏特加馬丁尼 (Vodka Martini)';
+    /**
+     * 依配方資料找出最符合的調酒（多個配方成立時優先取手法正確、再取比例誤差最小者）
+     */
+    public matchRecipe(contents: ContainerContents): CocktailRecipe | null {
+        let bestRecipe: CocktailRecipe | null = null;
+        let bestDeviation = Infinity;
+
+        for (const recipe of this.recipes) {
+            const deviation = this.getRecipeDeviation(recipe, contents);
+            if (deviation === null) continue;
+
+            // 正規化誤差不超過 1，手法不符時加 1 使其排在手法正確的配方之後；
+            // 裝飾相符的配方優先（例如以橄欖或珍珠洋蔥區分 Martini 與 Gibson）
+            const methodRank = this.isMethodSatisfied(recipe, contents) ? deviation : deviation + 1;
+            const rank = methodRank + this.getGarnishMismatch(recipe, contents) * this.GARNISH_MATCH_WEIGHT;
+            if (rank < bestDeviation) {
+                bestRecipe = recipe;
+                bestDeviation = rank;
             }
         }
 
-        // Negroni
-        if (types.includes('gin') && types.includes('campari') && types.includes('vermouth_sweet')) {
-            const ginAmount = getAmount('gin');
-            const campariAmount = getAmount('campari');
-            const vermouthAmount = getAmount('vermouth_sweet');
+        return bestRecipe;
+    }
 
-            const avgAmount = (ginAmount + campariAmount + vermouthAmount) / 3;
-            const isBalanced =
-                Math.abs(ginAmount - avgAmount) / avgAmount < 0.3 &&
-                Math.abs(campariAmount - avgAmount) / avgAmount < 0.3 &&
-                Math.abs(vermouthAmount - avgAmount) / avgAmount < 0.3;
+    /**
+     * 計算容器內容與配方的最大相對比例誤差，不成立時回傳 null
+     */
+    private getRecipeDeviation(recipe: CocktailRecipe, contents: ContainerContents): number | null {
+        const types = contents.ingredients
+            .map(ing => ing.type)
+            .filter(t => !DILUTION_TYPES.includes(t));
+        const recipeTypes = recipe.ingredients.map(ing => ing.type);
+
+        // 禁用材料
+        if (recipe.forbidden?.some(t => types.includes(t))) return null;
+
+        // 必要材料需全部出現（含需壓搗的固體材料）
+        const required = recipe.ingredients.filter(ing => !ing.optional);
+        if (!required.every(ing => types.includes(ing.type))) return null;
+        if (recipe.solids?.some(solid => !contents.solids.some(item => item.type === solid.type))) return null;
+
+        // 配方外的材料必須是允許的額外材料
+        const allowedExtras = recipe.allowedExtras || [];
+        const hasUnlistedExtras = types.some(t =>
+            !recipeTypes.includes(t) && !allowedExtras.includes(t)
+        );
+        if (hasUnlistedExtras) return null;
 
-            if (isBalanced) {
-                return '內格羅尼 (Negroni)';
-            }
+        // 比較必要材料之間的佔比
+        const getAmount = (type: string): number => {
+            const ing = contents.ingredients.find(i => i.type === type);
+            return ing ? ing.amount : 0;
+        };
+        const targetTotal = required.reduce((sum, ing) => sum + ing.amount, 0);
+        const actualTotal = required.reduce((sum, ing) => sum + getAmount(ing.type), 0);
+        if (targetTotal <= 0 || actualTotal <= 0) return null;
+
+        let maxDeviation = 0;
+        for (const ing of required) {
+            const targetShare = ing.amount / targetTotal;
+            const actualShare = getAmount(ing.type) / actualTotal;
+            const deviation = Math.abs(actualShare - targetShare) / targetShare;
+            const tolerance = ing.tolerance ?? recipe.tolerance;
+
+            if (deviation > tolerance) return null;
+            // 以容許誤差正規化，讓不同容許度的配方可互相比較
+            maxDeviation = Math.max(maxDeviation, deviation / tolerance);
         }
 
-        // Margarita
-        if (types.includes('tequila') && types.includes('triple_sec') && types.includes('lime_juice')) {
-            return '瑪格麗特 (Margarita)';
+        return maxDeviation;
+    }
+
+    /**
+     * 評分飲品（0-100），未指定配方時以最接近的配方評分
+     */
+    public scoreDrink(contents: ContainerContents, recipe?: CocktailRecipe): DrinkScore | null {
+        if (contents.ingredients.length === 0) return null;
+
+        if (recipe) {
+            return this.scoreAgainstRecipe(contents, recipe);
         }
 
-        // Daiquiri
-        if (types.includes('rum') && types.includes('lime_juice') && types.includes('simple_syrup')) {
-            return '黛克瑞 (Daiquiri)';
+        const matchedRecipe = this.matchRecipe(contents);
+        if (matchedRecipe) {
+            return this.scoreAgainstRecipe(contents, matchedRecipe);
         }
 
-        // Piña Colada
-        if (types.includes('rum') && types.includes('pineapple_juice') && types.includes('coconut_cream')) {
-            return '椰林風情 (Piña Colada)';
+        let best: DrinkScore | null = null;
+        for (const candidate of this.recipes) {
+            const result = this.scoreAgainstRecipe(contents, candidate);
+            if (!best || result.score > best.score) {
+                best = result;
+            }
         }
+        return best;
+    }
 
-        // Cosmopolitan
-        if (types.includes('vodka') && types.includes('triple_sec') &&
-            types.includes('cranberry_juice') && types.includes('lime_juice')) {
-            return '柯夢波丹 (Cosmopolitan)';
-        }
+    /**
+     * 評分指定容器內的飲品
+     */
+    public scoreContainer(container: BABYLON.TransformNode, recipeId?: string): DrinkScore | null {
+        const contents = this.containerContents.get(container);
+        if (!contents) return null;
 
-        // Mojito
-        if (types.includes('rum') && types.includes('lime_juice') && types.includes('simple_syrup')) {
-            return '莫希托 (Mojito)';
-        }
+        const recipe = recipeId ? this.getRecipeById(recipeId) : undefined;
+        return this.scoreDrink(contents, recipe);
+    }
 
-        // Manhattan
-        if (types.includes('whiskey') && types.includes('vermouth_sweet')) {
-            return '曼哈頓 (Manhattan)';
-        }
+    /**
+     * 依配方計算分數與各材料的過量/不足明細
+     */
+    private scoreAgainstRecipe(contents: ContainerContents, recipe: CocktailRecipe): DrinkScore {
+        const types = contents.ingredients
+            .map(ing => ing.type)
+            .filter(t => !DILUTION_TYPES.includes(t));
+        const recipeTypes = recipe.ingredients.map(ing => ing.type);
+        const allowedExtras = recipe.allowedExtras || [];
 
-        // Whiskey Sour
-        if (types.includes('whiskey') && types.includes('lemon_juice') && types.includes('simple_syrup')) {
-            return '威士忌酸酒 (Whiskey Sour)';
-        }
+        const getAmount = (type: string): number => {
+            const ing = contents.ingredients.find(i => i.type === type);
+            return ing ? ing.amount : 0;
+        };
 
-        // Bloody Mary
-        if (types.includes('vodka') && types.includes('tomato_juice')) {
-            return '血腥瑪麗 (Bloody Mary)';
-        }
+        const required = recipe.ingredients.filter(ing => !ing.optional);
+        const targetTotal = required.reduce((sum, ing) => sum + ing.amount, 0);
+        const actualTotal = required.reduce((sum, ing) => sum + getAmount(ing.type), 0);
+
+        // 各材料明細（選用材料只在有加入時列出）
+        const ingredientScores: IngredientScore[] = recipe.ingredients
+            .filter(ing => !ing.optional || types.includes(ing.type))
+            .map(ing => {
+                const actualAmount = getAmount(ing.type);
+                const targetShare = ing.optional ? 0 : ing.amount / targetTotal;
+                const actualShare = ing.optional || actualTotal === 0 ? 0 : actualAmount / actualTotal;
+                return {
+                    type: ing.type,
+                    name: ing.name,
+                    targetAmount: ing.amount,
+                    actualAmount,
+                    diffMl: actualAmount - ing.amount,
+                    targetShare,
+                    actualShare,
+                    ratioDeviation: targetShare > 0 ? (actualShare - targetShare) / targetShare : 0
+                };
+            });
 
-        // Screwdriver
-        if (types.includes('vodka') && types.includes('orange_juice') && types.length === 2) {
-            return '螺絲起子 (Screwdriver)';
-        }
+        const missing = required.filter(ing => !types.includes(ing.type)).map(ing => ing.type);
+        const forbidden = types.filter(t => recipe.forbidden?.includes(t));
+        const extras = types.filter(t =>
+            !recipeTypes.includes(t) && !allowedExtras.includes(t) && !forbidden.includes(t)
+        );
 
-        // Tequila Sunrise
-        if (types.includes('tequila') && types.includes('orange_juice') && types.includes('grenadine')) {
-            return '龍舌蘭日出 (Tequila Sunrise)';
-        }
+        // 比例扣分：依配方佔比加權，單一材料最多扣其佔比的全部
+        let ratioPenalty = 0;
+        ingredientScores.forEach(item => {
+            ratioPenalty += item.targetShare * Math.min(1, Math.abs(item.ratioDeviation)) * 100;
+        });
 
-        // Mai Tai
-        if (types.includes('rum') && types.includes('triple_sec') && types.includes('lime_juice')) {
-            return '邁泰 (Mai Tai)';
-        }
+        // 總量扣分：偏離配方總量 25% 以上才開始扣
+        const volumeDeviation = targetTotal > 0 ? Math.abs(actualTotal - targetTotal) / targetTotal : 0;
+        const volumePenalty = Math.min(
+            this.SCORE_VOLUME_PENALTY,
+            Math.max(0, volumeDeviation - 0.25) * this.SCORE_VOLUME_PENALTY * 2
+        );
 
-        // Long Island Iced Tea
-        if (types.includes('vodka') && types.includes('rum') && types.includes('gin') &&
-            types.includes('tequila') && types.includes('triple_sec')) {
-            return '長島冰茶 (Long Island Iced Tea)';
-        }
+        // 調製手法
+        const methodCorrect = this.isMethodSatisfied(recipe, contents);
+
+        // 溫度：超過出杯溫度上限每 1°C 扣 1.5 分
+        const overheat = Math.max(0, contents.temperature - recipe.servingTemperature);
+        const temperaturePenalty = Math.min(this.SCORE_TEMPERATURE_PENALTY, overheat * 1.5);
+
+        // 分層：層次被混掉
+        const layersOk = !recipe.layers || contents.layers.length >= recipe.layers;
+
+        // 固體材料：缺少比照必要材料扣分，萃取不足另外扣分
+        const solidScores: SolidScore[] = (recipe.solids || []).map(solid => {
+            const item = contents.solids.find(candidate => candidate.type === solid.type);
+            return {
+                type: solid.type,
+                name: solid.name,
+                targetCount: solid.count,
+                actualCount: item ? item.count : 0,
+                extraction: item ? item.extraction : 0
+            };
+        });
+        const missingSolids = solidScores.filter(item => item.actualCount === 0).map(item => item.type);
+        const muddledOk = solidScores.every(item =>
+            item.actualCount === 0 || item.extraction >= this.MIN_MUDDLE_EXTRACTION
+        );
 
-        // === 簡單配方匹配 ===
-        if (types.includes('vodka') && types.length === 1) {
-            return '伏特加純飲';
-        } else if (types.includes('gin') && types.length === 1) {
-            return '琴酒純飲';
-        } else if (types.includes('rum') && types.includes('liqueur')) {
-            return '熱帶雞尾酒';
-        } else if (types.includes('vodka') && types.includes('liqueur')) {
-            return '性感海灘';
-        } else if (types.length > 2) {
-            return '特調混酒';
-        } else if (types.length === 2) {
-            return '雙料調酒';
-        } else {
-            return '未知飲品';
-        }
+        // 冰沙質地
+        const frozenRatio = this.getFrozenRatio(contents);
+        const frozenOk = !recipe.frozen || frozenRatio >= this.MIN_FROZEN_RATIO;
+
+        // 裝飾與杯緣（沒指定沾邊的配方沾了也不扣分）
+        const missingGarnishes = this.getMissingGarnishes(recipe, contents);
+        const rimOk = !recipe.rim || contents.rim?.type === recipe.rim;
+
+        // 杯型（還在 Shaker 等器具中時不檢查）
+        const glassOk = contents.glassType === null ||
+            contents.glassType === recipe.glass ||
+            (recipe.acceptedGlasses || []).includes(contents.glassType);
+
+        // 氣泡：配方含碳酸材料且已加入時，低於要求的氣泡程度依比例扣分
+        const carbonated = this.getCarbonatedVolume(contents) > 0 &&
+            recipe.ingredients.some(ing => this.liquorDatabase.get(ing.type)?.carbonation);
+        const flatness = carbonated ? Math.max(0, this.MIN_FIZZ - contents.carbonation) / this.MIN_FIZZ : 0;
+        const flatPenalty = flatness * this.SCORE_FLAT_PENALTY;
+
+        // 泡沫層：不足要求的量時依比例扣分
+        const foamShortfall = recipe.foam ? Math.max(0, recipe.foam - contents.foam) / recipe.foam : 0;
+        const foamPenalty = foamShortfall * this.SCORE_FOAM_PENALTY;
+
+        const score = 100
+            - ratioPenalty
+            - (layersOk ? 0 : this.SCORE_LAYER_PENALTY)
+            - volumePenalty
+            - (methodCorrect ? 0 : this.SCORE_METHOD_PENALTY)
+            - temperaturePenalty
+            - missing.length * this.SCORE_MISSING_PENALTY
+            - missingSolids.length * this.SCORE_MISSING_PENALTY
+            - (muddledOk ? 0 : this.SCORE_MUDDLE_PENALTY)
+            - (frozenOk ? 0 : this.SCORE_FROZEN_PENALTY)
+            - missingGarnishes.length * this.SCORE_GARNISH_PENALTY
+            - (rimOk ? 0 : this.SCORE_RIM_PENALTY)
+            - (glassOk ? 0 : this.SCORE_GLASS_PENALTY)
+            - flatPenalty
+            - foamPenalty
+            - extras.length * this.SCORE_EXTRA_PENALTY
+            - forbidden.length * this.SCORE_FORBIDDEN_PENALTY;
+
+        return {
+            recipeId: recipe.id,
+            recipeName: `${recipe.nameChinese} (${recipe.name})`,
+            score: Math.round(Math.max(0, Math.min(100, score))),
+            matched: this.getRecipeDeviation(recipe, contents) !== null,
+            ingredients: ingredientScores,
+            missing,
+            extras,
+            forbidden,
+            expectedMethod: recipe.preparation,
+            actualMethod: this.getPreparationMethod(contents),
+            methodCorrect,
+            temperature: contents.temperature,
+            targetTemperature: recipe.servingTemperature,
+            temperatureOk: overheat === 0,
+            layersOk,
+            solids: solidScores,
+            missingSolids,
+            muddledOk,
+            frozenRatio,
+            frozenOk,
+            missingGarnishes,
+            rimOk,
+            glassType: contents.glassType,
+            glassOk,
+            carbonation: carbonated ? contents.carbonation : null,
+            carbonationOk: flatness === 0,
+            foamVolume: contents.foam,
+            foamOk: foamShortfall === 0
+        };
     }
 
     /**
@@ -1136,13 +4535,80 @@ export default class CocktailSystem {
         const contents = this.containerContents.get(container);
         if (!contents) return;
 
+        // 倒掉的液體計入耗損
+        contents.ingredients.forEach(ingredient => this.recordWaste(ingredient.type, ingredient.amount));
+
         contents.ingredients = [];
         contents.volume = 0;
         contents.color = 0xffffff;
+        contents.actions = [];
+        contents.ice = [];
+        contents.solids = [];
+        contents.layers = [];
+        contents.frozenIce = 0;
+        contents.carbonation = 0;
+        contents.foam = 0;
+        this.clearGarnishes(contents);
+        this.clearRim(contents);
+        contents.temperature = contents.glassTemperature;
+        this.updateIceVisual(container);
+        this.updateSolidVisual(container);
+        this.detachStrainer(container);
 
         this.updateLiquidVisual(container);
     }
 
+    /**
+     * 記錄灑出或倒掉的材料量（融冰的水不花錢，不算耗損）
+     */
+    private recordWaste(type: string, amount: number): void {
+        if (amount <= 0 || DILUTION_TYPES.includes(type)) return;
+        this.wasteLog.set(type, (this.wasteLog.get(type) ?? 0) + amount);
+    }
+
+    /**
+     * 計算一組液體材料的成本（NT$）
+     */
+    public getIngredientsCost(ingredients: Array<{ type: string; amount: number }>): number {
+        return ingredients.reduce(
+            (sum, ing) => sum + ing.amount * (this.liquorDatabase.get(ing.type)?.costPerMl ?? 0),
+            0
+        );
+    }
+
+    /**
+     * 配方的標準成本：必要材料加上需壓搗的固體材料（NT$）
+     */
+    public getRecipeCost(recipe: CocktailRecipe): number {
+        const liquidCost = this.getIngredientsCost(recipe.ingredients.filter(ing => !ing.optional));
+        const solidCost = (recipe.solids || []).reduce(
+            (sum, solid) => sum + solid.count * (this.solidDatabase.get(solid.type)?.cost ?? 0),
+            0
+        );
+        return liquidCost + solidCost;
+    }
+
+    /**
+     * 取得本次的材料用量與耗損成本
+     */
+    public getCostReport(): CostReport {
+        const waste = Array.from(this.wasteLog.entries())
+            .map(([type, volume]) => ({
+                type,
+                name: this.liquorDatabase.get(type)?.name ?? type,
+                volume,
+                cost: this.getIngredientsCost([{ type, amount: volume }])
+            }))
+            .sort((a, b) => b.cost - a.cost || b.volume - a.volume);
+
+        return {
+            usageCost: this.usageCost,
+            wasteVolume: waste.reduce((sum, item) => sum + item.volume, 0),
+            wasteCost: waste.reduce((sum, item) => sum + item.cost, 0),
+            waste
+        };
+    }
+
     /**
      * 獲取容器資訊
      */
@@ -1190,11 +4656,12 @@ export default class CocktailSystem {
      */
     public showContainerInfo(container: BABYLON.TransformNode): void {
         const contents = this.containerContents.get(container);
-        const infoDiv = document.getElementById('container-info');
+        const infoPanel = document.getElementById('container-info-panel');
+        const infoDiv = document.getElementById('container-info-content');
 
-        if (!contents || !infoDiv) return;
+        if (!contents || !infoPanel || !infoDiv) return;
 
-        if (contents.volume > 0) {
+        if (contents.volume > 0 || contents.solids.length > 0) {
             // 構建成分列表
             const ingredientListHTML = contents.ingredients.map(ing => {
                 const liquor = this.liquorDatabase.get(ing.type);
@@ -1206,35 +4673,248 @@ export default class CocktailSystem {
                 `;
             }).join('');
 
+            // 冰塊列表
+            const iceListHTML = contents.ice.map(ice => {
+                const iceData = this.iceDatabase.get(ice.type);
+                return `
+                    <div class="ingredient-item ice-item">
+                        <span class="ingredient-name">🧊 ${iceData ? iceData.name : ice.type}</span>
+                        <span class="ingredient-amount">${Math.round(ice.amount)} ml</span>
+                    </div>
+                `;
+            }).join('');
+
+            // 固體材料列表
+            const solidListHTML = contents.solids.map(item => {
+                const solid = this.solidDatabase.get(item.type);
+                return `
+                    <div class="ingredient-item">
+                        <span class="ingredient-name">🌿 ${solid ? solid.name : item.type} ×${item.count}</span>
+                        <span class="ingredient-amount">壓搗 ${Math.round(item.extraction * 100)}%</span>
+                    </div>
+                `;
+            }).join('');
+
+            // 裝飾與杯緣
+            const garnishNames = contents.garnishes.map(garnish => {
+                const garnishData = this.garnishDatabase.get(garnish.type);
+                return garnishData ? garnishData.name : garnish.type;
+            });
+            if (contents.rim) {
+                garnishNames.unshift(RIM_DATA[contents.rim.type].name);
+            }
+            const garnishListHTML = garnishNames.length > 0 ? `
+                    <div class="ingredient-item">
+                        <span class="ingredient-name">🍋 裝飾</span>
+                        <span class="ingredient-amount">${garnishNames.join('、')}</span>
+                    </div>
+                ` : '';
+
             // 計算酒精濃度
             const alcoholContent = this.calculateAlcoholContent(contents);
 
             // 識別雞尾酒
             const cocktailName = this.identifyCocktail(contents);
 
+            // 與配方比較的評分
+            const drinkScore = this.scoreDrink(contents);
+
+            // 風味平衡
+            const flavorBalance = this.computeFlavorBalance(contents);
+
             infoDiv.innerHTML = `
-                <h3>${cocktailName}</h3>
+                <h3>${escapeHtml(cocktailName)}${contents.glassType ? `<span class="recipe-name-cn">（${GLASS_LABELS[contents.glassType]}）</span>` : ''}</h3>
                 <div class="ingredient-list">
                     ${ingredientListHTML}
+                    ${iceListHTML}
+                    ${solidListHTML}
+                    ${garnishListHTML}
                 </div>
                 <div class="volume-info">
                     總容量: ${Math.round(contents.volume)} / ${contents.maxVolume} ml<br>
-                    酒精濃度: ${alcoholContent.toFixed(1)}%
+                    酒精濃度: ${alcoholContent.toFixed(1)}%<br>
+                    溫度: ${contents.temperature.toFixed(1)}°C（杯身 ${contents.glassTemperature.toFixed(1)}°C）
+                    ${contents.layers.length > 1 ? `<br>分層: ${contents.layers.length} 層` : ''}
+                    ${contents.frozenIce > 1 ? `<br>質地: 冰沙 ${Math.round(this.getFrozenRatio(contents) * 100)}%` : ''}
+                    ${this.getCarbonatedVolume(contents) > 0 ? `<br>氣泡: ${Math.round(contents.carbonation * 100)}%` : ''}
+                    ${contents.foam > 1 ? `<br>泡沫: ${Math.round(contents.foam)} ml` : ''}
                 </div>
+                ${flavorBalance && contents.measureLines.length === 0 ? this.buildFlavorHTML(flavorBalance) : ''}
+                ${this.buildMeasureHTML(contents)}
+                ${drinkScore && contents.measureLines.length === 0 ? this.buildScoreHTML(drinkScore) : ''}
             `;
-            infoDiv.classList.add('visible');
+            infoPanel.classList.add('visible');
         } else {
-            infoDiv.classList.remove('visible');
+            infoPanel.classList.remove('visible');
         }
     }
 
+    /**
+     * 構建風味雷達圖 HTML（甜、酸、苦、烈、稀釋五軸）
+     */
+    private buildFlavorHTML(balance: FlavorBalance): string {
+        const axes = [
+            { label: '甜', value: balance.sweetness },
+            { label: '酸', value: balance.acidity },
+            { label: '苦', value: balance.bitterness },
+            { label: '烈', value: balance.strength },
+            { label: '稀釋', value: balance.dilution }
+        ];
+        const size = 140;
+        const center = size / 2;
+        const radius = 48;
+
+        const point = (index: number, value: number): { x: number; y: number } => {
+            const angle = -Math.PI / 2 + index * 2 * Math.PI / axes.length;
+            return {
+                x: center + Math.cos(angle) * radius * value,
+                y: center + Math.sin(angle) * radius * value
+            };
+        };
+        const polygon = (values: number[]): string =>
+            values.map((value, index) => {
+                const { x, y } = point(index, value);
+                return `${x.toFixed(1)},${y.toFixed(1)}`;
+            }).join(' ');
+
+        const gridHTML = [0.5, 1].map(scale =>
+            `<polygon class="flavor-grid" points="${polygon(axes.map(() => scale))}" />`
+        ).join('');
+        const spokesHTML = axes.map((_, index) => {
+            const { x, y } = point(index, 1);
+            return `<line class="flavor-grid" x1="${center}" y1="${center}" x2="${x.toFixed(1)}" y2="${y.toFixed(1)}" />`;
+        }).join('');
+        const labelsHTML = axes.map((axis, index) => {
+            const { x, y } = point(index, 1.25);
+            return `<text class="flavor-label" x="${x.toFixed(1)}" y="${y.toFixed(1)}">${axis.label}</text>`;
+        }).join('');
+        const shapeHTML = `<polygon class="flavor-shape" points="${polygon(axes.map(axis => Math.max(0.04, axis.value)))}" />`;
+
+        const aromaNames = balance.aroma.slice(0, 3).map(item => AROMA_LABELS[item.note]);
+
+        return `
+            <div class="flavor-profile">
+                <svg class="flavor-radar" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+                    ${gridHTML}
+                    ${spokesHTML}
+                    ${shapeHTML}
+                    ${labelsHTML}
+                </svg>
+                ${aromaNames.length > 0 ? `<div class="flavor-aroma">香氣：${aromaNames.join('、')}</div>` : ''}
+            </div>
+        `;
+    }
+
+    /**
+     * 構建量酒準確度 HTML（量酒器）
+     */
+    private buildMeasureHTML(contents: ContainerContents): string {
+        const measure = this.getMeasureAccuracy(contents);
+        if (!measure) return '';
+
+        const diff = contents.volume - measure.line;
+        const diffText = Math.abs(diff) < 0.5 ? '剛好' : diff > 0 ? `多 ${diff.toFixed(1)}ml` : `少 ${(-diff).toFixed(1)}ml`;
+        const statusClass = measure.accuracy >= 0.95 ? 'score-ok' : 'score-diff';
+
+        return `
+            <div class="drink-score">
+                <div class="score-item">
+                    <span class="ingredient-name">刻度 ${measure.line}ml</span>
+                    <span class="${statusClass}">${diffText}（準確度 ${Math.round(measure.accuracy * 100)}%）</span>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * 構建評分明細 HTML
+     */
+    private buildScoreHTML(drinkScore: DrinkScore): string {
+        const formatMl = (ml: number): string => {
+            const rounded = Math.round(ml);
+            if (rounded === 0) return '剛好';
+            return rounded > 0 ? `多 ${rounded}ml` : `少 ${-rounded}ml`;
+        };
+        const formatRatio = (deviation: number): string => {
+            const percent = Math.round(deviation * 100);
+            return percent > 0 ? `+${percent}%` : `${percent}%`;
+        };
+
+        const breakdownHTML = drinkScore.ingredients.map(item => `
+            <div class="score-item">
+                <span class="ingredient-name">${escapeHtml(item.name)}</span>
+                <span class="score-diff">${formatMl(item.diffMl)}（比例 ${formatRatio(item.ratioDeviation)}）</span>
+            </div>
+        `).join('');
+
+        const recipe = this.getRecipeById(drinkScore.recipeId);
+        const rimName = recipe?.rim ? RIM_DATA[recipe.rim].name : '';
+
+        const solidsHTML = drinkScore.solids.map(item => {
+            const ok = item.actualCount > 0 && item.extraction >= this.MIN_MUDDLE_EXTRACTION;
+            const status = item.actualCount === 0
+                ? '缺少'
+                : `${item.actualCount}/${item.targetCount} 份，壓搗 ${Math.round(item.extraction * 100)}%`;
+            return `
+            <div class="score-item">
+                <span class="ingredient-name">${escapeHtml(item.name)}</span>
+                <span class="${ok ? 'score-ok' : 'score-diff'}">${status}</span>
+            </div>
+        `;
+        }).join('');
+
+        const extraNames = drinkScore.extras.concat(drinkScore.forbidden).map(type => {
+            const liquor = this.liquorDatabase.get(type);
+            return liquor ? liquor.name : type;
+        });
+
+        return `
+            <div class="drink-score">
+                <div class="score-header">
+                    目標：${escapeHtml(drinkScore.recipeName)}
+                    <span class="score-value">${drinkScore.score} 分</span>
+                </div>
+                <div class="score-item">
+                    <span class="ingredient-name">手法：${METHOD_LABELS[drinkScore.actualMethod]}</span>
+                    <span class="${drinkScore.methodCorrect ? 'score-ok' : 'score-diff'}">${drinkScore.methodCorrect ? '正確' : `應為${METHOD_LABELS[drinkScore.expectedMethod]}`}</span>
+                </div>
+                ${drinkScore.glassType ? `
+                <div class="score-item">
+                    <span class="ingredient-name">杯具：${GLASS_LABELS[drinkScore.glassType]}</span>
+                    <span class="${drinkScore.glassOk ? 'score-ok' : 'score-diff'}">${drinkScore.glassOk ? '正確' : `應為${recipe ? GLASS_LABELS[recipe.glass] : ''}`}</span>
+                </div>` : ''}
+                <div class="score-item">
+                    <span class="ingredient-name">溫度：${drinkScore.temperature.toFixed(1)}°C</span>
+                    <span class="${drinkScore.temperatureOk ? 'score-ok' : 'score-diff'}">${drinkScore.temperatureOk ? '冰涼' : `應低於 ${drinkScore.targetTemperature}°C`}</span>
+                </div>
+                ${drinkScore.carbonation !== null ? `
+                <div class="score-item">
+                    <span class="ingredient-name">氣泡：${Math.round(drinkScore.carbonation * 100)}%</span>
+                    <span class="${drinkScore.carbonationOk ? 'score-ok' : 'score-diff'}">${drinkScore.carbonationOk ? '充足' : '已跑氣'}</span>
+                </div>` : ''}
+                ${recipe?.foam ? `
+                <div class="score-item">
+                    <span class="ingredient-name">泡沫：${Math.round(drinkScore.foamVolume)} ml</span>
+                    <span class="${drinkScore.foamOk ? 'score-ok' : 'score-diff'}">${drinkScore.foamOk ? '綿密' : `應有 ${recipe.foam} ml（先不加冰乾搖）`}</span>
+                </div>` : ''}
+                ${drinkScore.layersOk ? '' : '<div class="score-extras">層次已混在一起</div>'}
+                ${drinkScore.frozenOk ? '' : '<div class="score-extras">冰沙質地不足</div>'}
+                ${drinkScore.rimOk ? '' : `<div class="score-extras">杯緣應為${rimName}</div>`}
+                ${drinkScore.missingGarnishes.length > 0 ? `<div class="score-extras">缺少裝飾：${escapeHtml(drinkScore.missingGarnishes.join('、'))}</div>` : ''}
+                ${breakdownHTML}
+                ${solidsHTML}
+                ${extraNames.length > 0 ? `<div class="score-extras">多餘材料：${escapeHtml(extraNames.join('、'))}</div>` : ''}
+            </div>
+        `;
+    }
+
     /**
      * 隱藏容器成分信息
      */
     public hideContainerInfo(): void {
-        const infoDiv = document.getElementById('container-info');
-        if (infoDiv) {
-            infoDiv.classList.remove('visible');
+        const infoPanel = document.getElementById('container-info-panel');
+        if (infoPanel) {
+            infoPanel.classList.remove('visible');
         }
     }
 
@@ -1244,6 +4924,42 @@ export default class CocktailSystem {
     public update(deltaTime: number): void {
         // 更新喝酒動畫
         this.updateDrinkingAnimation();
+
+        // 吧匙攪拌
+        this.updateStirring(deltaTime);
+
+        // 果汁機運轉
+        this.updateBlenders(deltaTime);
+
+        // 溫度變化、杯身結霜、液面與傾倒灑出（喝酒時的傾斜不算灑出）
+        this.containerContents.forEach((contents, container) => {
+            this.updateTemperature(contents, deltaTime);
+            this.updateFrostVisual(contents);
+            if (container !== this.currentDrinkingGlass) {
+                this.updateSpill(container, contents, deltaTime);
+            }
+            this.updateLiquidSurface(container, contents);
+            this.updateCarbonation(container, contents, deltaTime);
+        });
+
+        // 靜置融冰、冰沙慢慢化水、泡沫慢慢消退
+        this.containerContents.forEach((contents, container) => {
+            if (contents.frozenIce > 0) {
+                this.meltSlush(contents, deltaTime);
+            }
+            if (contents.foam > 0) {
+                this.collapseFoam(container, contents, deltaTime);
+            }
+            if (contents.ice.length > 0) {
+                const volumeBefore = contents.volume;
+                this.meltIce(container, deltaTime);
+
+                // 液面每變化 1ml 才更新視覺
+                if (Math.floor(contents.volume) !== Math.floor(volumeBefore)) {
+                    this.updateLiquidVisual(container);
+                }
+            }
+        });
     }
 
     /**
@@ -1261,152 +4977,352 @@ export default class CocktailSystem {
     }
 
     /**
-     * 獲取經典調酒食譜列表
+     * 獲取經典調酒食譜列表（與配方辨識共用同一份資料）
      */
-    public getCocktailRecipes() {
-        return [
-            // === Unforgettable 經典不朽調酒 ===
-            {
-                name: 'Martini 馬丁尼',
-                ingredients: [
-                    { amount: '60ml', name: '琴酒 Gin' },
-                    { amount: '10ml', name: '不甜香艾酒 Dry Vermouth' }
-                ],
-                method: 'Stir（攪拌法）：將材料加冰攪拌後濾入冰鎮馬丁尼杯，可加檸檬皮裝飾。'
-            },
-            {
-                name: 'Vodka Martini 伏特加馬丁尼',
-                ingredients: [
-                    { amount: '60ml', name: '伏特加 Vodka' },
-                    { amount: '10ml', name: '不甜香艾酒 Dry Vermouth' }
-                ],
-                method: 'Stir：將材料加冰攪拌後濾入冰鎮馬丁尼杯，檸檬皮或橄欖裝飾。'
-            },
-            {
-                name: 'Negroni 內格羅尼',
-                ingredients: [
-                    { amount: '30ml', name: '琴酒 Gin' },
-                    { amount: '30ml', name: '金巴利 Campari' },
-                    { amount: '30ml', name: '甜香艾酒 Sweet Vermouth' }
-                ],
-                method: 'Build：將材料倒入裝滿冰塊的古典杯，攪拌均勻，柳橙皮裝飾。'
-            },
-            {
-                name: 'Margarita 瑪格麗特',
-                ingredients: [
-                    { amount: '50ml', name: '龍舌蘭 Tequila' },
-                    { amount: '20ml', name: '橙皮酒 Triple Sec' },
-                    { amount: '15ml', name: '萊姆汁 Lime Juice' }
-                ],
-                method: 'Shake：加冰搖盪後濾入杯緣抹鹽的杯中，萊姆角裝飾。'
-            },
-            {
-                name: 'Daiquiri 黛克瑞',
-                ingredients: [
-                    { amount: '60ml', name: '蘭姆酒 Rum' },
-                    { amount: '20ml', name: '萊姆汁 Lime Juice' },
-                    { amount: '10ml', name: '糖漿 Simple Syrup' }
-                ],
-                method: 'Shake：加冰搖盪後濾入冰鎮雞尾酒杯。'
-            },
-            {
-                name: 'Cosmopolitan 柯夢波丹',
-                ingredients: [
-                    { amount: '40ml', name: '伏特加 Vodka' },
-                    { amount: '15ml', name: '橙皮酒 Triple Sec' },
-                    { amount: '15ml', name: '萊姆汁 Lime Juice' },
-                    { amount: '30ml', name: '蔓越莓汁 Cranberry Juice' }
-                ],
-                method: 'Shake：加冰搖盪後濾入馬丁尼杯，萊姆皮或蔓越莓裝飾。'
-            },
-            {
-                name: 'Mojito 莫希托',
-                ingredients: [
-                    { amount: '45ml', name: '蘭姆酒 Rum' },
-                    { amount: '20ml', name: '萊姆汁 Lime Juice' },
-                    { amount: '20ml', name: '糖漿 Simple Syrup' },
-                    { amount: '適量', name: '蘇打水 Soda Water' }
-                ],
-                method: 'Muddle：在杯中壓碎薄荷葉與糖，加冰、蘭姆酒、萊姆汁，上方加蘇打水。'
-            },
-            {
-                name: 'Piña Colada 椰林風情',
-                ingredients: [
-                    { amount: '50ml', name: '蘭姆酒 Rum' },
-                    { amount: '30ml', name: '椰漿 Coconut Cream' },
-                    { amount: '50ml', name: '鳳梨汁 Pineapple Juice' }
-                ],
-                method: 'Blend：與碎冰混合打碎，倒入颶風杯，鳳梨角和櫻桃裝飾。'
-            },
-            {
-                name: 'Whiskey Sour 威士忌酸酒',
-                ingredients: [
-                    { amount: '50ml', name: '威士忌 Whiskey' },
-                    { amount: '25ml', name: '檸檬汁 Lemon Juice' },
-                    { amount: '15ml', name: '糖漿 Simple Syrup' }
-                ],
-                method: 'Shake：加冰搖盪後濾入古典杯，可加蛋白增加口感。'
-            },
-            {
-                name: 'Manhattan 曼哈頓',
-                ingredients: [
-                    { amount: '50ml', name: '威士忌 Whiskey' },
-                    { amount: '20ml', name: '甜香艾酒 Sweet Vermouth' },
-                    { amount: '2滴', name: '安格仕苦精 Angostura Bitters' }
-                ],
-                method: 'Stir：將材料加冰攪拌後濾入馬丁尼杯，櫻桃裝飾。'
-            },
-            {
-                name: 'Long Island Iced Tea 長島冰茶',
-                ingredients: [
-                    { amount: '15ml', name: '伏特加 Vodka' },
-                    { amount: '15ml', name: '蘭姆酒 Rum' },
-                    { amount: '15ml', name: '琴酒 Gin' },
-                    { amount: '15ml', name: '龍舌蘭 Tequila' },
-                    { amount: '15ml', name: '橙皮酒 Triple Sec' },
-                    { amount: '25ml', name: '檸檬汁 Lemon Juice' },
-                    { amount: '30ml', name: '糖漿 Simple Syrup' },
-                    { amount: '適量', name: '可樂 Cola' }
-                ],
-                method: 'Shake前七種材料後濾入裝滿冰塊的柯林斯杯，上方補可樂，檸檬片裝飾。'
-            },
-            {
-                name: 'Bloody Mary 血腥瑪麗',
-                ingredients: [
-                    { amount: '45ml', name: '伏特加 Vodka' },
-                    { amount: '90ml', name: '番茄汁 Tomato Juice' },
-                    { amount: '15ml', name: '檸檬汁 Lemon Juice' },
-                    { amount: '少許', name: '安格仕苦精 Angostura Bitters' }
-                ],
-                method: 'Roll：在雪克杯中倒入材料與冰塊，來回倒入另一個杯子混合。'
-            },
-            {
-                name: 'Tequila Sunrise 龍舌蘭日出',
-                ingredients: [
-                    { amount: '45ml', name: '龍舌蘭 Tequila' },
-                    { amount: '90ml', name: '柳橙汁 Orange Juice' },
-                    { amount: '15ml', name: '紅石榴糖漿 Grenadine' }
-                ],
-                method: 'Build：在高球杯中加冰、龍舌蘭和柳橙汁，最後慢慢倒入紅石榴糖漿形成漸層。'
-            },
-            {
-                name: 'Screwdriver 螺絲起子',
-                ingredients: [
-                    { amount: '50ml', name: '伏特加 Vodka' },
-                    { amount: '100ml', name: '柳橙汁 Orange Juice' }
-                ],
-                method: 'Build：在裝滿冰塊的高球杯中倒入伏特加，補滿柳橙汁，攪拌均勻。'
-            },
-            {
-                name: 'Mai Tai 邁泰',
-                ingredients: [
-                    { amount: '40ml', name: '蘭姆酒 Rum' },
-                    { amount: '20ml', name: '橙皮酒 Triple Sec' },
-                    { amount: '15ml', name: '萊姆汁 Lime Juice' },
-                    { amount: '10ml', name: '糖漿 Simple Syrup' }
-                ],
-                method: 'Shake：加冰搖盪後濾入裝滿碎冰的古典杯，薄荷和萊姆裝飾。'
+    public getCocktailRecipes(): CocktailRecipe[] {
+        return this.recipes;
+    }
+
+    /**
+     * 依 ID 獲取配方
+     */
+    public getRecipeById(recipeId: string): CocktailRecipe | undefined {
+        return this.recipes.find(recipe => recipe.id === recipeId);
+    }
+
+    /**
+     * 依 IBA 分類、年代、基酒、難度、關鍵字與吧檯庫存篩選配方
+     */
+    public filterRecipes(filter: RecipeFilter): CocktailRecipe[] {
+        const query = filter.query?.trim().toLowerCase() ?? '';
+        const stocked = filter.stockedOnly ? this.getStockedIngredients() : null;
+
+        return this.recipes.filter(recipe => {
+            if (filter.category !== undefined && (recipe.category ?? null) !== filter.category) return false;
+            if (filter.era && recipe.era !== filter.era) return false;
+            if (filter.baseSpirit && recipe.baseSpirit !== filter.baseSpirit) return false;
+            if (filter.difficulty && recipe.difficulty !== filter.difficulty) return false;
+            if (stocked && !recipe.ingredients.every(ing => ing.optional || stocked.has(ing.type))) return false;
+            if (query) {
+                const text = [recipe.name, recipe.nameChinese, ...recipe.ingredients.map(ing => ing.name)]
+                    .join(' ')
+                    .toLowerCase();
+                if (!text.includes(query)) return false;
             }
-        ];
+            return true;
+        });
+    }
+
+    /**
+     * 吧檯目前拿得到的材料：還有存量的酒瓶，加上材料碗壓搗可得的汁液與糖漿
+     */
+    public getStockedIngredients(): Set<string> {
+        const stocked = new Set<string>(DILUTION_TYPES);
+
+        this.bottleStock.forEach((stock, bottle) => {
+            const liquorType = (bottle as InteractableObject).userData?.liquorType;
+            if (liquorType && stock.remaining > 0) {
+                stocked.add(liquorType);
+            }
+        });
+        this.solidDatabase.forEach(solid => {
+            if (solid.yield) {
+                stocked.add(solid.yield.type);
+            }
+        });
+
+        return stocked;
+    }
+
+    /**
+     * 獲取玩家儲存的店家配方
+     */
+    public getHouseRecipes(): CocktailRecipe[] {
+        return this.recipes.filter(recipe => recipe.house);
+    }
+
+    /**
+     * 將杯中的酒儲存為店家配方（材料比例、手法、杯型與裝飾），之後即可被辨識
+     */
+    public createHouseRecipe(container: BABYLON.TransformNode, name: string): CocktailRecipe | null {
+        const contents = this.containerContents.get(container);
+        const trimmedName = name.trim();
+        if (!contents || !contents.glassType || !trimmedName) return null;
+
+        const ingredients = contents.ingredients
+            .filter(ing => !DILUTION_TYPES.includes(ing.type) && ing.amount >= 1)
+            .map(ing => {
+                const liquor = this.liquorDatabase.get(ing.type);
+                return {
+                    type: ing.type,
+                    amount: Math.round(ing.amount),
+                    name: liquor ? `${liquor.name} ${liquor.displayName}` : ing.name
+                };
+            });
+        if (ingredients.length === 0) return null;
+
+        const solids = contents.solids.map(item => {
+            const solid = this.solidDatabase.get(item.type);
+            return { type: item.type, count: item.count, name: solid ? `${solid.name} ${solid.displayName}` : item.type };
+        });
+
+        const garnishTypes = Array.from(new Set(contents.garnishes.map(garnish => garnish.type)));
+        const garnishes = garnishTypes.map(type => ({
+            types: [type],
+            name: this.garnishDatabase.get(type)?.name ?? type
+        }));
+
+        const preparation = this.getPreparationMethod(contents);
+        const recipe: CocktailRecipe = {
+            id: `house_${Date.now().toString(36)}`,
+            name: 'House Special',
+            nameChinese: trimmedName,
+            ingredients,
+            tolerance: DEFAULT_RECIPE_TOLERANCE,
+            preparation,
+            servingTemperature: Math.max(4, Math.ceil(contents.temperature) + 3),
+            method: `${METHOD_LABELS[preparation]}：${ingredients.map(ing => ing.name).join('、')}，盛於${GLASS_LABELS[contents.glassType]}。`,
+            glass: contents.glassType,
+            era: CocktailEra.MODERN,
+            baseSpirit: this.getBaseSpirit(ingredients),
+            difficulty: 1,
+            price: 0,
+            house: true
+        };
+        if (solids.length > 0) recipe.solids = solids;
+        if (garnishes.length > 0) {
+            recipe.garnishes = garnishes;
+            recipe.garnish = garnishes.map(garnish => garnish.name).join('、');
+        }
+        if (contents.rim) recipe.rim = contents.rim.type;
+        if (contents.layers.length > 1) recipe.layers = contents.layers.length;
+        if (this.getFrozenRatio(contents) >= this.MIN_FROZEN_RATIO) recipe.frozen = true;
+        if (contents.foam >= 10) recipe.foam = Math.round(contents.foam / 2);
+        recipe.difficulty = this.estimateDifficulty(recipe);
+        recipe.price = this.estimatePrice(recipe);
+
+        this.recipes.push(recipe);
+        this.saveHouseRecipes();
+
+        console.log(`✓ 已儲存店家配方：${trimmedName}`);
+        return recipe;
+    }
+
+    /**
+     * 刪除店家配方
+     */
+    public removeHouseRecipe(recipeId: string): boolean {
+        const index = this.recipes.findIndex(recipe => recipe.house && recipe.id === recipeId);
+        if (index === -1) return false;
+
+        this.recipes.splice(index, 1);
+        this.saveHouseRecipes();
+        return true;
+    }
+
+    /**
+     * 匯出店家配方為 JSON（供社員之間分享）
+     */
+    public exportHouseRecipes(): string {
+        return JSON.stringify(this.getHouseRecipes(), null, 2);
+    }
+
+    /**
+     * 匯入店家配方 JSON，同 ID 的配方會被覆蓋；回傳成功匯入的數量
+     */
+    public importHouseRecipes(json: string): number {
+        const data: unknown = JSON.parse(json);
+        if (!Array.isArray(data)) {
+            throw new Error('配方檔案格式錯誤：應為配方陣列');
+        }
+
+        let imported = 0;
+        data.forEach(item => {
+            const recipe = this.parseHouseRecipe(item);
+            if (!recipe) return;
+
+            const existingIndex = this.recipes.findIndex(candidate => candidate.id === recipe.id);
+            if (existingIndex !== -1 && this.recipes[existingIndex].house) {
+                this.recipes[existingIndex] = recipe;
+            } else {
+                // 與經典配方撞名時改用新 ID
+                if (existingIndex !== -1) {
+                    recipe.id = `house_${Date.now().toString(36)}_${imported}`;
+                }
+                this.recipes.push(recipe);
+            }
+            imported++;
+        });
+
+        if (imported > 0) {
+            this.saveHouseRecipes();
+        }
+        return imported;
+    }
+
+    /**
+     * 從 localStorage 讀取店家配方
+     */
+    private loadHouseRecipes(): CocktailRecipe[] {
+        try {
+            const stored = localStorage.getItem(HOUSE_RECIPE_STORAGE_KEY);
+            const data: unknown = stored ? JSON.parse(stored) : [];
+            if (!Array.isArray(data)) return [];
+
+            return data
+                .map(item => this.parseHouseRecipe(item))
+                .filter((recipe): recipe is CocktailRecipe => recipe !== null);
+        } catch (error) {
+            console.warn('⚠️ 無法讀取店家配方:', error);
+            return [];
+        }
+    }
+
+    /**
+     * 將店家配方寫入 localStorage
+     */
+    private saveHouseRecipes(): void {
+        try {
+            localStorage.setItem(HOUSE_RECIPE_STORAGE_KEY, this.exportHouseRecipes());
+        } catch (error) {
+            console.warn('⚠️ 無法儲存店家配方:', error);
+        }
+    }
+
+    /**
+     * 驗證並整理外部配方資料，只保留已知欄位；材料、杯型等無法辨識或數值超出合理範圍時回傳 null
+     */
+    private parseHouseRecipe(data: unknown): CocktailRecipe | null {
+        if (!this.isRecord(data)) return null;
+        if (typeof data.id !== 'string' || !HOUSE_RECIPE_ID_PATTERN.test(data.id)) return null;
+        if (typeof data.nameChinese !== 'string' || !data.nameChinese.trim()) return null;
+        const preparation = Object.values(PreparationMethod).find(method => method === data.preparation);
+        const glass = Object.values(GlassType).find(type => type === data.glass);
+        if (!preparation || !glass) return null;
+        if (!Array.isArray(data.ingredients) || data.ingredients.length === 0) return null;
+
+        const ingredients: RecipeIngredient[] = [];
+        for (const ing of data.ingredients) {
+            if (!this.isRecord(ing) || typeof ing.type !== 'string') return null;
+            const liquor = this.liquorDatabase.get(ing.type);
+            if (!liquor || !this.isPositiveNumber(ing.amount)) return null;
+
+            ingredients.push({
+                type: ing.type,
+                amount: ing.amount,
+                name: typeof ing.name === 'string' ? ing.name : liquor.name,
+                optional: ing.optional === true ? true : undefined
+            });
+        }
+
+        const solids: RecipeSolid[] = [];
+        for (const solid of Array.isArray(data.solids) ? data.solids : []) {
+            if (!this.isRecord(solid) || typeof solid.type !== 'string' || !this.solidDatabase.has(solid.type)) return null;
+            if (typeof solid.count !== 'number' || !Number.isInteger(solid.count) || solid.count < 1) return null;
+
+            solids.push({ type: solid.type, count: solid.count, name: typeof solid.name === 'string' ? solid.name : solid.type });
+        }
+
+        const garnishes: RecipeGarnish[] = [];
+        for (const garnish of Array.isArray(data.garnishes) ? data.garnishes : []) {
+            if (!this.isRecord(garnish) || !Array.isArray(garnish.types) || garnish.types.length === 0) return null;
+            const types: string[] = [];
+            for (const type of garnish.types) {
+                if (typeof type !== 'string' || !this.garnishDatabase.has(type)) return null;
+                types.push(type);
+            }
+
+            garnishes.push({ types, name: typeof garnish.name === 'string' ? garnish.name : types.join('/') });
+        }
+
+        // 數值欄位：容許誤差需大於 0 且不超過 100%，分層至少 2 層，泡沫量不可為負，售價需在合理範圍
+        if (data.tolerance !== undefined && !(this.isPositiveNumber(data.tolerance) && data.tolerance <= 1)) return null;
+        if (data.servingTemperature !== undefined && !this.isFiniteNumber(data.servingTemperature)) return null;
+        if (data.layers !== undefined && !(typeof data.layers === 'number' && Number.isInteger(data.layers) && data.layers >= 2)) return null;
+        if (data.foam !== undefined && !(this.isFiniteNumber(data.foam) && data.foam >= 0)) return null;
+        if (data.price !== undefined && !(this.isPositiveNumber(data.price) && data.price <= this.MAX_MENU_PRICE)) return null;
+
+        const era = Object.values(CocktailEra).find(value => value === data.era);
+        const baseSpirit = typeof data.baseSpirit === 'string' && this.liquorDatabase.has(data.baseSpirit)
+            ? data.baseSpirit
+            : this.getBaseSpirit(ingredients);
+
+        const recipe: CocktailRecipe = {
+            id: data.id,
+            name: typeof data.name === 'string' ? data.name : 'House Special',
+            nameChinese: data.nameChinese.trim(),
+            ingredients,
+            tolerance: this.isFiniteNumber(data.tolerance) ? data.tolerance : DEFAULT_RECIPE_TOLERANCE,
+            preparation,
+            servingTemperature: this.isFiniteNumber(data.servingTemperature) ? data.servingTemperature : this.AMBIENT_TEMPERATURE,
+            method: typeof data.method === 'string' ? data.method : '',
+            glass,
+            era: era ?? CocktailEra.MODERN,
+            baseSpirit,
+            difficulty: 1,
+            price: 0,
+            house: true
+        };
+        if (solids.length > 0) recipe.solids = solids;
+        if (garnishes.length > 0) recipe.garnishes = garnishes;
+        if (typeof data.garnish === 'string') recipe.garnish = data.garnish;
+        const rim = Object.values(RimType).find(type => type === data.rim);
+        if (rim) recipe.rim = rim;
+        if (typeof data.layers === 'number') recipe.layers = data.layers;
+        if (data.frozen === true) recipe.frozen = true;
+        if (typeof data.foam === 'number') recipe.foam = data.foam;
+        recipe.difficulty = data.difficulty === 1 || data.difficulty === 2 || data.difficulty === 3
+            ? data.difficulty
+            : this.estimateDifficulty(recipe);
+        recipe.price = typeof data.price === 'number' ? data.price : this.estimatePrice(recipe);
+
+        return recipe;
+    }
+
+    /**
+     * 是否為一般物件（非陣列、非 null）
+     */
+    private isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * 是否為有限數字
+     */
+    private isFiniteNumber(value: unknown): value is number {
+        return typeof value === 'number' && Number.isFinite(value);
+    }
+
+    /**
+     * 是否為大於 0 的有限數字
+     */
+    private isPositiveNumber(value: unknown): value is number {
+        return this.isFiniteNumber(value) && value > 0;
+    }
+
+    /**
+     * 找出配方的基酒：酒精量最多的材料，無酒精時取用量最多者
+     */
+    private getBaseSpirit(ingredients: RecipeIngredient[]): string {
+        const weight = (ing: RecipeIngredient): number =>
+            ing.amount * (1 + (this.liquorDatabase.get(ing.type)?.alcoholContent ?? 0));
+
+        return ingredients.reduce((best, ing) => (weight(ing) > weight(best) ? ing : best)).type;
+    }
+
+    /**
+     * 依需要的技巧估計店家配方難度（分層、泡沫、冰沙、壓搗、沾邊各加一級）
+     */
+    private estimateDifficulty(recipe: CocktailRecipe): RecipeDifficulty {
+        const techniques = [recipe.layers, recipe.foam, recipe.frozen, recipe.solids, recipe.rim].filter(Boolean).length;
+        return Math.min(3, 1 + techniques) as RecipeDifficulty;
+    }
+
+    /**
+     * 依酒單的目標成本率為店家配方定價（以 10 元為單位無條件進位）
+     */
+    private estimatePrice(recipe: CocktailRecipe): number {
+        const price = Math.ceil(this.getRecipeCost(recipe) / this.TARGET_POUR_COST / 10) * 10;
+        return Math.max(this.MIN_MENU_PRICE, price);
     }
 }
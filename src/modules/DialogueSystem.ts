@@ -0,0 +1,419 @@
+/**
+ * 對話系統 - 依 JSON 對話樹與固定 NPC 進行分支對話，
+ * 節點可依 NPC 狀態跳轉、提供玩家選項並觸發配方提示、點單等動作；
+ * 對話進行中等待玩家按鍵選擇，期間暫停移動
+ */
+
+import * as BABYLON from '@babylonjs/core';
+import CocktailSystem from './CocktailSystem';
+import NPCManager from './NPCManager';
+import ServiceManager from './ServiceManager';
+import { DIALOGUE_DATA } from '../data/dialogueTrees';
+import type {
+    DialogueAction,
+    DialogueChoice,
+    DialogueCondition,
+    DialogueNode,
+    DialogueTree
+} from '../types/types';
+
+// 對話樹 JSON 允許的條件與動作種類，以及各自必填的參數
+const CONDITION_TYPES: Record<DialogueCondition['type'], 'recipeId' | 'value' | null> = {
+    has_served: null,
+    served_recipe: 'recipeId',
+    last_rating_at_least: 'value',
+    mood_at_least: 'value',
+    mood_below: 'value',
+    has_order: null,
+    service_active: null
+};
+const ACTION_TYPES: Record<DialogueAction['type'], 'recipeId' | 'value' | null> = {
+    give_recipe_hint: 'recipeId',
+    start_order: 'recipeId',
+    change_mood: 'value',
+    start_shift: null
+};
+
+export default class DialogueSystem {
+    private cocktail: CocktailSystem;
+    private npcManager: NPCManager;
+    private serviceManager: ServiceManager;
+    private trees: Map<string, DialogueTree> = new Map();
+
+    // 進行中的對話
+    private npc: BABYLON.Mesh | null = null;
+    private tree: DialogueTree | null = null;
+    private node: DialogueNode | null = null;
+    private choices: DialogueChoice[] = [];       // 目前節點中條件成立、顯示給玩家的選項
+
+    private readonly MAX_REDIRECTS = 10;          // 連續跳轉上限，避免條件互相跳轉形成無限迴圈
+
+    constructor(cocktail: CocktailSystem, npcManager: NPCManager, serviceManager: ServiceManager) {
+        this.cocktail = cocktail;
+        this.npcManager = npcManager;
+        this.serviceManager = serviceManager;
+
+        // 對話樹有誤時直接丟出錯誤，由初始化流程顯示載入失敗
+        DIALOGUE_DATA.forEach(data => {
+            const tree = this.parseTree(data);
+            this.validateTargets(tree);
+            this.trees.set(tree.npc, tree);
+        });
+
+        window.addEventListener('keydown', (e) => this.handleKey(e));
+    }
+
+    /**
+     * 是否正在對話（對話中暫停移動與遊戲操作）
+     */
+    isActive(): boolean {
+        return this.npc !== null;
+    }
+
+    /**
+     * 與 NPC 開始對話；該 NPC 沒有對話樹時回傳 false
+     */
+    start(npc: BABYLON.Mesh): boolean {
+        const tree = this.trees.get(this.npcManager.getDialogueContext(npc).name);
+        if (!tree) return false;
+
+        this.npc = npc;
+        this.tree = tree;
+        this.goTo(tree.start);
+        return true;
+    }
+
+    /**
+     * 繼續對話：目前節點沒有選項時前往下一個節點（E 鍵由 main 的輸入輪詢呼叫）
+     */
+    advance(): void {
+        if (!this.node || this.choices.length > 0) return;
+
+        this.goTo(this.node.next ?? null);
+    }
+
+    /**
+     * 結束對話並關閉對話框
+     */
+    end(): void {
+        this.npc = null;
+        this.tree = null;
+        this.node = null;
+        this.choices = [];
+        this.npcManager.hideDialogue();
+    }
+
+    /**
+     * 處理對話中的按鍵：數字鍵選擇選項，Esc 結束（E 繼續由 advance 處理）
+     */
+    private handleKey(e: KeyboardEvent): void {
+        if (!this.node || e.repeat) return;
+
+        if (e.code === 'Escape') {
+            this.end();
+            return;
+        }
+
+        const match = e.code.match(/^(?:Digit|Numpad)([1-9])$/);
+        if (match) {
+            this.choose(Number(match[1]) - 1);
+        }
+    }
+
+    /**
+     * 選擇選項：執行選項動作後前往下一個節點
+     */
+    private choose(index: number): void {
+        const choice = this.choices[index];
+        if (!choice) return;
+
+        this.runActions(choice.actions);
+        if (this.npc) {
+            this.goTo(choice.next);
+        }
+    }
+
+    /**
+     * 前往節點：先依序檢查跳轉條件，再執行節點動作並顯示台詞與選項
+     */
+    private goTo(nodeId: string | null): void {
+        if (!this.tree || !this.npc) return;
+
+        let node = nodeId !== null ? this.tree.nodes[nodeId] : undefined;
+        for (let hops = 0; node?.redirects && hops < this.MAX_REDIRECTS; hops++) {
+            const redirect = node.redirects.find(item => this.checkCondition(item.condition));
+            if (!redirect) break;
+            node = this.tree.nodes[redirect.next];
+        }
+
+        if (!node) {
+            this.end();
+            return;
+        }
+
+        this.node = node;
+        const note = this.runActions(node.actions);
+        this.choices = (node.choices || []).filter(choice =>
+            !choice.condition || this.checkCondition(choice.condition)
+        );
+
+        this.npcManager.showConversation(
+            this.npc,
+            this.formatText(node.text),
+            this.choices.map(choice => choice.text),
+            note
+        );
+    }
+
+    /**
+     * 檢查對話條件是否成立
+     */
+    private checkCondition(condition: DialogueCondition): boolean {
+        if (!this.npc) return false;
+
+        const context = this.npcManager.getDialogueContext(this.npc);
+        const lastDrink = context.memory[context.memory.length - 1];
+
+        let result: boolean;
+        switch (condition.type) {
+            case 'has_served':
+                result = context.memory.length > 0;
+                break;
+            case 'served_recipe':
+                result = context.memory.some(item => item.recipeId === condition.recipeId);
+                break;
+            case 'last_rating_at_least':
+                result = lastDrink !== undefined && lastDrink.rating >= (condition.value ?? 0);
+                break;
+            case 'mood_at_least':
+                result = context.mood >= (condition.value ?? 0);
+                break;
+            case 'mood_below':
+                result = context.mood < (condition.value ?? 0);
+                break;
+            case 'has_order':
+                result = context.order !== null;
+                break;
+            case 'service_active':
+                result = this.serviceManager.isActive();
+                break;
+        }
+        return condition.negate ? !result : result;
+    }
+
+    /**
+     * 執行對話動作，回傳要附在對話框下方的提示
+     */
+    private runActions(actions?: DialogueAction[]): string | undefined {
+        if (!actions || !this.npc) return undefined;
+
+        let note: string | undefined;
+        actions.forEach(action => {
+            const recipe = action.recipeId ? this.cocktail.getRecipeById(action.recipeId) : undefined;
+
+            switch (action.type) {
+                case 'give_recipe_hint':
+                    if (recipe) {
+                        const ingredients = recipe.ingredients.map(ing =>
+                            `${ing.name} ${ing.displayAmount ?? `${ing.amount}ml`}`
+                        );
+                        (recipe.solids || []).forEach(solid => ingredients.push(`${solid.name} ×${solid.count}`));
+                        note = `📖 ${recipe.name}：${ingredients.join('、')}`;
+                    }
+                    break;
+                case 'start_order':
+                    if (recipe) {
+                        this.npcManager.setOrder(this.npc!, recipe.id);
+                        console.log(`✓ ${this.npcManager.getDialogueContext(this.npc!).name} 點了 ${recipe.name}`);
+                    }
+                    break;
+                case 'change_mood':
+                    this.npcManager.changeMood(this.npc!, action.value ?? 0);
+                    break;
+                case 'start_shift':
+                    if (!this.serviceManager.isActive()) {
+                        this.serviceManager.toggleShift();
+                    }
+                    break;
+            }
+        });
+        return note;
+    }
+
+    /**
+     * 代入台詞中的 NPC 狀態：{lastDrink}、{lastDrinkRemark}、{servedCount}、{order}
+     */
+    private formatText(text: string): string {
+        if (!this.npc) return text;
+
+        const context = this.npcManager.getDialogueContext(this.npc);
+        const lastDrink = context.memory[context.memory.length - 1];
+        const order = context.order ? this.cocktail.getRecipeById(context.order) : undefined;
+
+        return text
+            .replace(/\{lastDrinkRemark\}/g, this.npcManager.getMemoryRemark(this.npc) ?? '')
+            .replace(/\{lastDrink\}/g, lastDrink ? lastDrink.name : '那杯酒')
+            .replace(/\{servedCount\}/g, String(context.memory.length))
+            .replace(/\{order\}/g, order ? order.name : '酒');
+    }
+
+    /**
+     * 讀取對話樹 JSON：逐欄檢查型別、條件與動作種類及必要參數，格式錯誤時直接丟出錯誤
+     */
+    private parseTree(data: unknown): DialogueTree {
+        if (!this.isRecord(data) || typeof data.npc !== 'string' || typeof data.start !== 'string' || !this.isRecord(data.nodes)) {
+            throw new Error('對話樹必須包含 npc、start 與 nodes');
+        }
+
+        const npc = data.npc;
+        const nodes: Record<string, DialogueNode> = {};
+        Object.entries(data.nodes).forEach(([id, node]) => {
+            nodes[id] = this.parseNode(node, `${npc}.${id}`);
+        });
+        return { npc, start: data.start, nodes };
+    }
+
+    /**
+     * 讀取單一節點
+     */
+    private parseNode(data: unknown, path: string): DialogueNode {
+        if (!this.isRecord(data) || typeof data.text !== 'string') {
+            throw new Error(`${path}：節點必須有 text`);
+        }
+
+        const node: DialogueNode = { text: data.text };
+        if (data.next !== undefined) {
+            node.next = this.parseTarget(data.next, `${path}.next`);
+        }
+        if (data.redirects !== undefined) {
+            node.redirects = this.parseList(data.redirects, `${path}.redirects`, (item, itemPath) => {
+                if (!this.isRecord(item) || typeof item.next !== 'string') {
+                    throw new Error(`${itemPath}：跳轉必須有 condition 與 next`);
+                }
+                return { condition: this.parseCondition(item.condition, `${itemPath}.condition`), next: item.next };
+            });
+        }
+        if (data.actions !== undefined) {
+            node.actions = this.parseList(data.actions, `${path}.actions`, (item, itemPath) => this.parseAction(item, itemPath));
+        }
+        if (data.choices !== undefined) {
+            node.choices = this.parseList(data.choices, `${path}.choices`, (item, itemPath) => {
+                if (!this.isRecord(item) || typeof item.text !== 'string') {
+                    throw new Error(`${itemPath}：選項必須有 text`);
+                }
+                const choice: DialogueChoice = { text: item.text, next: this.parseTarget(item.next, `${itemPath}.next`) };
+                if (item.condition !== undefined) {
+                    choice.condition = this.parseCondition(item.condition, `${itemPath}.condition`);
+                }
+                if (item.actions !== undefined) {
+                    choice.actions = this.parseList(item.actions, `${itemPath}.actions`, (action, actionPath) =>
+                        this.parseAction(action, actionPath)
+                    );
+                }
+                return choice;
+            });
+        }
+        return node;
+    }
+
+    /**
+     * 讀取條件：種類必須在 CONDITION_TYPES 中，並帶齊該種類需要的參數
+     */
+    private parseCondition(data: unknown, path: string): DialogueCondition {
+        if (!this.isRecord(data) || typeof data.type !== 'string' || !Object.prototype.hasOwnProperty.call(CONDITION_TYPES, data.type)) {
+            throw new Error(`${path}：未知的條件種類 ${this.isRecord(data) ? String(data.type) : ''}`);
+        }
+
+        const condition: DialogueCondition = { type: data.type as DialogueCondition['type'] };
+        const needs = CONDITION_TYPES[condition.type];
+        if (needs === 'recipeId') condition.recipeId = this.parseRecipeId(data.recipeId, path);
+        if (needs === 'value') condition.value = this.parseValue(data.value, path);
+        if (data.negate !== undefined) {
+            if (typeof data.negate !== 'boolean') throw new Error(`${path}：negate 必須是 true/false`);
+            condition.negate = data.negate;
+        }
+        return condition;
+    }
+
+    /**
+     * 讀取動作：種類必須在 ACTION_TYPES 中，並帶齊該種類需要的參數
+     */
+    private parseAction(data: unknown, path: string): DialogueAction {
+        if (!this.isRecord(data) || typeof data.type !== 'string' || !Object.prototype.hasOwnProperty.call(ACTION_TYPES, data.type)) {
+            throw new Error(`${path}：未知的動作種類 ${this.isRecord(data) ? String(data.type) : ''}`);
+        }
+
+        const action: DialogueAction = { type: data.type as DialogueAction['type'] };
+        const needs = ACTION_TYPES[action.type];
+        if (needs === 'recipeId') action.recipeId = this.parseRecipeId(data.recipeId, path);
+        if (needs === 'value') action.value = this.parseValue(data.value, path);
+        return action;
+    }
+
+    /**
+     * 讀取跳轉目標（節點 id，或 null 結束對話）
+     */
+    private parseTarget(data: unknown, path: string): string | null {
+        if (data !== null && typeof data !== 'string') {
+            throw new Error(`${path}：必須是節點 id 或 null`);
+        }
+        return data;
+    }
+
+    /**
+     * 讀取配方 id（必須存在於配方資料庫）
+     */
+    private parseRecipeId(data: unknown, path: string): string {
+        if (typeof data !== 'string' || !this.cocktail.getRecipeById(data)) {
+            throw new Error(`${path}：不存在的配方 ${String(data)}`);
+        }
+        return data;
+    }
+
+    /**
+     * 讀取數值參數
+     */
+    private parseValue(data: unknown, path: string): number {
+        if (typeof data !== 'number' || !Number.isFinite(data)) {
+            throw new Error(`${path}：value 必須是數字`);
+        }
+        return data;
+    }
+
+    /**
+     * 讀取陣列欄位，逐項交給 parseItem
+     */
+    private parseList<T>(data: unknown, path: string, parseItem: (item: unknown, itemPath: string) => T): T[] {
+        if (!Array.isArray(data)) throw new Error(`${path}：必須是陣列`);
+        return data.map((item, index) => parseItem(item, `${path}[${index}]`));
+    }
+
+    /**
+     * 是否為一般物件（非陣列、非 null）
+     */
+    private isRecord(data: unknown): data is Record<string, unknown> {
+        return typeof data === 'object' && data !== null && !Array.isArray(data);
+    }
+
+    /**
+     * 檢查對話樹的跳轉目標都指向存在的節點，否則丟出錯誤
+     */
+    private validateTargets(tree: DialogueTree): void {
+        const problems: string[] = [];
+        const checkTarget = (from: string, target: string | null | undefined): void => {
+            if (target && !tree.nodes[target]) problems.push(`${from} → 不存在的節點 ${target}`);
+        };
+
+        checkTarget('start', tree.start);
+        Object.entries(tree.nodes).forEach(([id, node]) => {
+            checkTarget(id, node.next);
+            (node.redirects || []).forEach(redirect => checkTarget(id, redirect.next));
+            (node.choices || []).forEach(choice => checkTarget(id, choice.next));
+        });
+
+        if (problems.length > 0) {
+            throw new Error(`${tree.npc} 的對話樹有誤：${problems.join('；')}`);
+        }
+        console.log(`✓ 載入 ${tree.npc} 的對話樹（${Object.keys(tree.nodes).length} 個節點）`);
+    }
+}
@@ -7,6 +7,15 @@ import type PhysicsSystem from './PhysicsSystem';
 import type CocktailSystem from './CocktailSystem';
 import { ItemType, type InteractableObject } from '../types/types';
 
+// 裝液體的容器：拿在手上時保持直立，低頭看也不會灑出
+const LEVEL_HELD_TYPES: ItemType[] = [
+    ItemType.GLASS,
+    ItemType.SHAKER,
+    ItemType.JIGGER,
+    ItemType.MIXING_GLASS,
+    ItemType.BLENDER
+];
+
 export default class InteractionSystem {
     private camera: BABYLON.UniversalCamera;
     private scene: BABYLON.Scene;
@@ -84,6 +93,17 @@ export default class InteractionSystem {
         this.interactableObjects.push(interactable);
     }
 
+    /**
+     * 取消註冊可互動物品（例如裝飾放到杯上後不再能單獨拾取）
+     */
+    unregisterInteractable(object: BABYLON.Mesh): void {
+        this.interactableObjects = this.interactableObjects.filter(item => item !== object);
+        if (this.targetedObject === object) {
+            this.highlightLayer.removeMesh(object);
+            this.targetedObject = null;
+        }
+    }
+
     /**
      * 更新系統（每幀調用）
      */
@@ -155,8 +175,12 @@ export default class InteractionSystem {
             .add(right.scale(this.holdOffset.x))
             .add(up.scale(this.holdOffset.y));
 
-        // 物品朝向與相機一致
-        this.heldObject.rotationQuaternion = this.camera.absoluteRotation.clone();
+        // 物品朝向與相機一致；液體容器只跟隨水平轉向，保持直立以免端著走時灑出
+        if (LEVEL_HELD_TYPES.includes(this.heldObject.userData.type)) {
+            this.heldObject.rotationQuaternion = BABYLON.Quaternion.FromEulerAngles(0, this.camera.rotation.y, 0);
+        } else {
+            this.heldObject.rotationQuaternion = this.camera.absoluteRotation.clone();
+        }
 
         // 輕微縮小物品以便觀看（可選）
         if (!this.heldObject.metadata?.originalScaling) {
@@ -171,6 +195,12 @@ export default class InteractionSystem {
     pickupItem(): boolean {
         if (!this.targetedObject || this.heldObject) return false;
 
+        // 冰桶、庫存箱、材料碗、沾邊碟固定不動，不能拾取
+        if (this.targetedObject.userData.type === ItemType.ICE_BIN ||
+            this.targetedObject.userData.type === ItemType.STOCK_CRATE ||
+            this.targetedObject.userData.type === ItemType.SOLID_INGREDIENT ||
+            this.targetedObject.userData.type === ItemType.RIM_DISH) return false;
+
         this.heldObject = this.targetedObject;
 
         // 移除高亮
@@ -189,6 +219,11 @@ export default class InteractionSystem {
     dropItem(): boolean {
         if (!this.heldObject) return false;
 
+        // 沒有物理體的物品（濾冰器）無法自然落下，直接放回原位
+        if (!this.physics.hasBody(this.heldObject)) {
+            return this.returnItem();
+        }
+
         const droppedObject = this.heldObject;
 
         // 恢復原始縮放（如果有修改過）
@@ -234,6 +269,11 @@ export default class InteractionSystem {
             returnedObject.position = originalPos.clone();
         }
 
+        // 沒有物理體的物品不會自行翻正，放回時擺正
+        if (!this.physics.hasBody(returnedObject)) {
+            returnedObject.rotationQuaternion = BABYLON.Quaternion.Identity();
+        }
+
         // 啟用物理
         this.physics.setPhysicsEnabled(returnedObject, true);
         this.physics.setVelocity(returnedObject, BABYLON.Vector3.Zero());
@@ -244,6 +284,21 @@ export default class InteractionSystem {
         return true;
     }
 
+    /**
+     * 鬆手交出持有的物品（由其他系統接手擺放，例如把濾冰器架到杯口）
+     */
+    releaseHeldObject(): InteractableObject | null {
+        if (!this.heldObject) return null;
+
+        const releasedObject = this.heldObject;
+        if (releasedObject.metadata?.originalScaling) {
+            releasedObject.scaling = releasedObject.metadata.originalScaling;
+        }
+
+        this.heldObject = null;
+        return releasedObject;
+    }
+
     /**
      * 獲取當前持有的物品
      */
@@ -283,7 +338,11 @@ export default class InteractionSystem {
                     this.targetedObject.userData.liquorType
                 );
                 if (liquorData) {
-                    hintText = `${liquorData.displayName} (${liquorData.name}) - 按 E 拾取`;
+                    const stock = this.cocktailSystem.getBottleStock(this.targetedObject);
+                    const stockText = !stock ? ''
+                        : stock.remaining <= 0 ? '（空瓶）'
+                        : ` ${Math.round(stock.remaining)}/${stock.capacity}ml`;
+                    hintText = `${liquorData.displayName} (${liquorData.name})${stockText} - 按 E 拾取`;
                 }
             }
             // 杯子
@@ -302,6 +361,49 @@ export default class InteractionSystem {
             else if (type === ItemType.MIXING_GLASS) {
                 hintText = 'Mixing Glass (調酒杯) - 按 E 拾取';
             }
+            // 冰桶
+            else if (type === ItemType.ICE_BIN && this.cocktailSystem && this.targetedObject.userData.iceType) {
+                const iceData = this.cocktailSystem.getIceData(this.targetedObject.userData.iceType);
+                hintText = `冰桶 - ${iceData ? iceData.name : ''}（手持杯子按住左鍵舀冰）`;
+            }
+            // 吧匙
+            else if (type === ItemType.BAR_SPOON) {
+                hintText = 'Bar Spoon (吧匙) - 按 E 拾取';
+            }
+            // 濾冰器
+            else if (type === ItemType.STRAINER && this.cocktailSystem && this.targetedObject.userData.strainerType) {
+                hintText = `${this.cocktailSystem.getStrainerName(this.targetedObject.userData.strainerType)} - 按 E 拾取`;
+            }
+            // 果汁機
+            else if (type === ItemType.BLENDER && this.cocktailSystem) {
+                const blender = this.cocktailSystem.getBlenderState(this.targetedObject);
+                const status = !blender ? ''
+                    : blender.running ? `運轉中，剩 ${Math.ceil(blender.remaining)} 秒`
+                    : `定時 ${blender.duration} 秒`;
+                hintText = `Blender (果汁機) ${status} - E 拾取杯壺 | B 啟動/停止 | T 切換時間`;
+            }
+            // 裝飾
+            else if (type === ItemType.GARNISH && this.cocktailSystem && this.targetedObject.userData.garnishType) {
+                const garnishData = this.cocktailSystem.getGarnishData(this.targetedObject.userData.garnishType);
+                hintText = `${garnishData ? `${garnishData.displayName} (${garnishData.name})` : ''} - 按 E 拾取`;
+            }
+            // 沾邊碟
+            else if (type === ItemType.RIM_DISH && this.cocktailSystem && this.targetedObject.userData.rimType) {
+                hintText = `${this.cocktailSystem.getRimName(this.targetedObject.userData.rimType)}沾邊碟（手持杯子按左鍵沾杯緣）`;
+            }
+            // 搗棒
+            else if (type === ItemType.MUDDLER) {
+                hintText = 'Muddler (搗棒) - 按 E 拾取';
+            }
+            // 材料碗
+            else if (type === ItemType.SOLID_INGREDIENT && this.cocktailSystem && this.targetedObject.userData.solidType) {
+                const solidData = this.cocktailSystem.getSolidData(this.targetedObject.userData.solidType);
+                hintText = `${solidData ? `${solidData.displayName} (${solidData.name})` : ''}（手持杯子按住左鍵放入）`;
+            }
+            // 庫存箱
+            else if (type === ItemType.STOCK_CRATE) {
+                hintText = '庫存箱（手持酒瓶按住左鍵補貨）';
+            }
             // 其他物品
             else {
                 hintText = `${type} - 按 E 拾取`;
@@ -4,8 +4,20 @@
  */
 
 import * as BABYLON from '@babylonjs/core';
-import { ItemType } from '../types/types';
+import {
+    ItemType,
+    type FlavorBalance,
+    type ServedDrink,
+    type NPCProfile,
+    type NPCDrinkMemory,
+    type NPCDialogueContext
+} from '../types/types';
+import { NPC_PROFILES, CUSTOMER_FAVORITE_POOL, CUSTOMER_DISLIKE_POOL } from '../data/npcProfiles';
 import ModelLoader from './ModelLoader';
+import { escapeHtml } from '../utils/html';
+
+// NPC 表情
+type NPCExpression = 'neutral' | 'happy' | 'unhappy';
 
 interface NPCConfig {
     name: string;
@@ -13,10 +25,12 @@ interface NPCConfig {
     shirtColor: number;
     pantsColor: number;
     role: string;
-    dialogues: string[];
+    dialogues?: string[];                  // 簡單循環台詞（有對話樹的 NPC 不需要）
+    profile: NPCProfile;
     gender?: 'male' | 'female';
     rotation?: number;
     useGLBModel?: boolean;
+    interactionDistance?: number;
 }
 
 interface NPCData {
@@ -27,12 +41,87 @@ interface NPCData {
     originalY: number;
     baseRotation: number;
     nameTagSprite?: BABYLON.Sprite;
+    profile: NPCProfile;
+    mood: number;                          // 目前心情（-1 ~ 1）
+    memory: NPCDrinkMemory[];              // 玩家本次端過的酒（由舊到新）
+    order: string | null;                  // 對話中點的酒（配方 id），端上後清除
+    expression: NPCExpression;
+    expressionTimer: number;               // 表情維持的剩餘秒數
+    mouth?: BABYLON.Mesh;                  // 幾何體 NPC 才有嘴巴
+    nameTagMaterial?: BABYLON.StandardMaterial;
+    interactionDistance?: number;          // 自訂互動距離（吧檯客人可隔著檯面互動）
 }
 
+// 風味評語（依最明顯的問題挑選）
+const FLAVOR_COMMENTS = {
+    sour: ['嗚……好酸！糖漿可以再多一點。', '酸味太搶了，有點刺舌頭。'],
+    sweet: ['太甜了吧，像在喝糖水。', '甜味蓋過了其他味道，酸度再多一點會更平衡。'],
+    bitter: ['苦味有點重，不是每個人都能接受喔。', '這杯好苦，苦精或金巴利放太多了？'],
+    strong: ['哇，這杯好烈！', '酒味很衝，稍微稀釋一下會比較順口。'],
+    watery: ['有點水水的，冰塊融太多了。', '味道被沖淡了，下次搖快一點、別放太久。'],
+    balanced: ['酸甜平衡得很好，不錯喔！', '這杯很順口，比例抓得很準！']
+};
+
+// 喝完後的反應（依評分星數挑選）
+const REACTION_COMMENTS: Record<number, string[]> = {
+    5: ['太好喝了！可以再來一杯嗎？', '這杯完全是專業水準！'],
+    4: ['好喝！看得出來有用心。', '很不錯，再調整一點點就完美了。'],
+    3: ['嗯，還可以。', '能喝，但好像少了點什麼。'],
+    2: ['呃……這杯有點怪。', '比例好像跑掉了。'],
+    1: ['噗——這到底是什麼？', '抱歉，我實在喝不下去……']
+};
+
+// 對上一杯酒的回憶（依當時星數挑選，{drink} 為飲品名稱）
+const MEMORY_REMARKS: Record<number, string> = {
+    5: '剛剛那杯 {drink} 真的太棒了，我還在回味！',
+    4: '剛剛那杯 {drink} 很不錯，謝啦！',
+    3: '剛剛那杯 {drink} 還行，下次再加油。',
+    2: '老實說，剛剛那杯 {drink} 我不太喜歡……',
+    1: '剛剛那杯 {drink}……我們就當作沒發生過吧。'
+};
+
+// 表情對應的名牌底色（neutral 為原本的深灰）
+const EXPRESSION_TAG_COLORS: Record<NPCExpression, BABYLON.Color3> = {
+    neutral: new BABYLON.Color3(0.1, 0.1, 0.1),
+    happy: new BABYLON.Color3(0.1, 0.45, 0.2),
+    unhappy: new BABYLON.Color3(0.5, 0.1, 0.1)
+};
+
 export default class NPCManager {
     private scene: BABYLON.Scene;
     private npcs: BABYLON.Mesh[] = [];
     private modelLoader: ModelLoader;
+    private dialogueHideTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // 風味評語門檻（風味平衡各軸為 0-1）
+    private readonly FLAVOR_IMBALANCE = 0.25;    // 甜酸差距超過此值即覺得太甜/太酸
+    private readonly FLAVOR_BITTER_LIMIT = 0.6;
+    private readonly FLAVOR_STRONG_LIMIT = 0.8;
+    private readonly FLAVOR_WATERY_LIMIT = 0.7;
+
+    // 端酒評分（0-100 分，每 20 分一顆星）
+    private readonly UNKNOWN_DRINK_POINTS = 40;    // 認不出配方時的基本分
+    private readonly FAVORITE_RECIPE_BONUS = 20;
+    private readonly FAVORITE_INGREDIENT_BONUS = 8;
+    private readonly DISLIKED_PENALTY = 35;
+    private readonly TOO_STRONG_PENALTY = 20;
+    private readonly FLAVOR_ISSUE_PENALTY = 10;
+    private readonly SIP_VOLUME = 20;              // 少於此量（ml）只算一口
+    private readonly SIP_PENALTY = 25;
+    private readonly REACTION_DURATION = 4;        // 表情維持秒數
+
+    // 心情（-1 ~ 1）
+    private readonly MOOD_RATING_POINTS = 10;      // 心情對評分的影響（心情 1 時加 10 分）
+    private readonly MOOD_PER_STAR = 0.15;         // 每顆星高於/低於 3 星時的心情變化
+    private readonly MOOD_RECOVERY_RATE = 0.01;    // 每秒回到平常心情的幅度
+    private readonly LOW_MOOD = -0.3;
+    private readonly HIGH_MOOD = 0.5;
+
+    // 吧檯客人
+    private readonly CUSTOMER_INTERACTION_DISTANCE = 4.5; // 站在吧檯內即可點單、上酒
+    private readonly CUSTOMER_MIN_TOLERANCE = 20;  // 客人單杯酒精濃度上限的範圍（%）
+    private readonly CUSTOMER_MAX_TOLERANCE = 40;
+    private readonly CUSTOMER_SHIRT_COLORS = [0x2e8b57, 0x8b4513, 0x4b0082, 0xb8860b, 0x2f4f4f, 0xa0522d];
 
     constructor(scene: BABYLON.Scene) {
         this.scene = scene;
@@ -53,13 +142,7 @@ export default class NPCManager {
             role: '調酒社創始社長',
             gender: 'male',
             useGLBModel: false, // 改用幾何體以確保穩定性和性能
-            dialogues: [
-                '嗨！我是 Gustave Yang，NCU 分子創意飲品研究社的創辦人！',
-                '分子調酒不只是技術，更是科學與藝術的融合。',
-                '你知道嗎？調酒的關鍵在於材料的比例和混合方式。',
-                '歡迎來到我們的酒吧！試著調製一杯屬於你的調酒吧！',
-                '記得，好的調酒需要耐心和創意。'
-            ]
+            profile: NPC_PROFILES.Gustave // 對話內容見 data/dialogues/gustave.json
         });
 
         // 創建 NPC 2 - Seaton（調酒社共同創辦人）- 使用幾何體
@@ -71,13 +154,7 @@ export default class NPCManager {
             role: '調酒社共同創辦人',
             gender: 'male',
             useGLBModel: false, // 改用幾何體以確保穩定性和性能
-            dialogues: [
-                '哈囉！我是 Seaton 曦樂，也是社團的共同創辦人！',
-                '我最喜歡日本威士忌，特別是山崎12年。',
-                '調酒是一門藝術，每一杯都有它的故事。',
-                '你可以試著調一杯 Old Fashioned，那是我的最愛。',
-                '享受調酒的過程，不要急於求成。'
-            ]
+            profile: NPC_PROFILES.Seaton // 對話內容見 data/dialogues/seaton.json
         });
     }
 
@@ -115,14 +192,88 @@ export default class NPCManager {
             npc = this.createGeometricNPC(config);
         }
 
-        // 儲存 NPC 資料
+        this.registerNPC(npc, config);
+    }
+
+    /**
+     * 吧檯客人入座（營業模式使用，固定以幾何體創建）
+     * @param avoidIngredients 不可列為討厭的材料（客人點的酒裡的材料）
+     */
+    addCustomer(
+        name: string,
+        position: BABYLON.Vector3,
+        dialogues: string[],
+        avoidIngredients: string[] = []
+    ): BABYLON.Mesh {
+        const palette = this.CUSTOMER_SHIRT_COLORS;
+        const config: NPCConfig = {
+            name,
+            position,
+            shirtColor: palette[Math.floor(Math.random() * palette.length)],
+            pantsColor: 0x2a2a3a,
+            role: '客人',
+            dialogues,
+            gender: Math.random() < 0.5 ? 'male' : 'female',
+            rotation: Math.PI, // 面向吧檯
+            profile: this.createCustomerProfile(avoidIngredients),
+            interactionDistance: this.CUSTOMER_INTERACTION_DISTANCE
+        };
+
+        const npc = this.createGeometricNPC(config);
+        this.registerNPC(npc, config);
+        return npc;
+    }
+
+    /**
+     * 隨機產生吧檯客人的個性：一種喜歡、一種討厭的材料，酒量與心情各有不同
+     */
+    private createCustomerProfile(avoidIngredients: string[]): NPCProfile {
+        const pick = (pool: string[]): string[] =>
+            pool.length > 0 ? [pool[Math.floor(Math.random() * pool.length)]] : [];
+        const tolerance = this.CUSTOMER_MIN_TOLERANCE +
+            Math.random() * (this.CUSTOMER_MAX_TOLERANCE - this.CUSTOMER_MIN_TOLERANCE);
+
+        return {
+            favoriteRecipes: [],
+            favoriteIngredients: pick(CUSTOMER_FAVORITE_POOL),
+            dislikedIngredients: pick(CUSTOMER_DISLIKE_POOL.filter(type => !avoidIngredients.includes(type))),
+            abvTolerance: Math.round(tolerance),
+            baseMood: Math.random() * 0.8 - 0.3
+        };
+    }
+
+    /**
+     * 移除 NPC（客人離座）
+     */
+    removeNPC(npc: BABYLON.Mesh): void {
+        const index = this.npcs.indexOf(npc);
+        if (index === -1) return;
+
+        this.npcs.splice(index, 1);
+        npc.dispose(false, true);
+    }
+
+    /**
+     * 儲存 NPC 資料並加入管理清單
+     */
+    private registerNPC(npc: BABYLON.Mesh, config: NPCConfig): void {
         (npc as any).userData = {
             name: config.name,
             role: config.role,
-            dialogues: config.dialogues,
+            dialogues: config.dialogues ?? [],
             currentDialogue: 0,
             originalY: config.position.y,
-            baseRotation: config.rotation || 0
+            baseRotation: config.rotation || 0,
+            profile: config.profile,
+            mood: config.profile.baseMood,
+            memory: [],
+            order: null,
+            expression: 'neutral',
+            expressionTimer: 0,
+            mouth: npc.getChildMeshes(false, mesh => mesh.name === 'mouth')[0] as BABYLON.Mesh | undefined,
+            nameTagMaterial: npc.getChildMeshes(false, mesh => mesh.name === 'nameTagPlane')[0]
+                ?.material as BABYLON.StandardMaterial | undefined,
+            interactionDistance: config.interactionDistance
         } as NPCData;
 
         this.npcs.push(npc);
@@ -383,15 +534,16 @@ export default class NPCManager {
     /**
      * 檢查玩家是否接近某個 NPC
      */
-    checkInteractions(playerPosition: BABYLON.Vector3): BABYLON.Mesh | null {
+    checkInteractions(playerPosition: BABYLON.Vector3, holdingDrink: boolean = false): BABYLON.Mesh | null {
         const interactionDistance = 2.5;
         let closestNPC: BABYLON.Mesh | null = null;
         let minDistance = Infinity;
 
         for (const npc of this.npcs) {
             const distance = BABYLON.Vector3.Distance(playerPosition, npc.position);
+            const reach = ((npc as any).userData as NPCData).interactionDistance ?? interactionDistance;
 
-            if (distance < interactionDistance && distance < minDistance) {
+            if (distance < reach && distance < minDistance) {
                 minDistance = distance;
                 closestNPC = npc;
             }
@@ -402,7 +554,9 @@ export default class NPCManager {
         if (hint) {
             if (closestNPC) {
                 const userData = (closestNPC as any).userData as NPCData;
-                hint.textContent = `按 E 與 ${userData.name} 交談`;
+                hint.textContent = holdingDrink
+                    ? `按 F 把酒遞給 ${userData.name}，按 E 請對方評論`
+                    : `按 E 與 ${userData.name} 交談`;
                 hint.style.display = 'block';
             } else {
                 hint.style.display = 'none';
@@ -419,31 +573,280 @@ export default class NPCManager {
         if (!npc) return;
 
         const userData = (npc as any).userData as NPCData;
+        if (userData.dialogues.length === 0) return;
 
-        const dialogueBox = document.getElementById('dialogue-box');
-        const characterName = document.getElementById('character-name');
-        const dialogueText = document.getElementById('dialogue-text');
+        this.showDialogue(userData, userData.dialogues[userData.currentDialogue]);
 
-        if (!dialogueBox || !characterName || !dialogueText) return;
+        // 循環對話
+        userData.currentDialogue = (userData.currentDialogue + 1) % userData.dialogues.length;
+    }
 
-        // 設置對話內容
-        characterName.textContent = `${userData.name} - ${userData.role}`;
-        dialogueText.textContent = userData.dialogues[userData.currentDialogue];
+    /**
+     * 回憶上一杯酒：依當時星數評論，喝過三杯以上再加上整體印象（對話樹的 {lastDrinkRemark}）
+     */
+    getMemoryRemark(npc: BABYLON.Mesh): string | null {
+        const userData = (npc as any).userData as NPCData;
+        const drink = userData.memory[userData.memory.length - 1];
+        if (!drink) return null;
 
-        // 顯示對話框
-        dialogueBox.classList.remove('active');
-        dialogueBox.offsetHeight; // 強制重繪
-        dialogueBox.classList.add('active');
+        let remark = MEMORY_REMARKS[drink.rating].replace('{drink}', drink.name);
 
-        // 循環對話
-        userData.currentDialogue = (userData.currentDialogue + 1) % userData.dialogues.length;
+        if (userData.memory.length >= 3) {
+            const average = userData.memory.reduce((sum, item) => sum + item.rating, 0) / userData.memory.length;
+            const improving = drink.rating > userData.memory[0].rating;
+            remark += `今天你已經幫我調了 ${userData.memory.length} 杯，平均 ${average.toFixed(1)} 顆星`;
+            remark += improving ? '，越調越好了！' : '。';
+        }
+        return remark;
+    }
+
+    /**
+     * 讓 NPC 說出指定台詞（點單、催促、離開等）
+     */
+    say(npc: BABYLON.Mesh, text: string): void {
+        if (!npc) return;
+
+        this.showDialogue((npc as any).userData as NPCData, text);
+    }
 
-        // 4秒後隱藏
-        setTimeout(() => {
-            dialogueBox.classList.remove('active');
+    /**
+     * 取得對話樹判斷條件用的 NPC 狀態
+     */
+    getDialogueContext(npc: BABYLON.Mesh): NPCDialogueContext {
+        const userData = (npc as any).userData as NPCData;
+        return {
+            name: userData.name,
+            mood: userData.mood,
+            memory: [...userData.memory],
+            order: userData.order
+        };
+    }
+
+    /**
+     * 改變 NPC 心情（對話動作使用）
+     */
+    changeMood(npc: BABYLON.Mesh, amount: number): void {
+        const userData = (npc as any).userData as NPCData;
+        userData.mood = Math.max(-1, Math.min(1, userData.mood + amount));
+    }
+
+    /**
+     * NPC 在對話中點一杯酒，端上時依此配方評分
+     */
+    setOrder(npc: BABYLON.Mesh, recipeId: string): void {
+        ((npc as any).userData as NPCData).order = recipeId;
+    }
+
+    /**
+     * 顯示對話樹的節點：不會自動隱藏，列出玩家可選的選項
+     * @param choices 選項文字，空陣列時提示按 E 繼續
+     * @param note 附加在台詞下方的提示（例如配方提示）
+     */
+    showConversation(npc: BABYLON.Mesh, text: string, choices: string[], note?: string): void {
+        const userData = (npc as any).userData as NPCData;
+        this.showDialogue(userData, text);
+
+        // 對話樹由玩家結束，取消自動隱藏
+        if (this.dialogueHideTimer) {
+            clearTimeout(this.dialogueHideTimer);
+            this.dialogueHideTimer = null;
+        }
+
+        const noteText = document.getElementById('npc-note');
+        if (noteText) {
+            noteText.textContent = note || '';
+            noteText.style.display = note ? 'block' : 'none';
+        }
+
+        const choiceList = document.getElementById('npc-choices');
+        if (choiceList) {
+            choiceList.innerHTML = choices.length > 0
+                ? choices.map((choice, index) => `<div class="npc-choice">${index + 1}. ${escapeHtml(choice)}</div>`).join('')
+                : '<div class="npc-continue">按 E 繼續</div>';
+            choiceList.style.display = 'block';
+        }
+    }
+
+    /**
+     * 關閉對話框
+     */
+    hideDialogue(): void {
+        if (this.dialogueHideTimer) {
+            clearTimeout(this.dialogueHideTimer);
+            this.dialogueHideTimer = null;
+        }
+        const dialoguePanel = document.getElementById('npc-dialogue-panel');
+        if (dialoguePanel) dialoguePanel.style.display = 'none';
+    }
+
+    /**
+     * NPC 看玩家手上的酒，依風味平衡給出評語
+     */
+    commentOnFlavor(npc: BABYLON.Mesh, balance: FlavorBalance): void {
+        if (!npc) return;
+
+        const userData = (npc as any).userData as NPCData;
+        const lines = FLAVOR_COMMENTS[this.getFlavorIssue(balance)];
+        this.showDialogue(userData, lines[Math.floor(Math.random() * lines.length)]);
+    }
+
+    /**
+     * NPC 喝下端來的飲品，依實際內容與個人喜好給出評分、評語與表情
+     */
+    serveDrink(npc: BABYLON.Mesh, drink: ServedDrink): number {
+        const userData = (npc as any).userData as NPCData;
+        const profile = userData.profile;
+
+        const disliked = drink.ingredients.find(ing => profile.dislikedIngredients.includes(ing.type));
+        const favoriteIngredient = drink.ingredients.find(ing => profile.favoriteIngredients.includes(ing.type));
+        const recipeId = drink.score?.matched ? drink.score.recipeId : null;
+        const favoriteRecipe = recipeId !== null && profile.favoriteRecipes.includes(recipeId);
+        const tooStrong = drink.alcoholContent > profile.abvTolerance;
+        const wrongOrder = userData.order !== null && !drink.score?.matched;
+        const flavorIssue = drink.flavor ? this.getFlavorIssue(drink.flavor) : 'balanced';
+
+        // 上次喝過同一款調酒時，會拿來比較
+        const previous = recipeId
+            ? [...userData.memory].reverse().find(item => item.recipeId === recipeId)
+            : undefined;
+
+        // 心情好時比較寬容，心情差時比較挑剔
+        let points = (drink.score ? drink.score.score : this.UNKNOWN_DRINK_POINTS) +
+            userData.mood * this.MOOD_RATING_POINTS;
+        if (favoriteRecipe) {
+            points += this.FAVORITE_RECIPE_BONUS;
+        } else if (favoriteIngredient) {
+            points += this.FAVORITE_INGREDIENT_BONUS;
+        }
+        if (disliked) points -= this.DISLIKED_PENALTY;
+        if (tooStrong) points -= this.TOO_STRONG_PENALTY;
+        if (flavorIssue !== 'balanced') points -= this.FLAVOR_ISSUE_PENALTY;
+        if (drink.volume < this.SIP_VOLUME) points -= this.SIP_PENALTY;
+
+        const rating = Math.max(1, Math.min(5, Math.ceil(points / 20)));
+
+        // 評語：明確的喜惡優先，其次依星數，分數不高時補上風味問題
+        let line: string;
+        if (disliked) {
+            line = `唔……我不太能接受${disliked.displayName}。`;
+        } else if (wrongOrder) {
+            line = `這不是我點的 ${drink.score?.recipeName ?? '那杯酒'} 吧？`;
+        } else if (drink.volume < this.SIP_VOLUME) {
+            line = '就這麼一口？我還沒喝出味道呢。';
+        } else if (favoriteRecipe && rating >= 4) {
+            line = `是 ${drink.score!.recipeName}！我的最愛，你記得耶！`;
+        } else if (tooStrong) {
+            line = '這杯太烈了，我的酒量可沒那麼好……';
+        } else if (previous && rating > previous.rating) {
+            line = `這杯 ${previous.name} 比上次好喝多了！`;
+        } else if (previous && rating < previous.rating) {
+            line = `咦，這杯 ${previous.name} 沒有上次好喝耶。`;
+        } else {
+            const lines = REACTION_COMMENTS[rating];
+            line = lines[Math.floor(Math.random() * lines.length)];
+        }
+        if (rating <= 3 && flavorIssue !== 'balanced') {
+            const flavorLines = FLAVOR_COMMENTS[flavorIssue];
+            line += flavorLines[Math.floor(Math.random() * flavorLines.length)];
+        }
+
+        // 記住這杯酒，心情隨評分起伏；點的酒端上了就算結單
+        userData.order = null;
+        userData.memory.push({
+            recipeId,
+            name: drink.score?.matched ? drink.score.recipeName : drink.name,
+            rating
+        });
+        userData.mood = Math.max(-1, Math.min(1, userData.mood + (rating - 3) * this.MOOD_PER_STAR));
+
+        this.setExpression(userData, rating >= 4 ? 'happy' : rating <= 2 ? 'unhappy' : 'neutral');
+        this.showDialogue(userData, line, '★'.repeat(rating) + '☆'.repeat(5 - rating));
+
+        console.log(`✓ ${userData.name} 喝了 ${drink.name}（${drink.volume.toFixed(0)}ml），評分 ${rating}/5`);
+        return rating;
+    }
+
+    /**
+     * 切換 NPC 表情（嘴型與名牌底色），一段時間後恢復
+     */
+    private setExpression(userData: NPCData, expression: NPCExpression): void {
+        userData.expression = expression;
+        userData.expressionTimer = expression === 'neutral' ? 0 : this.REACTION_DURATION;
+
+        if (userData.mouth) {
+            if (expression === 'happy') {
+                // 轉正面向玩家，成為張大的笑口
+                userData.mouth.rotation.x = Math.PI / 2;
+                userData.mouth.scaling.set(1.1, 1, 0.5);
+            } else if (expression === 'unhappy') {
+                // 縮成緊抿的一條線
+                userData.mouth.rotation.x = Math.PI;
+                userData.mouth.scaling.set(0.6, 1, 0.6);
+            } else {
+                userData.mouth.rotation.x = Math.PI;
+                userData.mouth.scaling.set(1, 1, 1);
+            }
+        }
+
+        if (userData.nameTagMaterial) {
+            userData.nameTagMaterial.diffuseColor = EXPRESSION_TAG_COLORS[expression].clone();
+        }
+    }
+
+    /**
+     * 找出風味最明顯的問題（甜酸失衡優先）
+     */
+    private getFlavorIssue(balance: FlavorBalance): keyof typeof FLAVOR_COMMENTS {
+        const sweetSour = balance.sweetness - balance.acidity;
+        if (sweetSour < -this.FLAVOR_IMBALANCE) return 'sour';
+        if (sweetSour > this.FLAVOR_IMBALANCE) return 'sweet';
+        if (balance.bitterness > this.FLAVOR_BITTER_LIMIT) return 'bitter';
+        if (balance.strength > this.FLAVOR_STRONG_LIMIT) return 'strong';
+        if (balance.dilution > this.FLAVOR_WATERY_LIMIT) return 'watery';
+        return 'balanced';
+    }
+
+    /**
+     * 顯示 NPC 對話框（4 秒後隱藏），端酒時附上星等評分
+     */
+    private showDialogue(userData: NPCData, text: string, rating?: string): void {
+        const dialoguePanel = document.getElementById('npc-dialogue-panel');
+        const characterName = document.getElementById('npc-name');
+        const dialogueText = document.getElementById('npc-message');
+        const ratingText = document.getElementById('npc-rating');
+
+        if (!dialoguePanel || !characterName || !dialogueText) return;
+
+        characterName.textContent = `${userData.name} - ${userData.role} ${this.getMoodIcon(userData.mood)}`;
+        dialogueText.textContent = text;
+        if (ratingText) {
+            ratingText.textContent = rating || '';
+            ratingText.style.display = rating ? 'block' : 'none';
+        }
+        ['npc-choices', 'npc-note'].forEach(id => {
+            const element = document.getElementById(id);
+            if (element) element.style.display = 'none';
+        });
+        dialoguePanel.style.display = 'block';
+
+        if (this.dialogueHideTimer) {
+            clearTimeout(this.dialogueHideTimer);
+        }
+        this.dialogueHideTimer = setTimeout(() => {
+            dialoguePanel.style.display = 'none';
+            this.dialogueHideTimer = null;
         }, 4000);
     }
 
+    /**
+     * 心情圖示（顯示在對話框的名字旁）
+     */
+    private getMoodIcon(mood: number): string {
+        if (mood >= this.HIGH_MOOD) return '😄';
+        if (mood <= this.LOW_MOOD) return '😞';
+        return '🙂';
+    }
+
     /**
      * 更新 NPC 動畫（每幀調用）
      */
@@ -453,13 +856,31 @@ export default class NPCManager {
         this.npcs.forEach((npc, index) => {
             const userData = (npc as any).userData as NPCData;
 
-            // 輕微的上下浮動
-            const floatY = Math.sin(currentTime + index) * 0.02;
+            // 輕微的上下浮動（開心時會雀躍地跳動）
+            let floatY = Math.sin(currentTime + index) * 0.02;
+            if (userData.expression === 'happy') {
+                floatY += Math.abs(Math.sin(currentTime * 8)) * 0.08;
+            }
             npc.position.y = userData.originalY + floatY;
 
-            // 輕微的左右搖擺
-            const swayAmount = Math.sin(currentTime * 0.8 + index * 2) * 0.05;
+            // 輕微的左右搖擺（不滿意時會搖頭）
+            let swayAmount = Math.sin(currentTime * 0.8 + index * 2) * 0.05;
+            if (userData.expression === 'unhappy') {
+                swayAmount += Math.sin(currentTime * 12) * 0.2;
+            }
             npc.rotation.y = userData.baseRotation + swayAmount;
+
+            // 心情慢慢回到平常的狀態
+            const moodGap = userData.profile.baseMood - userData.mood;
+            userData.mood += Math.sign(moodGap) * Math.min(Math.abs(moodGap), this.MOOD_RECOVERY_RATE * deltaTime);
+
+            // 表情維持一段時間後恢復
+            if (userData.expressionTimer > 0) {
+                userData.expressionTimer -= deltaTime;
+                if (userData.expressionTimer <= 0) {
+                    this.setExpression(userData, 'neutral');
+                }
+            }
         });
     }
 
@@ -118,6 +118,13 @@ export default class PhysicsSystem {
         }
     }
 
+    /**
+     * 檢查是否有物理體
+     */
+    hasBody(mesh: BABYLON.Mesh): boolean {
+        return this.physicsImpostors.has(mesh);
+    }
+
     /**
      * 設定物體速度
      */
@@ -20,6 +20,9 @@ export default class PlayerController {
     // 是否鎖定指針
     private isPointerLocked: boolean = false;
 
+    // 是否禁止移動（對話進行中）
+    private isMovementLocked: boolean = false;
+
     constructor(camera: BABYLON.UniversalCamera, scene: BABYLON.Scene, canvas: HTMLCanvasElement) {
         this.camera = camera;
         this.scene = scene;
@@ -44,10 +47,7 @@ export default class PlayerController {
         });
 
         // 設置基本移動鍵
-        this.camera.keysUp = [87];    // W
-        this.camera.keysDown = [83];  // S
-        this.camera.keysLeft = [65];  // A
-        this.camera.keysRight = [68]; // D
+        this.setMoveKeys(true);
 
         // 設置速度
         this.camera.speed = this.MOVE_SPEED;
@@ -69,6 +69,26 @@ export default class PlayerController {
         this.camera.lowerBetaLimit = -Math.PI / 2 - 0.1;
     }
 
+    /**
+     * 設置或清空 WASD 移動鍵
+     */
+    private setMoveKeys(enabled: boolean): void {
+        this.camera.keysUp = enabled ? [87] : [];    // W
+        this.camera.keysDown = enabled ? [83] : [];  // S
+        this.camera.keysLeft = enabled ? [65] : [];  // A
+        this.camera.keysRight = enabled ? [68] : []; // D
+    }
+
+    /**
+     * 禁止/恢復移動（仍可轉動視角）
+     */
+    setMovementLocked(locked: boolean): void {
+        if (this.isMovementLocked === locked) return;
+
+        this.isMovementLocked = locked;
+        this.setMoveKeys(!locked);
+    }
+
     /**
      * 設置指針鎖定
      */
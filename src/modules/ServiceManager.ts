@@ -0,0 +1,351 @@
+/**
+ * 營業模式管理器 - 客人入座吧檯椅並從酒單點酒，
+ * 耐心耗盡就走人，上酒後依點單配方評分並記入帳本，打烊時產生班次總結
+ */
+
+import * as BABYLON from '@babylonjs/core';
+import CocktailSystem from './CocktailSystem';
+import NPCManager from './NPCManager';
+import BarLedger from './BarLedger';
+import type { CocktailRecipe, ServiceRecord, ShiftSummary } from '../types/types';
+import { escapeHtml } from '../utils/html';
+
+// 吧檯客人
+interface Customer {
+    npc: BABYLON.Mesh;
+    name: string;
+    stoolIndex: number;
+    order: CocktailRecipe;
+    patience: number;       // 剩餘耐心（秒）
+    maxPatience: number;
+    waitTime: number;       // 已等待秒數
+    leaving: boolean;       // 已上酒或走人，等待離座
+    leaveTimer: number;     // 離座倒數（秒）
+}
+
+// 客人名字（輪流使用）
+const CUSTOMER_NAMES = ['Amelia', 'Kenji', '小雨', 'Lucas', '阿哲', 'Sofia', 'Haruto', '佳佳', 'Noah', '美玲'];
+
+// 客人台詞
+const ORDER_LINES = ['麻煩給我一杯 {drink}。', '今天想喝 {drink}，拜託了！', '嗨～來杯 {drink} 吧。'];
+const WAITING_LINES = ['慢慢來，不過別讓我等太久喔。', '我的酒好了嗎？'];
+const WALKOUT_LINES = ['等太久了，我先走了。', '算了，我去別家喝。'];
+
+export default class ServiceManager {
+    private cocktail: CocktailSystem;
+    private npcManager: NPCManager;
+    private ledger: BarLedger;
+    private stoolPositions: BABYLON.Vector3[];
+
+    private customers: Customer[] = [];
+    private records: ServiceRecord[] = [];
+    private active: boolean = false;
+    private shiftElapsed: number = 0;
+    private arrivalTimer: number = 0;
+    private customerCount: number = 0;
+    private panelRefreshTimer: number = 0;
+    private finishedShift: ShiftSummary | null = null;
+
+    // 班次設定
+    private readonly SHIFT_DURATION = 300;          // 營業秒數（時間到後不再進客，最後一位客人離開即打烊）
+    private readonly FIRST_ARRIVAL_DELAY = 3;       // 開店後第一位客人到達的秒數
+    private readonly ARRIVAL_INTERVAL = 25;         // 客人到達間隔（秒）
+    private readonly BASE_PATIENCE = 90;            // 基本耐心（秒）
+    private readonly PATIENCE_PER_DIFFICULTY = 30;  // 配方每多一級難度多等的秒數
+    private readonly LEAVE_DELAY = 4;               // 上酒或走人後留在座位上的秒數
+    private readonly IMPATIENT_RATIO = 0.3;         // 耐心低於此比例時催促並以紅色顯示
+    private readonly SEAT_OFFSET = new BABYLON.Vector3(0, 0.3, 0.2); // 相對椅子的入座位置（椅子後方）
+    private readonly PANEL_REFRESH_INTERVAL = 0.25;
+
+    constructor(
+        cocktail: CocktailSystem,
+        npcManager: NPCManager,
+        ledger: BarLedger,
+        stoolPositions: BABYLON.Vector3[]
+    ) {
+        this.cocktail = cocktail;
+        this.npcManager = npcManager;
+        this.ledger = ledger;
+        this.stoolPositions = stoolPositions;
+    }
+
+    /**
+     * 是否正在營業
+     */
+    isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * 開店；營業中再次切換則宣告最後點單（不再進客，等座位上的客人離開後打烊）
+     */
+    toggleShift(): void {
+        if (this.active) {
+            this.shiftElapsed = Math.max(this.shiftElapsed, this.SHIFT_DURATION);
+            console.log('✓ 最後點單，最後一位客人離開後打烊');
+            return;
+        }
+
+        this.active = true;
+        this.records = [];
+        this.shiftElapsed = 0;
+        this.arrivalTimer = this.FIRST_ARRIVAL_DELAY;
+        this.finishedShift = null;
+        this.setPanelVisible(true);
+        this.refreshPanel();
+        console.log(`✓ 開店營業（${this.SHIFT_DURATION} 秒）`);
+    }
+
+    /**
+     * 更新營業狀態（每幀調用）
+     */
+    update(deltaTime: number): void {
+        if (!this.active) return;
+
+        this.shiftElapsed += deltaTime;
+
+        // 營業時間內且有空位時，依間隔帶入新客人
+        if (this.shiftElapsed < this.SHIFT_DURATION) {
+            this.arrivalTimer -= deltaTime;
+            if (this.arrivalTimer <= 0) {
+                this.arrivalTimer = this.ARRIVAL_INTERVAL;
+                this.seatCustomer();
+            }
+        }
+
+        for (const customer of [...this.customers]) {
+            if (customer.leaving) {
+                customer.leaveTimer -= deltaTime;
+                if (customer.leaveTimer <= 0) {
+                    this.removeCustomer(customer);
+                }
+                continue;
+            }
+
+            const wasPatient = customer.patience > customer.maxPatience * this.IMPATIENT_RATIO;
+            customer.waitTime += deltaTime;
+            customer.patience -= deltaTime;
+
+            if (customer.patience <= 0) {
+                this.walkOut(customer);
+            } else if (wasPatient && customer.patience <= customer.maxPatience * this.IMPATIENT_RATIO) {
+                this.npcManager.say(customer.npc, WAITING_LINES[1]);
+            }
+        }
+
+        // 營業時間結束且客人都離開後打烊
+        if (this.shiftElapsed >= this.SHIFT_DURATION && this.customers.length === 0) {
+            this.closeShift();
+            return;
+        }
+
+        this.panelRefreshTimer -= deltaTime;
+        if (this.panelRefreshTimer <= 0) {
+            this.panelRefreshTimer = this.PANEL_REFRESH_INTERVAL;
+            this.refreshPanel();
+        }
+    }
+
+    /**
+     * 把手上的杯子端給吧檯客人，依客人點的配方評分
+     * @returns 對象是否為吧檯客人（不是客人時由一般端酒流程處理）
+     */
+    serveCustomer(npc: BABYLON.Mesh, glass: BABYLON.TransformNode): boolean {
+        const customer = this.customers.find(c => c.npc === npc);
+        if (!customer) return false;
+        if (customer.leaving) return true;
+
+        const served = this.cocktail.serveDrink(glass, customer.order.id);
+        if (!served) return true;
+
+        const rating = this.npcManager.serveDrink(npc, served);
+        const accuracy = served.score ? served.score.score : 0;
+        const sale = this.ledger.recordSale(customer.order, served, accuracy, customer.patience / customer.maxPatience);
+
+        this.records.push({
+            customerName: customer.name,
+            recipeId: customer.order.id,
+            recipeName: customer.order.name,
+            servedName: served.name,
+            accuracy,
+            rating,
+            waitTime: customer.waitTime,
+            walkedOut: false,
+            price: sale.price,
+            tip: sale.tip
+        });
+        this.startLeaving(customer);
+        this.refreshPanel();
+
+        console.log(`✓ ${customer.name} 的 ${customer.order.name} 已上酒：準確度 ${accuracy.toFixed(0)}、評分 ${rating}/5`);
+        return true;
+    }
+
+    /**
+     * 取得並清除剛結束的班次總結
+     */
+    getFinishedShift(): ShiftSummary | null {
+        const summary = this.finishedShift;
+        this.finishedShift = null;
+        return summary;
+    }
+
+    /**
+     * 有空位時讓新客人入座並點酒
+     */
+    private seatCustomer(): void {
+        const stoolIndex = this.stoolPositions.findIndex((_, index) =>
+            !this.customers.some(c => c.stoolIndex === index)
+        );
+        if (stoolIndex === -1) return;
+
+        const order = this.pickOrder();
+        if (!order) return;
+
+        const name = CUSTOMER_NAMES[this.customerCount % CUSTOMER_NAMES.length];
+        this.customerCount++;
+
+        const orderLine = ORDER_LINES[Math.floor(Math.random() * ORDER_LINES.length)]
+            .replace('{drink}', `${order.name}（${order.nameChinese}）`);
+        const npc = this.npcManager.addCustomer(
+            name,
+            this.stoolPositions[stoolIndex].add(this.SEAT_OFFSET),
+            [orderLine, WAITING_LINES[0]],
+            order.ingredients.map(ing => ing.type)
+        );
+
+        const patience = this.BASE_PATIENCE + this.PATIENCE_PER_DIFFICULTY * (order.difficulty - 1);
+        this.customers.push({
+            npc,
+            name,
+            stoolIndex,
+            order,
+            patience,
+            maxPatience: patience,
+            waitTime: 0,
+            leaving: false,
+            leaveTimer: 0
+        });
+
+        this.npcManager.say(npc, orderLine);
+        this.refreshPanel();
+        console.log(`✓ ${name} 入座 ${stoolIndex + 1} 號椅，點了 ${order.name}`);
+    }
+
+    /**
+     * 從酒單挑一款客人要點的酒（優先挑吧檯現有材料調得出來的）
+     */
+    private pickOrder(): CocktailRecipe | null {
+        const stocked = this.cocktail.filterRecipes({ stockedOnly: true });
+        const menu = stocked.length > 0 ? stocked : this.cocktail.filterRecipes({});
+        if (menu.length === 0) return null;
+
+        return menu[Math.floor(Math.random() * menu.length)];
+    }
+
+    /**
+     * 客人等不下去而離開
+     */
+    private walkOut(customer: Customer): void {
+        this.records.push({
+            customerName: customer.name,
+            recipeId: customer.order.id,
+            recipeName: customer.order.name,
+            servedName: null,
+            accuracy: 0,
+            rating: 0,
+            waitTime: customer.waitTime,
+            walkedOut: true,
+            price: 0,
+            tip: 0
+        });
+
+        this.npcManager.say(customer.npc, WALKOUT_LINES[Math.floor(Math.random() * WALKOUT_LINES.length)]);
+        this.startLeaving(customer);
+        console.log(`⚠️ ${customer.name} 等不到 ${customer.order.name}，離開了`);
+    }
+
+    /**
+     * 開始離座倒數（讓玩家看得到反應）
+     */
+    private startLeaving(customer: Customer): void {
+        customer.leaving = true;
+        customer.leaveTimer = this.LEAVE_DELAY;
+    }
+
+    /**
+     * 客人離座
+     */
+    private removeCustomer(customer: Customer): void {
+        this.customers = this.customers.filter(c => c !== customer);
+        this.npcManager.removeNPC(customer.npc);
+    }
+
+    /**
+     * 打烊：統計本班總結
+     */
+    private closeShift(): void {
+        const servedRecords = this.records.filter(record => !record.walkedOut);
+        const average = (values: number[]): number =>
+            values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+        this.finishedShift = {
+            duration: this.shiftElapsed,
+            served: servedRecords.length,
+            walkouts: this.records.length - servedRecords.length,
+            averageAccuracy: average(servedRecords.map(record => record.accuracy)),
+            averageRating: average(servedRecords.map(record => record.rating)),
+            revenue: this.records.reduce((sum, record) => sum + record.price, 0),
+            tips: this.records.reduce((sum, record) => sum + record.tip, 0),
+            records: [...this.records]
+        };
+
+        this.active = false;
+        this.setPanelVisible(false);
+        console.log(`✓ 打烊：上酒 ${this.finishedShift.served} 杯、走人 ${this.finishedShift.walkouts} 位`);
+    }
+
+    /**
+     * 顯示/隱藏點單面板
+     */
+    private setPanelVisible(visible: boolean): void {
+        const panel = document.getElementById('service-panel');
+        if (panel) {
+            panel.classList.toggle('visible', visible);
+        }
+    }
+
+    /**
+     * 更新點單面板（營業時間與各座位的點單、耐心）
+     */
+    private refreshPanel(): void {
+        const clock = document.getElementById('service-clock');
+        const orders = document.getElementById('service-orders');
+        if (!clock || !orders) return;
+
+        const remaining = Math.max(0, this.SHIFT_DURATION - this.shiftElapsed);
+        const minutes = Math.floor(remaining / 60);
+        const seconds = Math.floor(remaining % 60).toString().padStart(2, '0');
+        clock.textContent = remaining > 0 ? `${minutes}:${seconds}` : '最後點單';
+
+        const waiting = this.customers.filter(c => !c.leaving);
+        if (waiting.length === 0) {
+            orders.innerHTML = '<div class="service-empty">目前沒有待處理的點單</div>';
+            return;
+        }
+
+        orders.innerHTML = waiting.map(customer => {
+            const ratio = Math.max(0, customer.patience / customer.maxPatience);
+            const impatient = ratio <= this.IMPATIENT_RATIO ? ' impatient' : '';
+            return `
+                <div class="service-order${impatient}">
+                    <div class="service-order-title">${customer.stoolIndex + 1} 號椅 ${customer.name}：${escapeHtml(customer.order.name)}</div>
+                    <div class="service-order-detail">${escapeHtml(customer.order.nameChinese)} · ${this.cocktail.getGlassLabel(customer.order.glass)} · NT$ ${customer.order.price}</div>
+                    <div class="progress-bar">
+                        <div class="progress-fill" style="width: ${(ratio * 100).toFixed(0)}%"></div>
+                    </div>
+                </div>
+            `;
+        }).join('');
+    }
+}
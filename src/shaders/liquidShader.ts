@@ -0,0 +1,108 @@
+/**
+ * 液體著色器 - 每個容器只建立一次液體網格（與內壁同形），
+ * 液面高度、彎月面、傾斜與分層顏色全由 uniform 控制，倒酒時不需重建幾何體
+ */
+
+// 著色器支援的最大液層數（超出的液層以最上層顏色顯示）
+export const LIQUID_MAX_LAYERS = 4;
+
+export const LIQUID_SHADER_NAME = 'liquid';
+
+export const LIQUID_VERTEX_SHADER = `
+precision highp float;
+
+attribute vec3 position;
+attribute vec3 normal;
+
+uniform mat4 world;
+uniform mat4 worldViewProjection;
+
+varying vec3 vPositionW;
+varying vec3 vNormalW;
+
+void main(void) {
+    vec4 positionW = world * vec4(position, 1.0);
+    vPositionW = positionW.xyz;
+    vNormalW = normalize(vec3(world * vec4(normal, 0.0)));
+    gl_Position = worldViewProjection * vec4(position, 1.0);
+}
+`;
+
+export const LIQUID_FRAGMENT_SHADER = `
+precision highp float;
+
+#define MAX_LAYERS ${LIQUID_MAX_LAYERS}
+
+varying vec3 vPositionW;
+varying vec3 vNormalW;
+
+uniform vec3 cameraPosition;
+uniform vec3 axisOrigin;       // 容器內底中心（世界座標）
+uniform vec3 axisUp;           // 容器軸向（世界座標）
+uniform float surfaceHeight;   // 液面在軸心處的世界高度
+uniform float rimRadius;       // 液面處的內壁半徑
+uniform float meniscusHeight;  // 彎月面沿杯壁爬升高度
+uniform float layerCount;
+uniform float layerTops[MAX_LAYERS];
+uniform vec3 layerColors[MAX_LAYERS];
+uniform float opacity;
+uniform float frozen;          // 冰沙質地（0 為液體，1 為完全冰沙）
+uniform float foamHeight;      // 液面上泡沫層的厚度（世界座標）
+
+void main(void) {
+    // 液面永遠保持水平（世界座標），靠近杯壁處因彎月面略微上升
+    vec3 offset = vPositionW - axisOrigin;
+    float along = dot(offset, axisUp);
+    float radial = length(offset - axisUp * along);
+    float wall = clamp(radial / max(rimRadius, 0.001), 0.0, 1.0);
+    // 冰沙不會形成彎月面
+    float surface = surfaceHeight + meniscusHeight * (1.0 - frozen) * pow(wall, 6.0);
+
+    if (vPositionW.y > surface + foamHeight) {
+        discard;
+    }
+
+    // 依世界高度找出所在液層
+    vec3 color = layerColors[0];
+    for (int i = 0; i < MAX_LAYERS; i++) {
+        if (float(i) >= layerCount) {
+            break;
+        }
+        color = layerColors[i];
+        if (vPositionW.y <= layerTops[i]) {
+            break;
+        }
+    }
+
+    // 冰沙：顏色偏白、不透明，並帶有細碎冰晶顆粒
+    float grain = fract(sin(dot(floor(vPositionW * 180.0), vec3(12.9898, 78.233, 37.719))) * 43758.5453);
+    color = mix(color, vec3(0.95, 0.96, 0.97), frozen * 0.35) * (1.0 - frozen * 0.15 * grain);
+    float alpha = mix(opacity, 1.0, frozen);
+
+    vec3 viewDirection = normalize(cameraPosition - vPositionW);
+    vec3 lightDirection = normalize(vec3(0.3, 1.0, -0.4));
+
+    // 泡沫層：不透明、偏白並帶細小氣孔；從上方看進杯口時整片都是泡沫
+    bool seenFromTop = !gl_FrontFacing && cameraPosition.y > surface + foamHeight;
+    if (foamHeight > 0.0005 && (vPositionW.y > surface || seenFromTop)) {
+        float pore = fract(sin(dot(floor(vPositionW * 400.0), vec3(39.346, 11.135, 83.155))) * 43758.5453);
+        vec3 foamColor = mix(color, vec3(0.98, 0.96, 0.92), 0.85) * (0.94 + 0.06 * pore);
+        float foamLight = gl_FrontFacing ? 0.75 + 0.25 * max(dot(normalize(vNormalW), lightDirection), 0.0) : 1.05;
+        gl_FragColor = vec4(foamColor * foamLight, 1.0);
+        return;
+    }
+
+    if (gl_FrontFacing) {
+        // 液體側面：簡單漫射 + 邊緣菲涅耳反光
+        vec3 normal = normalize(vNormalW);
+        float diffuse = 0.6 + 0.4 * max(dot(normal, lightDirection), 0.0);
+        float fresnel = pow(1.0 - max(dot(normal, viewDirection), 0.0), 3.0);
+        gl_FragColor = vec4(color * diffuse + vec3(fresnel * 0.2 * (1.0 - frozen)), alpha);
+    } else {
+        // 透過裁切看到的內壁背面即為液面，使用較亮的顏色與鏡面高光
+        vec3 halfVector = normalize(lightDirection + viewDirection);
+        float specular = pow(max(halfVector.y, 0.0), 48.0) * (1.0 - frozen);
+        gl_FragColor = vec4(color * 1.15 + vec3(specular * 0.35), min(1.0, alpha + 0.1));
+    }
+}
+`;
@@ -11,6 +11,15 @@ export enum ItemType {
     SHAKER = 'shaker',
     JIGGER = 'jigger',
     MIXING_GLASS = 'mixing_glass',
+    ICE_BIN = 'ice_bin',
+    STOCK_CRATE = 'stock_crate',
+    BAR_SPOON = 'bar_spoon',
+    STRAINER = 'strainer',
+    MUDDLER = 'muddler',
+    SOLID_INGREDIENT = 'solid_ingredient',
+    BLENDER = 'blender',
+    GARNISH = 'garnish',
+    RIM_DISH = 'rim_dish',
     NPC = 'npc',
     GUITAR = 'guitar'
 }
@@ -22,7 +31,147 @@ export enum LiquorCategory {
     JUICE = 'juice',
     MIXER = 'mixer',
     SYRUP = 'syrup',
-    BITTERS = 'bitters'
+    BITTERS = 'bitters',
+    WINE = 'wine'
+}
+
+// 香氣類型
+export enum AromaNote {
+    CITRUS = 'citrus',
+    HERBAL = 'herbal',
+    FRUITY = 'fruity',
+    FLORAL = 'floral',
+    SPICY = 'spicy',
+    WOODY = 'woody',
+    TROPICAL = 'tropical',
+    COFFEE = 'coffee',
+    NUTTY = 'nutty',
+    CREAMY = 'creamy'
+}
+
+// 冰塊類型
+export enum IceType {
+    CUBES = 'ice_cubes',
+    CRUSHED = 'crushed_ice',
+    ROCK = 'ice_rock'
+}
+
+// 固體材料資料介面（薄荷葉、萊姆角、方糖、莓果）
+export interface SolidData {
+    name: string;
+    displayName: string;
+    color: number;
+    yield?: {                // 每份完全壓搗後釋出的液體
+        type: string;
+        amount: number;      // ml
+    };
+    aroma?: Partial<Record<AromaNote, number>>;  // 每份完全壓搗後釋出的香氣（以 1ml 的強度計）
+    cost?: number;           // 每份進貨成本（NT$）
+}
+
+// 濾冰器種類
+export enum StrainerType {
+    HAWTHORNE = 'hawthorne',
+    JULEP = 'julep'
+}
+
+// 杯型
+export enum GlassType {
+    HIGHBALL = 'highball',
+    ROCKS = 'rocks',
+    COUPE = 'coupe',
+    MARTINI = 'martini',
+    HURRICANE = 'hurricane',
+    COLLINS = 'collins',
+    SHOT = 'shot',
+    WINE = 'wine'
+}
+
+// 杯緣沾邊種類
+export enum RimType {
+    SALT = 'salt',
+    SUGAR = 'sugar'
+}
+
+// 裝飾物放置方式
+export enum GarnishPlacement {
+    RIM = 'rim',       // 掛在杯緣（果皮、水果片）
+    DRINK = 'drink'    // 放入酒中（橄欖、櫻桃、薄荷枝）
+}
+
+// 裝飾物資料介面
+export interface GarnishData {
+    name: string;
+    displayName: string;
+    color: number;
+    placement: GarnishPlacement;
+}
+
+// 冰塊資料介面
+export interface IceData {
+    name: string;
+    displayName: string;
+    meltRate: number;      // 靜置時每秒融化量（ml/s）
+    chillRate: number;     // 降溫速率係數（越大降溫越快）
+    scoopAmount: number;   // 每舀一次的冰量（ml）
+    maxPieces?: number;    // 單一容器可放的最大塊數（大冰塊）
+}
+
+// 容器內壁輪廓點（容器本地座標，由下而上排列）
+export interface ProfilePoint {
+    y: number;       // 高度
+    radius: number;  // 內壁半徑
+}
+
+// 調製手法
+export enum PreparationMethod {
+    SHAKE = 'shake',
+    STIR = 'stir',
+    BUILD = 'build',
+    BLEND = 'blend',
+    MUDDLE = 'muddle'
+}
+
+// 容器動作類型
+export enum ContainerActionType {
+    POUR = 'pour',
+    SHAKE = 'shake',
+    STIR = 'stir',
+    STRAIN = 'strain',
+    TRANSFER = 'transfer',
+    MUDDLE = 'muddle',
+    BLEND = 'blend',
+    DRY_SHAKE = 'dry_shake'  // 不加冰搖盪（打發蛋白泡沫）
+}
+
+// 容器動作紀錄（連續的相同動作會合併）
+export interface ContainerAction {
+    type: ContainerActionType;
+    ingredient?: string;  // 倒入的材料
+    amount?: number;      // 倒入/轉移量（ml）
+    duration?: number;    // 動作持續時間（秒）
+    source?: string;      // 來源容器名稱
+}
+
+// 風味向量（每 ml 的強度，以糖漿的甜度 = 1 為基準）
+export interface FlavorVector {
+    sweetness: number;
+    acidity: number;
+    bitterness: number;
+    aroma?: Partial<Record<AromaNote, number>>;
+}
+
+// 整杯的風味平衡（各軸 0-1，供雷達圖與 NPC 評語使用）
+export interface FlavorBalance {
+    sweetness: number;   // 甜
+    acidity: number;     // 酸
+    bitterness: number;  // 苦
+    strength: number;    // 烈（酒精濃度）
+    dilution: number;    // 稀釋（融冰水比例）
+    aroma: Array<{       // 由強到弱的主要香氣
+        note: AromaNote;
+        intensity: number;
+    }>;
 }
 
 // 酒類資料介面
@@ -31,7 +180,13 @@ export interface LiquorData {
     displayName: string;
     color: number;
     alcoholContent: number;
+    density?: number;            // 密度（g/ml），含糖量越高越重，決定分層順序
     category: LiquorCategory;
+    storageTemperature?: number; // 保存溫度（°C），未設定為室溫
+    carbonation?: number;        // 開瓶時的氣泡程度（0-1），未設定為無氣泡
+    foaming?: number;            // 起泡力（0-1），搖盪後能打出泡沫的材料
+    flavor?: FlavorVector;       // 風味，未設定為無味（如水）
+    costPerMl?: number;          // 進貨成本（NT$/ml），未設定為免費（如水）
 }
 
 // 容器內容介面
@@ -51,6 +206,11 @@ export interface InteractableObject extends BABYLON.Mesh {
         interactable: boolean;
         type: ItemType;
         liquorType?: string;
+        iceType?: IceType;
+        strainerType?: StrainerType;
+        solidType?: string;
+        garnishType?: string;
+        rimType?: RimType;
         capacity?: number;
         originalPosition?: BABYLON.Vector3;
     };
@@ -63,16 +223,298 @@ export interface PhysicsBodyConfig {
     friction?: number;
 }
 
+// 配方材料介面
+export interface RecipeIngredient {
+    type: string;           // 對應酒類資料庫的鍵值
+    amount: number;         // 標準用量（ml）
+    name: string;
+    displayAmount?: string; // 非 ml 的顯示用量（如「適量」、「2滴」）
+    tolerance?: number;     // 覆寫配方的比例容許誤差
+    optional?: boolean;     // 可省略且不列入比例計算（如補滿的蘇打水、苦精）
+}
+
+// 配方固體材料
+export interface RecipeSolid {
+    type: string;           // 對應固體材料資料庫的鍵值
+    count: number;          // 份數（葉、角、顆）
+    name: string;
+}
+
+// 配方裝飾（任一種類即可滿足）
+export interface RecipeGarnish {
+    types: string[];        // 對應裝飾物資料庫的鍵值
+    name: string;
+}
+
+// IBA 官方調酒分類
+export enum IBACategory {
+    UNFORGETTABLE = 'unforgettable',  // The Unforgettables 不朽經典
+    CONTEMPORARY = 'contemporary',    // Contemporary Classics 當代經典
+    NEW_ERA = 'new_era'               // New Era Drinks 新時代調酒
+}
+
+// 調酒誕生年代
+export enum CocktailEra {
+    GOLDEN_AGE = 'golden_age',     // 1920 年以前，雞尾酒黃金年代
+    PROHIBITION = 'prohibition',   // 1920-1933 禁酒令時期
+    MID_CENTURY = 'mid_century',   // 1934-1969，含提基風潮
+    DISCO = 'disco',               // 1970-1989
+    MODERN = 'modern'              // 1990 年後的精釀調酒復興
+}
+
+// 配方難度（1 入門、2 進階、3 專業）
+export type RecipeDifficulty = 1 | 2 | 3;
+
+// 食譜選單篩選條件（未設定的欄位不篩選）
+export interface RecipeFilter {
+    query?: string;                   // 名稱或材料關鍵字
+    category?: IBACategory | null;    // null 表示只看非 IBA 配方（含店家配方）
+    era?: CocktailEra;
+    baseSpirit?: string;
+    difficulty?: RecipeDifficulty;
+    stockedOnly?: boolean;            // 只列出吧檯現有材料就能調的配方
+}
+
 // 調酒配方介面
 export interface CocktailRecipe {
+    id: string;
     name: string;
     nameChinese: string;
+    ingredients: RecipeIngredient[];
+    tolerance: number;          // 各材料佔比的相對容許誤差（0.3 = ±30%）
+    allowedExtras?: string[];   // 可額外加入、不影響判定的材料
+    forbidden?: string[];       // 一旦出現即不成立的材料
+    preparation: PreparationMethod;
+    servingTemperature: number; // 出杯溫度上限（°C）
+    layers?: number;            // 分層調酒需保留的層數
+    solids?: RecipeSolid[];     // 需壓搗的固體材料
+    frozen?: boolean;           // 需以果汁機打成冰沙質地
+    garnishes?: RecipeGarnish[];  // 需放上的裝飾
+    rim?: RimType;              // 杯緣沾鹽/糖
+    foam?: number;              // 需要的泡沫層最少量（ml）
+    method: string;
+    glass: GlassType;
+    acceptedGlasses?: GlassType[];  // 同樣可接受、不扣分的杯型
+    garnish?: string;
+    category?: IBACategory;     // IBA 官方分類，未收錄於 IBA 的配方不設定
+    era: CocktailEra;
+    baseSpirit: string;         // 基酒（酒類資料庫鍵值）
+    difficulty: RecipeDifficulty;
+    price: number;              // 酒單售價（NT$）
+    house?: boolean;            // 玩家自創的店家配方
+}
+
+// 單一材料評分明細
+export interface IngredientScore {
+    type: string;
+    name: string;
+    targetAmount: number;    // 配方用量（ml）
+    actualAmount: number;    // 實際用量（ml）
+    diffMl: number;          // 正值為過量、負值為不足
+    targetShare: number;     // 配方佔比（0-1）
+    actualShare: number;     // 實際佔比（0-1）
+    ratioDeviation: number;  // 佔比相對誤差（0.25 = 多出 25%）
+}
+
+// 固體材料評分明細
+export interface SolidScore {
+    type: string;
+    name: string;
+    targetCount: number;
+    actualCount: number;
+    extraction: number;     // 壓搗萃取程度（0-1）
+}
+
+// 飲品評分結果
+export interface DrinkScore {
+    recipeId: string;
+    recipeName: string;
+    score: number;                   // 0-100
+    matched: boolean;                // 是否在配方容許誤差內
+    ingredients: IngredientScore[];
+    missing: string[];               // 缺少的必要材料
+    extras: string[];                // 配方外的材料
+    forbidden: string[];             // 出現的禁用材料
+    expectedMethod: PreparationMethod;
+    actualMethod: PreparationMethod;
+    methodCorrect: boolean;
+    temperature: number;             // 飲品溫度（°C）
+    targetTemperature: number;       // 配方出杯溫度上限（°C）
+    temperatureOk: boolean;
+    layersOk: boolean;               // 分層調酒是否保有足夠層數
+    solids: SolidScore[];            // 固體材料明細
+    missingSolids: string[];         // 缺少的固體材料
+    muddledOk: boolean;              // 固體材料是否充分壓搗
+    frozenRatio: number;             // 冰沙質地比例（0-1）
+    frozenOk: boolean;               // 冰沙調酒是否打出足夠的冰沙質地
+    missingGarnishes: string[];      // 缺少的裝飾
+    rimOk: boolean;                  // 杯緣沾邊是否正確
+    glassType: GlassType | null;     // 盛裝的杯型（Shaker 等器具為 null）
+    glassOk: boolean;                // 杯型是否正確
+    carbonation: number | null;      // 碳酸材料剩餘的氣泡程度（0-1，配方沒有碳酸材料時為 null）
+    carbonationOk: boolean;          // 氣泡是否充足
+    foamVolume: number;              // 泡沫層量（ml）
+    foamOk: boolean;                 // 泡沫層是否足夠
+}
+
+// 喝掉的飲品資訊（CocktailSystem.drink 的回傳值）
+export interface DrinkInfo {
+    volume: number;
     ingredients: Array<{
         type: string;
+        name: string;
+        displayName: string;
         amount: number;
+        color: number;
+    }>;
+    color: number;
+    method: PreparationMethod;
+    temperature: number;
+    name: string;
+}
+
+// 端給 NPC 的飲品（喝掉前先記下評分與風味）
+export interface ServedDrink extends DrinkInfo {
+    alcoholContent: number;          // 酒精濃度（%）
+    score: DrinkScore | null;
+    flavor: FlavorBalance | null;
+}
+
+// 營業模式：單筆點單紀錄
+export interface ServiceRecord {
+    customerName: string;
+    recipeId: string;
+    recipeName: string;
+    servedName: string | null;   // 實際端上的飲品（走人時為 null）
+    accuracy: number;            // 依點單配方評分（0-100），走人為 0
+    rating: number;              // 客人給的星數（1-5），走人為 0
+    waitTime: number;            // 等待秒數
+    walkedOut: boolean;
+    price: number;               // 實收售價（NT$），拒付或走人為 0
+    tip: number;                 // 小費（NT$）
+}
+
+// 營業模式：班次總結
+export interface ShiftSummary {
+    duration: number;            // 營業秒數
+    served: number;
+    walkouts: number;
+    averageAccuracy: number;     // 已上酒點單的平均準確度（0-100）
+    averageRating: number;       // 已上酒點單的平均星數
+    revenue: number;             // 本班營收（NT$，不含小費）
+    tips: number;                // 本班小費（NT$）
+    records: ServiceRecord[];
+}
+
+// 材料成本統計（本次遊玩期間）
+export interface CostReport {
+    usageCost: number;           // 從酒瓶倒出的液體與放入的固體材料成本（NT$）
+    wasteVolume: number;         // 灑出或倒掉的液體（ml）
+    wasteCost: number;           // 耗損成本（NT$）
+    waste: Array<{               // 各材料耗損，依成本由高到低
+        type: string;
         name: string;
+        volume: number;
+        cost: number;
     }>;
-    method: string;
-    glass: string;
-    garnish?: string;
+}
+
+// 帳本：單筆銷售
+export interface SaleRecord {
+    recipeId: string;
+    recipeName: string;
+    price: number;               // 實收售價（NT$），拒付為 0
+    tip: number;                 // 小費（NT$）
+    cost: number;                // 這杯實際用料成本（NT$）
+    accuracy: number;            // 依點單配方評分（0-100）
+    refused: boolean;            // 做得太差，客人拒付
+}
+
+// 帳本報表
+export interface LedgerReport {
+    revenue: number;             // 營收（NT$，不含小費）
+    tips: number;                // 小費（NT$）
+    drinksSold: number;
+    refused: number;             // 拒付杯數
+    usageCost: number;           // 材料用量成本（NT$，含灑出、倒掉與招待）
+    pourCostPercent: number | null; // 酒水成本率（材料用量成本 / 營收，%），尚無營收時為 null
+    wasteVolume: number;         // 耗損量（ml）
+    wasteCost: number;           // 耗損成本（NT$）
+    waste: CostReport['waste'];
+    sales: SaleRecord[];
+}
+
+// NPC 個性檔案（飲品喜好、酒量與平常的心情）
+export interface NPCProfile {
+    favoriteRecipes: string[];       // 最愛的調酒（配方 id）
+    favoriteIngredients: string[];   // 喜歡的材料（酒類資料庫鍵值）
+    dislikedIngredients: string[];   // 討厭的材料
+    abvTolerance: number;            // 單杯能接受的酒精濃度上限（%）
+    baseMood: number;                // 平常的心情（-1 低落 ~ 1 愉快），心情起伏後會慢慢回到這裡
+}
+
+// NPC 對玩家端過的酒的記憶
+export interface NPCDrinkMemory {
+    recipeId: string | null;         // 認得出的配方（未達配方容許誤差時為 null）
+    name: string;                    // 飲品名稱
+    rating: number;                  // 當時給的星數（1-5）
+}
+
+// 對話條件（negate 為 true 時取反）
+export interface DialogueCondition {
+    type: 'has_served'            // 玩家端過酒給這位 NPC
+        | 'served_recipe'         // 端過指定配方（recipeId）
+        | 'last_rating_at_least'  // 上一杯的星數 >= value
+        | 'mood_at_least'         // 心情 >= value
+        | 'mood_below'            // 心情 < value
+        | 'has_order'             // NPC 正在等點的酒
+        | 'service_active';       // 正在營業
+    recipeId?: string;
+    value?: number;
+    negate?: boolean;
+}
+
+// 對話動作
+export interface DialogueAction {
+    type: 'give_recipe_hint'      // 在對話框附上配方提示（recipeId）
+        | 'start_order'           // NPC 點一杯酒（recipeId），端給他時依此配方評分
+        | 'change_mood'           // 心情增減 value
+        | 'start_shift';          // 開店營業
+    recipeId?: string;
+    value?: number;
+}
+
+// 玩家選項
+export interface DialogueChoice {
+    text: string;
+    next: string | null;          // null 結束對話
+    condition?: DialogueCondition;
+    actions?: DialogueAction[];
+}
+
+// 對話節點：沒有選項時按 E 前往 next
+export interface DialogueNode {
+    text: string;                 // 可用 {lastDrink}、{lastDrinkRemark}、{servedCount}、{order} 代入 NPC 狀態
+    redirects?: Array<{           // 進入節點時依序檢查，第一個成立的條件直接跳到該節點
+        condition: DialogueCondition;
+        next: string;
+    }>;
+    actions?: DialogueAction[];   // 進入節點時執行
+    choices?: DialogueChoice[];
+    next?: string | null;
+}
+
+// 對話樹（每位 NPC 一份 JSON）
+export interface DialogueTree {
+    npc: string;                  // 對應的 NPC 名字
+    start: string;
+    nodes: Record<string, DialogueNode>;
+}
+
+// 對話樹判斷條件用的 NPC 狀態
+export interface NPCDialogueContext {
+    name: string;
+    mood: number;
+    memory: NPCDrinkMemory[];
+    order: string | null;         // 正在等的配方 id
 }
@@ -0,0 +1,19 @@
+/**
+ * HTML 工具 - 店家配方等外部資料可由玩家自訂或匯入，
+ * 放進 innerHTML 模板前必須先跳脫
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+};
+
+/**
+ * 跳脫 HTML 特殊字元
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}